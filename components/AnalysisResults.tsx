@@ -1,37 +1,96 @@
-import React, { useEffect, useState } from 'react';
-import { Play, CheckCircle, AlertTriangle, Users, MessageCircle, RefreshCcw, Star, TrendingUp } from 'lucide-react';
-import { AnalysisResult, HackathonData } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Play, CheckCircle, AlertTriangle, Users, MessageCircle, RefreshCcw, Star, TrendingUp, Activity, Mic, Timer, Flag, Scale, Wand2 } from 'lucide-react';
+import { AnalysisResult, HackathonData, RecordingMetrics, GazeState, TranscriptLine } from '../types';
+import { GAZE_LABELS } from '../services/gazeTracker';
 import { analyzeVideoDemo } from '../services/geminiService';
+import { VideoPrepProgress } from '../services/media';
+import { describeAIError, toAIError, AIErrorMessage } from '../services/aiErrors';
+import { computeRubricBreakdown } from '../services/rubric';
+import { formatOf } from '../services/demoFormat';
+import QaRound from './QaRound';
+import MomentScrubber, { SEVERITY_STYLES, formatTimestamp } from './MomentScrubber';
+import ProvenanceBadge, { ProvenanceDetails } from './ProvenanceBadge';
+import TranscriptPanel from './TranscriptPanel';
+import TeamPanel from './TeamPanel';
 
 interface Props {
   videoBlob: Blob;
   hackathonData: HackathonData;
+  metrics?: RecordingMetrics | null;
+  transcript?: TranscriptLine[];
+  // Verdict from an earlier run; skips the model call when reopening from history
+  initialResult?: AnalysisResult | null;
+  // Fires when the verdict is first produced and whenever it changes (e.g. Q&A answers graded)
+  onResultChange?: (result: AnalysisResult) => void;
+  // Opens the script workshop with this verdict's feedback; absent when the take's profile isn't loaded
+  onReviseScript?: (result: AnalysisResult) => void;
   onRetry: () => void;
 }
 
-const AnalysisResults: React.FC<Props> = ({ videoBlob, hackathonData, onRetry }) => {
-  const [result, setResult] = useState<AnalysisResult | null>(null);
-  const [loading, setLoading] = useState(true);
+const GAZE_COLORS: Record<GazeState, string> = {
+  camera: 'bg-emerald-400',
+  script: 'bg-amber-300',
+  away: 'bg-orange-400',
+  slouching: 'bg-violet-400',
+  'off-frame': 'bg-rose-400'
+};
+
+const formatDuration = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+const AnalysisResults: React.FC<Props> = ({ videoBlob, hackathonData, metrics, transcript, initialResult, onResultChange, onReviseScript, onRetry }) => {
+  const [result, setResult] = useState<AnalysisResult | null>(initialResult ?? null);
+  const [loading, setLoading] = useState(!initialResult);
   const [videoUrl, setVideoUrl] = useState<string>('');
+  const [qaMode, setQaMode] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [videoDuration, setVideoDuration] = useState(0);
+  const [error, setError] = useState<AIErrorMessage | null>(null);
+  const [progress, setProgress] = useState<VideoPrepProgress | null>(null);
+  // Bumped by the retry button to run the analysis again
+  const [attempt, setAttempt] = useState(0);
+  const videoRef = useRef<HTMLVideoElement>(null);
 
   useEffect(() => {
     const url = URL.createObjectURL(videoBlob);
     setVideoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [videoBlob]);
 
+  useEffect(() => {
+    if (initialResult) return;
+
+    // Leaving the page (or retrying) aborts the request in flight
+    const controller = new AbortController();
     const runAnalysis = async () => {
+      setLoading(true);
+      setError(null);
+      setProgress(null);
       try {
-        const analysis = await analyzeVideoDemo(videoBlob, hackathonData);
+        const analysis = await analyzeVideoDemo(videoBlob, hackathonData, {
+          signal: controller.signal,
+          duration: metrics?.duration,
+          layout: metrics?.capture,
+          transcript,
+          team: metrics?.team,
+          onProgress: setProgress
+        });
         setResult(analysis);
+        onResultChange?.(analysis);
       } catch (e) {
-        console.error(e);
-      } finally {
-        setLoading(false);
+        if (toAIError(e).kind === 'cancelled') return;
+        setError(describeAIError(e));
       }
+      setLoading(false);
     };
     runAnalysis();
 
-    return () => URL.revokeObjectURL(url);
-  }, [videoBlob, hackathonData]);
+    return () => controller.abort();
+  }, [videoBlob, hackathonData, attempt]);
+
+  const rubric = useMemo(
+    () => result ? computeRubricBreakdown(hackathonData.criteria, result.rubricScores) : null,
+    [result, hackathonData]
+  );
 
   if (loading) {
     return (
@@ -42,13 +101,65 @@ const AnalysisResults: React.FC<Props> = ({ videoBlob, hackathonData, onRetry })
         </div>
         <div className="text-center space-y-2">
             <h2 className="text-3xl font-serif text-stone-900">Gathering feedback...</h2>
-            <p className="text-stone-500 font-hand text-xl">Reviewing judge profiles against your demo.</p>
+            <p className="text-stone-500 font-hand text-xl">{progress?.message ?? 'Reviewing judge profiles against your demo'}.</p>
         </div>
+        {progress?.fraction !== undefined && (
+            <div className="w-64 h-1.5 bg-stone-200 rounded-full overflow-hidden">
+                <div className="h-full bg-rose-400 rounded-full transition-all duration-300" style={{ width: `${Math.round(progress.fraction * 100)}%` }} />
+            </div>
+        )}
+        <button onClick={onRetry} className="text-stone-400 hover:text-stone-900 text-sm font-medium transition-colors">
+            Cancel
+        </button>
       </div>
     );
   }
 
-  if (!result) return <div>Error loading results.</div>;
+  if (!result) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-stone-50 p-6">
+        <div className="bg-white rounded-3xl p-10 border border-rose-100 shadow-sm max-w-lg text-center space-y-4">
+            <AlertTriangle className="w-10 h-10 text-rose-400 mx-auto" />
+            <h2 className="text-2xl font-serif text-stone-900">{error?.title ?? "No verdict yet."}</h2>
+            <p className="text-stone-500">{error?.action ?? "Try the analysis again."}</p>
+            <div className="flex justify-center gap-3 pt-2">
+                <button onClick={() => setAttempt(a => a + 1)} className="bg-stone-900 text-white px-5 py-2.5 rounded-full font-bold text-sm flex items-center gap-2">
+                    <RefreshCcw className="w-4 h-4" /> Retry analysis
+                </button>
+                <button onClick={onRetry} className="px-5 py-2.5 rounded-full font-medium text-sm text-stone-500 hover:text-stone-900 transition-colors">
+                    Record again
+                </button>
+            </div>
+        </div>
+      </div>
+    );
+  }
+
+  // MediaRecorder webm files often report an Infinity duration, so fall back to
+  // the measured recording length or the last moment the model referenced
+  const duration = Number.isFinite(videoDuration) && videoDuration > 0
+    ? videoDuration
+    : metrics?.duration || Math.max(0, ...result.moments.map(m => m.end));
+
+  const seekTo = (seconds: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = seconds;
+    video.play().catch(() => {});
+  };
+
+  if (qaMode) {
+    return <QaRound
+      questions={result.qaQuestions}
+      hackathonData={hackathonData}
+      onComplete={(qaQuestions) => {
+        const updated = { ...result, qaQuestions };
+        setResult(updated);
+        onResultChange?.(updated);
+        setQaMode(false);
+      }}
+    />;
+  }
 
   return (
     <div className="min-h-screen bg-stone-50 p-6 md:p-12 max-w-7xl mx-auto">
@@ -69,8 +180,23 @@ const AnalysisResults: React.FC<Props> = ({ videoBlob, hackathonData, onRetry })
         <div className="lg:col-span-5 space-y-8">
              <div className="bg-white p-2 rounded-3xl shadow-lg shadow-stone-200 border border-stone-100">
                 <div className="rounded-2xl overflow-hidden bg-stone-900 aspect-video relative">
-                    <video src={videoUrl} controls className="w-full h-full object-cover" />
+                    <video
+                        ref={videoRef}
+                        src={videoUrl}
+                        controls
+                        className="w-full h-full object-cover"
+                        onLoadedMetadata={(e) => setVideoDuration(e.currentTarget.duration)}
+                        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                    />
+                    {videoBlob.size === 0 && (
+                        <div className="absolute inset-0 flex items-center justify-center text-stone-400 text-sm pointer-events-none">
+                            Video not included in the imported package
+                        </div>
+                    )}
                 </div>
+                {result.moments.length > 0 && (
+                    <MomentScrubber moments={result.moments} duration={duration} currentTime={currentTime} onSeek={seekTo} />
+                )}
             </div>
 
             <div className="bg-white rounded-3xl p-8 border border-stone-100 shadow-sm relative overflow-hidden group">
@@ -92,8 +218,140 @@ const AnalysisResults: React.FC<Props> = ({ videoBlob, hackathonData, onRetry })
                     <div className={`inline-flex items-center px-4 py-2 rounded-full text-sm font-bold ${result.overallScore > 80 ? 'bg-emerald-50 text-emerald-700' : 'bg-amber-50 text-amber-700'}`}>
                         {result.overallScore > 80 ? 'Finals Material 🚀' : 'Needs Refining 🛠️'}
                     </div>
+
+                    {result.overtime && (
+                        <button onClick={() => seekTo(result.overtime!.limit)} className="mt-4 flex items-center gap-2 text-sm text-rose-600 hover:text-rose-700 transition-colors">
+                            <Timer className="w-4 h-4" />
+                            <span><span className="font-bold">-{result.overtime.points} overtime:</span> {formatDuration(result.overtime.duration)} against a {formatDuration(result.overtime.limit)} limit</span>
+                        </button>
+                    )}
                  </div>
             </div>
+
+            {/* Delivery Metrics */}
+            {metrics && (
+                <div className="bg-white rounded-3xl p-8 border border-stone-100 shadow-sm">
+                    <h3 className="text-stone-900 font-bold mb-6 flex items-center gap-2 font-serif text-lg">
+                        <Activity className="w-5 h-5 text-stone-400" /> Delivery
+                    </h3>
+                    <div className="grid grid-cols-3 gap-4 text-center">
+                        <div>
+                            <div className={`text-3xl font-serif ${metrics.wpm > 160 || (metrics.wpm > 0 && metrics.wpm < 110) ? 'text-rose-500' : 'text-stone-900'}`}>{metrics.wpm}</div>
+                            <div className="text-xs text-stone-400 uppercase tracking-widest mt-1">WPM</div>
+                        </div>
+                        <div>
+                            <div className="text-3xl font-serif text-stone-900">{metrics.fillerWords}</div>
+                            <div className="text-xs text-stone-400 uppercase tracking-widest mt-1">Fillers</div>
+                        </div>
+                        <div>
+                            <div className="text-3xl font-serif text-stone-900">{metrics.energyLevel}</div>
+                            <div className="text-xs text-stone-400 uppercase tracking-widest mt-1">Energy</div>
+                        </div>
+                        <div>
+                            <div className={`text-3xl font-serif ${metrics.duration > formatOf(hackathonData).demoSeconds ? 'text-rose-500' : 'text-stone-900'}`}>{formatDuration(metrics.duration)}</div>
+                            <div className="text-xs text-stone-400 uppercase tracking-widest mt-1">Duration / {formatDuration(formatOf(hackathonData).demoSeconds)}</div>
+                        </div>
+                        <div>
+                            <div className="text-3xl font-serif text-stone-900">{metrics.pauseCount}</div>
+                            <div className="text-xs text-stone-400 uppercase tracking-widest mt-1">Pauses</div>
+                        </div>
+                        <div>
+                            <div className="text-3xl font-serif text-stone-900">{metrics.longestPause}s</div>
+                            <div className="text-xs text-stone-400 uppercase tracking-widest mt-1">Longest Pause</div>
+                        </div>
+                    </div>
+                    {metrics.attention && (
+                        <div className="mt-8">
+                            <div className="flex justify-between items-baseline mb-2">
+                                <span className="text-xs text-stone-400 uppercase tracking-widest font-bold">Eye Contact</span>
+                                <span className="text-2xl font-serif text-stone-900">{metrics.attention.eyeContact}%</span>
+                            </div>
+                            <div className="flex h-3 rounded-full overflow-hidden bg-stone-100">
+                                {metrics.attention.timeline.map((seg, i) => (
+                                    <div
+                                        key={i}
+                                        className={GAZE_COLORS[seg.state]}
+                                        style={{ width: `${((seg.end - seg.start) / Math.max(metrics.duration, 1)) * 100}%` }}
+                                        title={`${GAZE_LABELS[seg.state]} ${formatDuration(Math.floor(seg.start))}–${formatDuration(Math.floor(seg.end))}`}
+                                    />
+                                ))}
+                            </div>
+                            <div className="flex flex-wrap gap-x-4 gap-y-1 mt-3 text-xs text-stone-500">
+                                <span>{metrics.attention.scriptGlances} script glance{metrics.attention.scriptGlances === 1 ? '' : 's'}</span>
+                                <span>{metrics.attention.slouchMoments} slouch{metrics.attention.slouchMoments === 1 ? '' : 'es'}</span>
+                                <span>{metrics.attention.offFrameMoments} off-frame</span>
+                            </div>
+                        </div>
+                    )}
+                    {metrics.scriptCoverage && (
+                        <div className="mt-8">
+                            <div className="flex justify-between items-baseline mb-2">
+                                <span className="text-xs text-stone-400 uppercase tracking-widest font-bold">Script Coverage</span>
+                                <span className="text-2xl font-serif text-stone-900">{metrics.scriptCoverage.coverage}%</span>
+                            </div>
+                            <div className="h-3 rounded-full overflow-hidden bg-stone-100">
+                                <div className="h-full bg-stone-800" style={{ width: `${metrics.scriptCoverage.coverage}%` }} />
+                            </div>
+                            <p className="text-xs text-stone-500 mt-3">
+                                {metrics.scriptCoverage.sentencesCovered} of {metrics.scriptCoverage.totalSentences} sentences delivered
+                            </p>
+                            {metrics.scriptCoverage.skipped.length > 0 && (
+                                <ul className="mt-3 space-y-2">
+                                    {metrics.scriptCoverage.skipped.map((s, i) => (
+                                        <li key={i} className="text-xs text-amber-700 bg-amber-50 rounded-lg px-3 py-2">Skipped: {s}</li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    )}
+                    {Object.keys(metrics.fillerBreakdown).length > 0 && (
+                        <div className="flex flex-wrap gap-2 mt-6">
+                            {Object.entries<number>(metrics.fillerBreakdown).sort((a, b) => b[1] - a[1]).map(([word, count]) => (
+                                <span key={word} className="bg-stone-100 text-stone-600 text-xs font-medium px-3 py-1 rounded-full">"{word}" ×{count}</span>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* Segment Pacing */}
+            {metrics?.segments && metrics.segments.length > 0 && (
+                <div className="bg-white rounded-3xl p-8 border border-stone-100 shadow-sm">
+                    <h3 className="text-stone-900 font-bold mb-6 flex items-center gap-2 font-serif text-lg">
+                        <Timer className="w-5 h-5 text-stone-400" /> Pacing
+                    </h3>
+                    <div className="space-y-4">
+                        {metrics.segments.map((seg, i) => {
+                            const planned = seg.plannedEnd - seg.plannedStart;
+                            const actual = seg.actualStart !== null && seg.actualEnd !== null ? seg.actualEnd - seg.actualStart : null;
+                            const over = actual !== null ? actual - planned : 0;
+                            return (
+                                <div key={i} className="text-sm">
+                                    <div className="flex justify-between gap-4 mb-1">
+                                        <span className="text-stone-700 font-medium">{seg.action}</span>
+                                        <span className={`font-mono text-xs shrink-0 ${actual === null ? 'text-stone-300' : over > 5 ? 'text-rose-500 font-bold' : over < -5 ? 'text-amber-600' : 'text-emerald-600'}`}>
+                                            {actual === null ? 'skipped' : `${formatDuration(Math.round(actual))} / ${formatDuration(Math.round(planned))}`}
+                                        </span>
+                                    </div>
+                                    <div className="h-1.5 rounded-full bg-stone-100 overflow-hidden">
+                                        {actual !== null && (
+                                            <div
+                                                className={`h-full ${over > 5 ? 'bg-rose-400' : 'bg-stone-800'}`}
+                                                style={{ width: `${Math.min(100, (actual / Math.max(planned, 1)) * 100)}%` }}
+                                            />
+                                        )}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+
+            {/* Transcript */}
+            {transcript && transcript.length > 0 && (
+                <TranscriptPanel transcript={transcript} hackathonData={hackathonData} speakers={metrics?.team?.presenters} currentTime={currentTime} onSeek={seekTo} />
+            )}
         </div>
 
         {/* Right Col: Feedback */}
@@ -129,6 +387,77 @@ const AnalysisResults: React.FC<Props> = ({ videoBlob, hackathonData, onRetry })
                 </div>
             </div>
 
+            {onReviseScript && (result.improvements.length > 0 || result.judgeSpecificFeedback.length > 0) && (
+                <button
+                    onClick={() => onReviseScript(result)}
+                    className="w-full flex items-center justify-center gap-2 bg-stone-900 hover:bg-stone-800 text-white px-6 py-3 rounded-full font-bold transition-colors shadow-lg"
+                >
+                    <Wand2 className="w-4 h-4" /> Fold this feedback into the script
+                </button>
+            )}
+
+            {/* Rubric Breakdown */}
+            {rubric && rubric.criteria.some(c => c.averageScore !== null) && (
+                <div className="bg-white border border-stone-100 rounded-3xl p-8 shadow-sm">
+                    <div className="flex justify-between items-baseline mb-6">
+                        <h3 className="text-stone-900 font-bold flex items-center gap-2 font-serif text-xl">
+                            <Scale className="w-6 h-6 text-stone-400" /> Rubric Breakdown
+                        </h3>
+                        <span className="font-mono text-sm text-stone-500">{rubric.total}/100</span>
+                    </div>
+                    <div className="space-y-6">
+                        {rubric.criteria.map((row, i) => (
+                            <div key={i}>
+                                <div className="flex justify-between gap-4 mb-1 text-sm">
+                                    <span className="text-stone-900 font-bold">{row.criterion.name}</span>
+                                    <span className="font-mono text-xs text-stone-500 shrink-0">
+                                        {row.averageScore === null ? 'not scored' : `${row.averageScore.toFixed(1)}/${row.criterion.scale}`} · {Math.round(row.earnedPoints)}/{Math.round(row.maxPoints)} pts
+                                    </span>
+                                </div>
+                                <div className="h-1.5 rounded-full bg-stone-100 overflow-hidden mb-3">
+                                    <div className="h-full bg-stone-800" style={{ width: `${row.maxPoints > 0 ? (row.earnedPoints / row.maxPoints) * 100 : 0}%` }} />
+                                </div>
+                                <ul className="space-y-1">
+                                    {row.scores.map((s, j) => (
+                                        <li key={j} className="text-xs text-stone-500 leading-relaxed">
+                                            <span className="font-mono text-stone-700">{s.score}</span> <span className="font-bold text-stone-600">{s.judgeName}</span> — {s.justification}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {/* Key Moments */}
+            {result.moments.length > 0 && (
+                <div className="bg-white border border-stone-100 rounded-3xl p-8 shadow-sm">
+                    <h3 className="text-stone-900 font-bold mb-6 flex items-center gap-2 font-serif text-xl">
+                        <Flag className="w-6 h-6 text-stone-400" /> Key Moments
+                    </h3>
+                    <div className="space-y-3">
+                        {[...result.moments].sort((a, b) => a.start - b.start).map((m, i) => (
+                            <button key={i} onClick={() => seekTo(m.start)} className="w-full text-left flex items-start gap-4 p-3 -mx-3 rounded-2xl hover:bg-stone-50 transition-colors group">
+                                <span className="font-mono text-xs text-stone-500 bg-stone-100 group-hover:bg-stone-900 group-hover:text-white transition-colors px-2 py-1 rounded mt-0.5 shrink-0">
+                                    {formatTimestamp(m.start)}
+                                </span>
+                                <div className="flex-1">
+                                    <p className="text-stone-700 text-sm leading-relaxed">{m.note}</p>
+                                    <div className="flex flex-wrap gap-2 mt-2">
+                                        <span className={`text-xs font-bold px-2 py-0.5 rounded-full ${SEVERITY_STYLES[m.severity].badge}`}>{m.severity}</span>
+                                        <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-stone-100 text-stone-500">{m.category}</span>
+                                        {m.judgeName && <span className="text-xs text-stone-400">{m.judgeName}</span>}
+                                    </div>
+                                </div>
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {metrics?.team && <TeamPanel team={metrics.team} feedback={result.presenterFeedback} onSeek={seekTo} />}
+
             {/* Judge Feedback - Note Style */}
             <div className="bg-white border border-stone-200 rounded-3xl p-8 shadow-sm relative">
                  {/* Tape effect */}
@@ -138,30 +467,59 @@ const AnalysisResults: React.FC<Props> = ({ videoBlob, hackathonData, onRetry })
                     <Users className="w-6 h-6 text-stone-400" /> Judge Notes
                 </h3>
                 <div className="space-y-6">
-                    {result.judgeSpecificFeedback.map((item, i) => (
-                        <div key={i} className="flex gap-4 group">
-                             <div className="w-10 h-10 rounded-full bg-stone-100 flex items-center justify-center shrink-0 font-serif font-bold text-stone-500 group-hover:bg-stone-900 group-hover:text-white transition-colors">
-                                 {item.judgeName.charAt(0)}
-                             </div>
-                             <div>
-                                <div className="text-stone-900 font-bold text-sm mb-1">{item.judgeName}</div>
-                                <p className="text-stone-500 font-hand text-lg leading-relaxed">"{item.feedback}"</p>
-                             </div>
-                        </div>
-                    ))}
+                    {result.judgeSpecificFeedback.map((item, i) => {
+                        // The verdict only has names; the profile says how real each judge is
+                        const judge = hackathonData.judges.find(j => j.name === item.judgeName);
+                        return (
+                            <div key={i} className="flex gap-4 group">
+                                 <div className="w-10 h-10 rounded-full bg-stone-100 flex items-center justify-center shrink-0 font-serif font-bold text-stone-500 group-hover:bg-stone-900 group-hover:text-white transition-colors">
+                                     {item.judgeName.charAt(0)}
+                                 </div>
+                                 <div className="min-w-0">
+                                    <div className="flex items-center gap-2 mb-1">
+                                        <div className="text-stone-900 font-bold text-sm">{item.judgeName}</div>
+                                        {judge && <ProvenanceBadge provenance={judge.provenance} />}
+                                    </div>
+                                    <p className="text-stone-500 font-hand text-lg leading-relaxed">"{item.feedback}"</p>
+                                    {judge?.provenance && judge.provenance.origin !== 'archetype' && (
+                                        <div className="mt-2"><ProvenanceDetails provenance={judge.provenance} /></div>
+                                    )}
+                                 </div>
+                            </div>
+                        );
+                    })}
                 </div>
             </div>
 
             {/* Q&A Prep */}
             <div className="bg-indigo-50/30 border border-indigo-100/50 rounded-3xl p-8">
-                <h3 className="text-indigo-900 font-bold mb-6 flex items-center gap-2 font-serif text-xl">
-                    <MessageCircle className="w-6 h-6 text-indigo-400" /> Prep for Q&A
-                </h3>
+                <div className="flex justify-between items-center mb-6">
+                    <h3 className="text-indigo-900 font-bold flex items-center gap-2 font-serif text-xl">
+                        <MessageCircle className="w-6 h-6 text-indigo-400" /> Prep for Q&A
+                    </h3>
+                    {result.qaQuestions.length > 0 && (
+                        <button onClick={() => setQaMode(true)} className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-full text-sm font-bold transition-colors">
+                            <Mic className="w-4 h-4" /> Practice Q&A
+                        </button>
+                    )}
+                </div>
                 <div className="space-y-4">
                     {result.qaQuestions.map((q, i) => (
                         <div key={i} className="bg-white p-4 rounded-2xl border border-indigo-100 shadow-sm flex gap-4 items-start">
                             <span className="bg-indigo-100 text-indigo-600 font-bold px-2 py-1 rounded text-xs mt-0.5">Q{i+1}</span>
-                            <p className="text-stone-700 font-medium">{q.question}</p>
+                            <div className="flex-1 space-y-2">
+                                <p className="text-stone-700 font-medium">{q.question}</p>
+                                {q.judgeName && <p className="text-xs text-indigo-400 uppercase tracking-wider font-bold">{q.judgeName}</p>}
+                                {q.answer !== undefined && (
+                                    <p className="text-sm text-stone-500 border-l-2 border-indigo-100 pl-3">{q.answer || <em>No answer given</em>}</p>
+                                )}
+                                {q.feedback && (
+                                    <p className="text-stone-500 font-hand text-lg leading-relaxed">"{q.feedback}"</p>
+                                )}
+                            </div>
+                            {q.score !== undefined && (
+                                <span className={`font-serif text-2xl ${q.score >= 7 ? 'text-emerald-600' : 'text-rose-500'}`}>{q.score}<span className="text-xs text-stone-400">/10</span></span>
+                            )}
                         </div>
                     ))}
                 </div>
@@ -0,0 +1,138 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, MonitorUp, MonitorX } from 'lucide-react';
+import { PipCorner } from '../types';
+import { createScreenCompositor, isScreenCaptureSupported, requestScreenShare, PIP_CORNERS, ScreenCompositor } from '../services/screenCapture';
+
+interface Props {
+  cameraStream: MediaStream | null;
+  // The layout has to stay fixed for the whole take
+  locked: boolean;
+  // null means record the camera as before
+  onCaptureChange: (capture: ScreenCompositor | null) => void;
+}
+
+const CORNER_LABELS: Record<PipCorner, string> = {
+  'top-left': 'Top left',
+  'top-right': 'Top right',
+  'bottom-left': 'Bottom left',
+  'bottom-right': 'Bottom right'
+};
+
+// Recording mode picker for the coach view: camera only, or the shared screen
+// with the camera picture-in-picture (services/screenCapture.ts).
+const DemoStudio: React.FC<Props> = ({ cameraStream, locked, onCaptureChange }) => {
+  const [capture, setCapture] = useState<ScreenCompositor | null>(null);
+  const [corner, setCorner] = useState<PipCorner | null>('bottom-right');
+  const [error, setError] = useState('');
+  const previewRef = useRef<HTMLVideoElement>(null);
+  const captureRef = useRef<ScreenCompositor | null>(null);
+  // The browser's "Stop sharing" fires long after render; always call the latest handler
+  const onChangeRef = useRef(onCaptureChange);
+  onChangeRef.current = onCaptureChange;
+
+  useEffect(() => {
+    if (previewRef.current) previewRef.current.srcObject = capture?.stream ?? null;
+  }, [capture]);
+
+  // Leaving the coach view ends the share
+  useEffect(() => () => {
+    if (captureRef.current) {
+      captureRef.current.stop();
+      captureRef.current = null;
+      onChangeRef.current(null);
+    }
+  }, []);
+
+  const stopShare = () => {
+    const current = captureRef.current;
+    if (!current) return;
+    captureRef.current = null;
+    // Parent first, so a take in progress is stopped before its track ends
+    onChangeRef.current(null);
+    current.stop();
+    setCapture(null);
+  };
+
+  const startShare = async () => {
+    setError('');
+    try {
+      const screen = await requestScreenShare();
+      const compositor = createScreenCompositor(screen, cameraStream, { cameraCorner: corner, onScreenEnded: stopShare });
+      captureRef.current = compositor;
+      setCapture(compositor);
+      onChangeRef.current(compositor);
+    } catch (e) {
+      // Dismissing the browser's picker is a NotAllowedError, not worth a message
+      if (e instanceof DOMException && e.name === 'NotAllowedError') return;
+      console.error("Screen share failed", e);
+      setError("Couldn't start screen sharing.");
+    }
+  };
+
+  const chooseCorner = (next: PipCorner | null) => {
+    setCorner(next);
+    capture?.setCameraCorner(next);
+  };
+
+  if (!isScreenCaptureSupported()) return null;
+
+  return (
+    <div className="bg-black/40 backdrop-blur-md border border-white/10 rounded-2xl p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <h3 className="text-xs font-bold uppercase tracking-wider text-white/70">Recording</h3>
+        <div className="ml-auto flex bg-white/10 rounded-full p-0.5">
+          <button
+            onClick={stopShare}
+            disabled={locked}
+            className={`flex items-center gap-1 px-3 py-1 rounded-full text-xs font-bold transition-colors disabled:opacity-40 ${!capture ? 'bg-white text-black' : 'text-white/60 hover:text-white'}`}
+          >
+            <Camera className="w-3 h-3" /> Camera
+          </button>
+          <button
+            onClick={() => !capture && startShare()}
+            disabled={locked}
+            className={`flex items-center gap-1 px-3 py-1 rounded-full text-xs font-bold transition-colors disabled:opacity-40 ${capture ? 'bg-white text-black' : 'text-white/60 hover:text-white'}`}
+            title="Record your screen with the camera picture-in-picture"
+          >
+            <MonitorUp className="w-3 h-3" /> Screen
+          </button>
+        </div>
+      </div>
+
+      {capture && (
+        <>
+          <video ref={previewRef} autoPlay muted playsInline className="w-full aspect-video rounded-lg bg-black border border-white/10" />
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="text-[10px] uppercase tracking-widest text-white/40 mr-1">Camera</span>
+            {PIP_CORNERS.map(c => (
+              <button
+                key={c}
+                onClick={() => chooseCorner(c)}
+                disabled={locked || !cameraStream}
+                className={`px-2 py-0.5 rounded-full text-[10px] font-bold transition-colors disabled:opacity-40 ${corner === c ? 'bg-rose-500 text-white' : 'bg-white/10 text-white/60 hover:bg-white/20'}`}
+              >
+                {CORNER_LABELS[c]}
+              </button>
+            ))}
+            <button
+              onClick={() => chooseCorner(null)}
+              disabled={locked}
+              className={`px-2 py-0.5 rounded-full text-[10px] font-bold transition-colors disabled:opacity-40 ${corner === null ? 'bg-rose-500 text-white' : 'bg-white/10 text-white/60 hover:bg-white/20'}`}
+            >
+              Hidden
+            </button>
+            {!locked && (
+              <button onClick={stopShare} className="ml-auto text-white/40 hover:text-rose-300 transition-colors" title="Stop sharing">
+                <MonitorX className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        </>
+      )}
+
+      {error && <p className="text-xs text-rose-300">{error}</p>}
+    </div>
+  );
+};
+
+export default DemoStudio;
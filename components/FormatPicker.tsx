@@ -0,0 +1,105 @@
+import React from 'react';
+import { Clock } from 'lucide-react';
+import { AudienceType, DeliveryMode, DemoFormat } from '../types';
+import { AUDIENCE_LABELS, DELIVERY_LABELS, FORMAT_PRESETS } from '../services/demoFormat';
+
+interface Props {
+  format: DemoFormat;
+  onChange: (format: DemoFormat) => void;
+  // dark sits on the camera feed (input view), light on the review page
+  tone?: 'light' | 'dark';
+}
+
+const STYLES = {
+  light: {
+    label: 'text-stone-400',
+    chip: 'bg-stone-50 border-stone-200 text-stone-600 hover:border-stone-400',
+    chipActive: 'bg-stone-900 border-stone-900 text-white',
+    hint: 'text-stone-500',
+    input: 'bg-stone-50 border-stone-200 text-stone-700 focus:border-stone-400'
+  },
+  dark: {
+    label: 'text-white/70',
+    chip: 'bg-white/5 border-white/10 text-white/60 hover:bg-white/10',
+    chipActive: 'bg-white border-white text-black',
+    hint: 'text-white/50',
+    input: 'bg-white/5 border-white/10 text-white focus:border-white/30'
+  }
+};
+
+// Editing a field makes it a custom format; lengths are entered in minutes
+const minutes = (seconds: number) => Math.round((seconds / 60) * 100) / 100;
+
+// Event format: a preset, or the limits typed in by hand (services/demoFormat.ts)
+const FormatPicker: React.FC<Props> = ({ format, onChange, tone = 'light' }) => {
+  const styles = STYLES[tone];
+  const active = FORMAT_PRESETS.find(p => p.format.preset === format.preset);
+  const edit = (patch: Partial<DemoFormat>) => onChange({ ...format, ...patch, preset: 'custom' });
+  const fieldClass = `w-full border rounded-xl px-3 py-2 text-sm outline-none ${styles.input}`;
+
+  return (
+    <div className="space-y-3">
+      <div className={`text-xs font-bold uppercase tracking-wider flex items-center gap-2 ${styles.label}`}>
+        <Clock className="w-4 h-4" /> Demo format
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {FORMAT_PRESETS.map(p => (
+          <button
+            key={p.format.preset}
+            onClick={() => onChange(p.format)}
+            title={p.description}
+            className={`px-3 py-1.5 rounded-full border text-xs font-bold transition-colors ${p.format.preset === format.preset ? styles.chipActive : styles.chip}`}
+          >
+            {p.label}
+          </button>
+        ))}
+        {!active && <span className={`px-3 py-1.5 rounded-full border text-xs font-bold ${styles.chipActive}`}>Custom</span>}
+      </div>
+      {active && <p className={`text-xs ${styles.hint}`}>{active.description}</p>}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        <label className="block">
+          <span className={`text-[10px] font-bold uppercase tracking-wider ${styles.hint}`}>Demo (min)</span>
+          <input
+            type="number"
+            min={0.25}
+            step={0.25}
+            value={minutes(format.demoSeconds)}
+            onChange={e => {
+              const value = parseFloat(e.target.value);
+              if (value > 0) edit({ demoSeconds: Math.max(10, Math.round(value * 60)) });
+            }}
+            className={fieldClass}
+          />
+        </label>
+        <label className="block">
+          <span className={`text-[10px] font-bold uppercase tracking-wider ${styles.hint}`}>Q&A (min)</span>
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={minutes(format.qaSeconds)}
+            onChange={e => {
+              const value = parseFloat(e.target.value);
+              if (value >= 0) edit({ qaSeconds: Math.round(value * 60) });
+            }}
+            className={fieldClass}
+          />
+        </label>
+        <label className="block">
+          <span className={`text-[10px] font-bold uppercase tracking-wider ${styles.hint}`}>Audience</span>
+          <select value={format.audience} onChange={e => edit({ audience: e.target.value as AudienceType })} className={fieldClass}>
+            {(Object.keys(AUDIENCE_LABELS) as AudienceType[]).map(a => <option key={a} value={a} className="text-black">{AUDIENCE_LABELS[a]}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className={`text-[10px] font-bold uppercase tracking-wider ${styles.hint}`}>Delivery</span>
+          <select value={format.delivery} onChange={e => edit({ delivery: e.target.value as DeliveryMode })} className={fieldClass}>
+            {(Object.keys(DELIVERY_LABELS) as DeliveryMode[]).map(d => <option key={d} value={d} className="text-black">{DELIVERY_LABELS[d]}</option>)}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default FormatPicker;
@@ -0,0 +1,383 @@
+import React, { useRef, useState } from 'react';
+import { ArrowLeft, ArrowRight, Plus, Trash2, Users, Scale, ScrollText, RefreshCw, Sparkles, Download, Printer, FileText, Wand2 } from 'lucide-react';
+import { HackathonData, Judge } from '../types';
+import { regenerateStrategy } from '../services/geminiService';
+import { describeAIError, AIErrorMessage } from '../services/aiErrors';
+import { rubricOrDefault, weightShares } from '../services/rubric';
+import RubricEditor from './RubricEditor';
+import { listSessions, hackathonKey } from '../services/sessionStore';
+import { buildPrepPackage, prepPackageFileName } from '../services/prepPackage';
+import { buildJudgingBrief, renderBriefMarkdown, renderBriefHtml } from '../services/judgingBrief';
+import { downloadFile, printHtml } from '../services/download';
+import { markEditedByTeam, TEAM_PROVENANCE } from '../services/provenance';
+import ProvenanceBadge, { ProvenanceDetails } from './ProvenanceBadge';
+import ScriptWorkshop from './ScriptWorkshop';
+import TeamSetup from './TeamSetup';
+import FormatPicker from './FormatPicker';
+import { formatOf } from '../services/demoFormat';
+import { addVersion, presenterWpm, scriptHistory } from '../services/scriptWorkshop';
+
+interface Props {
+  hackathonData: HackathonData;
+  onSave: (data: HackathonData) => void;
+  onBack: () => void;
+}
+
+const blankJudge = (): Judge => ({
+  name: '',
+  role: '',
+  company: '',
+  values: [],
+  focusAreas: [],
+  redFlags: [],
+  recommendedTalkingPoints: [],
+  provenance: TEAM_PROVENANCE
+});
+
+// Textarea for string lists, one item per line. Keeps its own text so blank
+// lines survive while typing; remount with a new key to load outside changes.
+const LinesField: React.FC<{ label: string; value: string[]; onChange: (lines: string[]) => void; rows?: number }> = ({ label, value, onChange, rows = 3 }) => {
+  const [text, setText] = useState(value.join('\n'));
+  return (
+    <label className="block">
+      <span className="text-xs font-bold uppercase tracking-wider text-stone-400">{label}</span>
+      <textarea
+        value={text}
+        rows={rows}
+        onChange={e => {
+          setText(e.target.value);
+          onChange(e.target.value.split('\n').map(l => l.trim()).filter(Boolean));
+        }}
+        className="mt-1 w-full bg-stone-50 border border-stone-200 rounded-xl px-3 py-2 text-sm text-stone-700 focus:outline-none focus:border-stone-400"
+      />
+    </label>
+  );
+};
+
+const inputClass = "w-full bg-stone-50 border border-stone-200 rounded-xl px-3 py-2 text-sm text-stone-700 focus:outline-none focus:border-stone-400";
+
+// Review step between analyzing the event page and practicing: fix the
+// model's guesses about the panel, rubric and script, then optionally re-plan
+// the strategy against the corrected panel.
+const HackathonAnalyzer: React.FC<Props> = ({ hackathonData, onSave, onBack }) => {
+  const [draft, setDraft] = useState<HackathonData>(hackathonData);
+  const [rubricOpen, setRubricOpen] = useState(false);
+  // Set when judges, rubric or format change after the current strategy was written
+  const [panelChanged, setPanelChanged] = useState(false);
+  const [regenerating, setRegenerating] = useState(false);
+  const [regenerateError, setRegenerateError] = useState<AIErrorMessage | null>(null);
+  // Bumped when the strategy is replaced so its text fields reload
+  const [strategyVersion, setStrategyVersion] = useState(0);
+  // Stable keys for judge cards so removing one doesn't shift the others' list fields
+  const [judgeIds, setJudgeIds] = useState<number[]>(() => hackathonData.judges.map((_, i) => i));
+  const nextJudgeId = useRef(hackathonData.judges.length);
+
+  // Measured pace for the workshop's read-time estimate; undefined while closed
+  const [workshopWpm, setWorkshopWpm] = useState<number | null | undefined>(undefined);
+
+  const [includeVideo, setIncludeVideo] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState('');
+
+  const rubric = rubricOrDefault(draft.criteria);
+  const shares = weightShares(rubric);
+  const canSave = draft.title.trim() !== '' && draft.judges.length > 0 && draft.judges.every(j => j.name.trim());
+
+  const updateJudge = (index: number, patch: Partial<Judge>) => {
+    const edited = Object.keys(patch) as (keyof Judge)[];
+    setDraft(prev => ({
+      ...prev,
+      judges: prev.judges.map((j, i) => i === index ? { ...j, ...patch, provenance: markEditedByTeam(j.provenance, edited) } : j)
+    }));
+    setPanelChanged(true);
+  };
+
+  const removeJudge = (index: number) => {
+    setDraft(prev => ({ ...prev, judges: prev.judges.filter((_, i) => i !== index) }));
+    setJudgeIds(prev => prev.filter((_, i) => i !== index));
+    setPanelChanged(true);
+  };
+
+  const addJudge = () => {
+    setDraft(prev => ({ ...prev, judges: [...prev.judges, blankJudge()] }));
+    setJudgeIds(prev => [...prev, nextJudgeId.current++]);
+    setPanelChanged(true);
+  };
+
+  const updateStrategy = (patch: Partial<HackathonData['strategy']>) => {
+    setDraft(prev => ({ ...prev, strategy: { ...prev.strategy, ...patch } }));
+  };
+
+  const handleRegenerate = async () => {
+    setRegenerating(true);
+    setRegenerateError(null);
+    try {
+      const strategy = await regenerateStrategy(draft);
+      // The replaced script stays in the workshop's history
+      setDraft(prev => ({ ...prev, strategy, scriptHistory: addVersion(scriptHistory(prev), strategy.generatedScript, 'generated', 'Regenerated strategy') }));
+      setStrategyVersion(v => v + 1);
+      setPanelChanged(false);
+    } catch (e) {
+      console.error(e);
+      setRegenerateError(describeAIError(e));
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  // Takes are stored under the profile as it was analyzed, before any title edits
+  const eventSessions = async () => {
+    const key = hackathonKey(hackathonData);
+    return (await listSessions()).filter(s => hackathonKey(s.hackathon) === key);
+  };
+
+  const openWorkshop = async () => {
+    const wpm = await eventSessions().then(presenterWpm).catch(e => {
+      console.error("Couldn't read past takes", e);
+      return null;
+    });
+    setWorkshopWpm(wpm);
+  };
+
+  const handleExportPackage = async () => {
+    setExporting(true);
+    setExportError('');
+    try {
+      const pkg = await buildPrepPackage(draft, await eventSessions(), { includeVideo });
+      downloadFile(prepPackageFileName(draft), JSON.stringify(pkg), 'application/json');
+    } catch (e) {
+      console.error("Export failed", e);
+      setExportError("Couldn't export the package.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const latestBrief = async () => {
+    const latest = (await eventSessions().catch(() => [])).filter(s => s.result).pop();
+    return buildJudgingBrief(draft, latest?.result);
+  };
+
+  const handleBriefMarkdown = async () => {
+    const brief = await latestBrief();
+    downloadFile(prepPackageFileName(draft).replace(/\.hackjudge\.json$/, '-brief.md'), renderBriefMarkdown(brief), 'text/markdown');
+  };
+
+  const handlePrintBrief = async () => {
+    setExportError('');
+    if (!printHtml(renderBriefHtml(await latestBrief()))) {
+      setExportError("The print window was blocked. Allow popups for this site and try again.");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-stone-50 p-6 md:p-12 max-w-7xl mx-auto">
+      <header className="flex justify-between items-center mb-12">
+        <div>
+          <h1 className="text-4xl font-bold text-stone-900 font-serif mb-2">Review the Panel</h1>
+          <p className="text-stone-500">Fix anything the analysis got wrong before you practice.</p>
+        </div>
+        <button onClick={onBack} className="flex items-center gap-2 text-stone-500 hover:text-stone-900 transition-colors px-4 py-2 rounded-full hover:bg-white hover:shadow-sm">
+          <ArrowLeft className="w-4 h-4" />
+          <span className="font-medium">Back</span>
+        </button>
+      </header>
+
+      {/* Share with the team */}
+      <div className="flex flex-wrap items-center gap-3 mb-8 -mt-6">
+        <button onClick={handleExportPackage} disabled={exporting} className="flex items-center gap-2 bg-white border border-stone-200 hover:border-stone-400 disabled:opacity-50 px-4 py-2 rounded-full text-sm font-medium text-stone-700 transition-colors">
+          <Download className="w-4 h-4" /> {exporting ? 'Exporting...' : 'Export prep package'}
+        </button>
+        <label className="flex items-center gap-2 text-sm text-stone-500">
+          <input type="checkbox" checked={includeVideo} onChange={e => setIncludeVideo(e.target.checked)} className="accent-stone-900" />
+          Include videos
+        </label>
+        <span className="w-px h-6 bg-stone-200 mx-1"></span>
+        <button onClick={handleBriefMarkdown} className="flex items-center gap-2 bg-white border border-stone-200 hover:border-stone-400 px-4 py-2 rounded-full text-sm font-medium text-stone-700 transition-colors">
+          <FileText className="w-4 h-4" /> Brief (.md)
+        </button>
+        <button onClick={handlePrintBrief} className="flex items-center gap-2 bg-white border border-stone-200 hover:border-stone-400 px-4 py-2 rounded-full text-sm font-medium text-stone-700 transition-colors">
+          <Printer className="w-4 h-4" /> Print brief
+        </button>
+        {exportError && <span className="text-sm text-rose-600">{exportError}</span>}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+        {/* Left Col: Event, Rubric, Strategy */}
+        <div className="lg:col-span-5 space-y-8">
+          <div className="bg-white rounded-3xl p-8 border border-stone-100 shadow-sm space-y-4">
+            <label className="block">
+              <span className="text-xs font-bold uppercase tracking-wider text-stone-400">Event</span>
+              <input value={draft.title} onChange={e => setDraft(prev => ({ ...prev, title: e.target.value }))} className={`mt-1 ${inputClass} text-lg font-serif`} />
+            </label>
+            {draft.url && <p className="text-xs text-stone-400 truncate">{draft.url}</p>}
+            <label className="block">
+              <span className="text-xs font-bold uppercase tracking-wider text-stone-400">Your project</span>
+              <textarea
+                value={draft.projectDescription || ''}
+                rows={4}
+                onChange={e => { setDraft(prev => ({ ...prev, projectDescription: e.target.value })); setPanelChanged(true); }}
+                placeholder="What you built. Regenerating the strategy writes the script about this."
+                className={`mt-1 ${inputClass}`}
+              />
+            </label>
+            <FormatPicker
+              format={formatOf(draft)}
+              onChange={format => { setDraft(prev => ({ ...prev, format })); setPanelChanged(true); }}
+            />
+          </div>
+
+          <div className="bg-white rounded-3xl p-8 border border-stone-100 shadow-sm">
+            <div className="flex justify-between items-center mb-6">
+              <h3 className="text-stone-900 font-bold flex items-center gap-2 font-serif text-lg">
+                <Scale className="w-5 h-5 text-stone-400" /> Rubric
+              </h3>
+              <button onClick={() => setRubricOpen(true)} className="text-sm font-bold text-stone-500 hover:text-stone-900 transition-colors">
+                Edit
+              </button>
+            </div>
+            <ul className="space-y-2">
+              {rubric.map((c, i) => (
+                <li key={i} className="flex justify-between gap-4 text-sm">
+                  <span className="text-stone-700">{c.name}</span>
+                  <span className="font-mono text-xs text-stone-400 shrink-0">{Math.round(shares[i])}% · /{c.scale}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="bg-white rounded-3xl p-8 border border-stone-100 shadow-sm space-y-4">
+            <div className="flex justify-between items-center">
+              <h3 className="text-stone-900 font-bold flex items-center gap-2 font-serif text-lg">
+                <ScrollText className="w-5 h-5 text-stone-400" /> Strategy
+              </h3>
+              <button
+                onClick={handleRegenerate}
+                disabled={regenerating || !canSave}
+                className="text-sm font-bold text-stone-500 hover:text-stone-900 disabled:opacity-40 transition-colors flex items-center gap-2"
+              >
+                <RefreshCw className={`w-4 h-4 ${regenerating ? 'animate-spin' : ''}`} /> {regenerating ? 'Regenerating...' : 'Regenerate'}
+              </button>
+            </div>
+            {panelChanged && !regenerating && (
+              <p className="text-xs text-amber-700 bg-amber-50 rounded-xl px-3 py-2">
+                The panel or format changed since this strategy was written. Regenerate it to target the corrected judges and time limit.
+              </p>
+            )}
+            {regenerateError && (
+              <p className="text-xs text-rose-700 bg-rose-50 rounded-xl px-3 py-2">{regenerateError.title} {regenerateError.action} Your edits are kept.</p>
+            )}
+            <LinesField
+              key={`phrases-${strategyVersion}`}
+              label="Key phrases"
+              value={draft.strategy.keyPhrases}
+              onChange={keyPhrases => updateStrategy({ keyPhrases })}
+            />
+            <div>
+              <div className="flex justify-between items-center">
+                <label htmlFor="strategy-script" className="text-xs font-bold uppercase tracking-wider text-stone-400">Script</label>
+                <button
+                  onClick={openWorkshop}
+                  disabled={regenerating}
+                  className="text-xs font-bold text-stone-500 hover:text-stone-900 disabled:opacity-40 transition-colors flex items-center gap-1"
+                >
+                  <Wand2 className="w-3.5 h-3.5" /> Workshop{draft.scriptHistory && draft.scriptHistory.length > 1 ? ` · v${draft.scriptHistory.length}` : ''}
+                </button>
+              </div>
+              <textarea
+                id="strategy-script"
+                value={draft.strategy.generatedScript}
+                rows={12}
+                onChange={e => updateStrategy({ generatedScript: e.target.value })}
+                className={`mt-1 ${inputClass} leading-relaxed`}
+              />
+            </div>
+          </div>
+
+          <TeamSetup
+            team={draft.team ?? []}
+            structure={draft.strategy.structure}
+            onChange={team => setDraft(prev => ({ ...prev, team }))}
+          />
+        </div>
+
+        {/* Right Col: Judges */}
+        <div className="lg:col-span-7 space-y-6">
+          <div className="flex justify-between items-center">
+            <h3 className="text-stone-900 font-bold flex items-center gap-2 font-serif text-xl">
+              <Users className="w-6 h-6 text-stone-400" /> Judges
+            </h3>
+            <button onClick={addJudge} className="flex items-center gap-2 text-sm font-bold text-stone-500 hover:text-stone-900 transition-colors">
+              <Plus className="w-4 h-4" /> Add judge
+            </button>
+          </div>
+
+          {draft.judges.map((judge, i) => (
+            <div key={judgeIds[i]} className="bg-white rounded-3xl p-8 border border-stone-100 shadow-sm space-y-4">
+              <div className="flex gap-3 items-start">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3 flex-1">
+                  <input value={judge.name} onChange={e => updateJudge(i, { name: e.target.value })} placeholder="Name" className={`${inputClass} font-bold`} />
+                  <input value={judge.role} onChange={e => updateJudge(i, { role: e.target.value })} placeholder="Role" className={inputClass} />
+                  <input value={judge.company} onChange={e => updateJudge(i, { company: e.target.value })} placeholder="Company" className={inputClass} />
+                </div>
+                <div className="pt-3"><ProvenanceBadge provenance={judge.provenance} /></div>
+                <button onClick={() => removeJudge(i)} className="text-stone-300 hover:text-rose-500 transition-colors p-2" title="Remove judge">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <ProvenanceDetails provenance={judge.provenance} />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <LinesField label="Values" value={judge.values} onChange={values => updateJudge(i, { values })} />
+                <LinesField label="Focus areas" value={judge.focusAreas} onChange={focusAreas => updateJudge(i, { focusAreas })} />
+                <LinesField label="Red flags" value={judge.redFlags} onChange={redFlags => updateJudge(i, { redFlags })} />
+                <LinesField label="Talking points" value={judge.recommendedTalkingPoints} onChange={recommendedTalkingPoints => updateJudge(i, { recommendedTalkingPoints })} />
+              </div>
+            </div>
+          ))}
+
+          {draft.judges.length === 0 && (
+            <div className="bg-white rounded-3xl p-12 border border-stone-100 text-center">
+              <p className="text-stone-500 font-hand text-xl">Add at least one judge to practice against.</p>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              onClick={() => onSave(draft)}
+              disabled={!canSave || regenerating}
+              className="bg-stone-900 text-white hover:bg-stone-800 disabled:opacity-40 px-8 py-4 rounded-full font-bold flex items-center gap-2 transition-all shadow-lg"
+            >
+              <Sparkles className="w-4 h-4" /> Save & practice <ArrowRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {rubricOpen && (
+        <RubricEditor
+          criteria={draft.criteria}
+          onSave={(criteria) => {
+            setDraft(prev => ({ ...prev, criteria }));
+            setPanelChanged(true);
+            setRubricOpen(false);
+          }}
+          onClose={() => setRubricOpen(false)}
+        />
+      )}
+
+      {workshopWpm !== undefined && (
+        <ScriptWorkshop
+          hackathonData={draft}
+          wpm={workshopWpm}
+          onSave={(generatedScript, history) => {
+            setDraft(prev => ({ ...prev, strategy: { ...prev.strategy, generatedScript }, scriptHistory: history }));
+            setWorkshopWpm(undefined);
+          }}
+          onClose={() => setWorkshopWpm(undefined)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default HackathonAnalyzer;
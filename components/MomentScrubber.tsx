@@ -0,0 +1,53 @@
+import React from 'react';
+import { DemoMoment, MomentSeverity } from '../types';
+
+interface Props {
+  moments: DemoMoment[];
+  duration: number;
+  currentTime: number;
+  onSeek: (seconds: number) => void;
+}
+
+export const SEVERITY_STYLES: Record<MomentSeverity, { marker: string; badge: string }> = {
+  minor: { marker: 'bg-amber-300', badge: 'bg-amber-50 text-amber-700' },
+  major: { marker: 'bg-orange-400', badge: 'bg-orange-50 text-orange-700' },
+  critical: { marker: 'bg-rose-500', badge: 'bg-rose-50 text-rose-700' }
+};
+
+export const formatTimestamp = (seconds: number) => `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+// Timeline under the video with one marker per moment; clicking seeks.
+const MomentScrubber: React.FC<Props> = ({ moments, duration, currentTime, onSeek }) => {
+  const safeDuration = Math.max(duration, 1);
+  const pct = (s: number) => `${Math.min(100, (s / safeDuration) * 100)}%`;
+
+  return (
+    <div className="px-2 pt-4 pb-2">
+      <div
+        className="relative h-8 cursor-pointer"
+        onClick={(e) => {
+          const rect = e.currentTarget.getBoundingClientRect();
+          onSeek(((e.clientX - rect.left) / rect.width) * safeDuration);
+        }}
+      >
+        <div className="absolute top-1/2 -translate-y-1/2 left-0 right-0 h-1.5 bg-stone-100 rounded-full" />
+        <div className="absolute top-1/2 -translate-y-1/2 left-0 h-1.5 bg-stone-300 rounded-full" style={{ width: pct(currentTime) }} />
+        {moments.map((m, i) => (
+          <button
+            key={i}
+            onClick={(e) => { e.stopPropagation(); onSeek(m.start); }}
+            title={`${formatTimestamp(m.start)} ${m.note}`}
+            className={`absolute top-1/2 -translate-y-1/2 h-4 min-w-[6px] rounded-full opacity-80 hover:opacity-100 hover:scale-y-125 transition-all ${SEVERITY_STYLES[m.severity].marker}`}
+            style={{ left: pct(m.start), width: pct(Math.max(m.end - m.start, 0)) }}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-stone-400 font-mono">
+        <span>{formatTimestamp(currentTime)}</span>
+        <span>{formatTimestamp(duration)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default MomentScrubber;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { ExternalLink, ShieldCheck } from 'lucide-react';
+import { Confidence, JudgeOrigin, JudgeProvenance } from '../types';
+
+interface Props {
+  provenance?: JudgeProvenance;
+  // 'dark' for the coach view, 'light' for the profile and verdict pages
+  tone?: 'light' | 'dark';
+}
+
+export const ORIGIN_LABELS: Record<JudgeOrigin, string> = {
+  listed: 'On event page',
+  researched: 'Found via search',
+  archetype: 'Archetype',
+  team: 'Confirmed by team'
+};
+
+const ORIGIN_STYLES: Record<JudgeOrigin, { light: string; dark: string }> = {
+  listed: { light: 'bg-emerald-50 text-emerald-700', dark: 'bg-emerald-500/20 text-emerald-300' },
+  researched: { light: 'bg-sky-50 text-sky-700', dark: 'bg-sky-500/20 text-sky-300' },
+  archetype: { light: 'bg-stone-100 text-stone-500', dark: 'bg-white/10 text-white/50' },
+  team: { light: 'bg-indigo-50 text-indigo-700', dark: 'bg-indigo-500/20 text-indigo-300' }
+};
+
+const CONFIDENCE_STYLES: Record<Confidence, string> = {
+  high: 'text-emerald-600',
+  medium: 'text-amber-600',
+  low: 'text-rose-500'
+};
+
+const FIELD_LABELS: Record<keyof JudgeProvenance['confidence'], string> = {
+  identity: 'Identity',
+  values: 'Values',
+  focusAreas: 'Focus',
+  redFlags: 'Red flags'
+};
+
+// Profiles saved before provenance existed have no origin; say so rather than guess
+export const ProvenanceBadge: React.FC<Props> = ({ provenance, tone = 'light' }) => {
+  if (!provenance) {
+    return (
+      <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider ${ORIGIN_STYLES.archetype[tone]}`}>
+        Unverified
+      </span>
+    );
+  }
+  const verified = provenance.sources.filter(s => s.verified).length;
+  const title = [
+    ORIGIN_LABELS[provenance.origin],
+    ...Object.entries(FIELD_LABELS).map(([key, label]) => `${label}: ${provenance.confidence[key as keyof typeof FIELD_LABELS]} confidence`),
+    provenance.sources.length ? `${verified}/${provenance.sources.length} source(s) confirmed by search` : 'No sources cited'
+  ].join('\n');
+
+  return (
+    <span title={title} className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider whitespace-nowrap ${ORIGIN_STYLES[provenance.origin][tone]}`}>
+      {verified > 0 && <ShieldCheck className="w-3 h-3" />}
+      {ORIGIN_LABELS[provenance.origin]}
+    </span>
+  );
+};
+
+// Per-field confidence and cited links, for the light pages
+export const ProvenanceDetails: React.FC<{ provenance?: JudgeProvenance }> = ({ provenance }) => {
+  if (!provenance) return null;
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+        {(Object.keys(FIELD_LABELS) as (keyof typeof FIELD_LABELS)[]).map(key => (
+          <span key={key} className="text-stone-400">
+            {FIELD_LABELS[key]}: <span className={`font-bold ${CONFIDENCE_STYLES[provenance.confidence[key]]}`}>{provenance.confidence[key]}</span>
+          </span>
+        ))}
+      </div>
+      {provenance.sources.length > 0 && (
+        <ul className="space-y-1">
+          {provenance.sources.map((s, i) => (
+            <li key={i} className="flex items-center gap-1.5 text-xs min-w-0">
+              <a href={s.uri} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-stone-500 hover:text-stone-900 underline underline-offset-2 truncate">
+                <ExternalLink className="w-3 h-3 shrink-0" /> <span className="truncate">{s.title}</span>
+              </a>
+              {!s.verified && <span className="text-amber-600 shrink-0" title="Not among the pages the search tool returned">(unconfirmed)</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ProvenanceBadge;
@@ -0,0 +1,279 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { X, Mic, ArrowRight, RefreshCw, MessageCircle, SkipForward, Timer } from 'lucide-react';
+import { HackathonData, QaQuestion } from '../types';
+import { gradeQaAnswer } from '../services/geminiService';
+import { describeAIError, toAIError, AIErrorMessage } from '../services/aiErrors';
+import { speak, createSpeechRecognition } from '../services/speech';
+import { formatOf } from '../services/demoFormat';
+import { formatTimestamp } from './MomentScrubber';
+
+interface Props {
+  questions: QaQuestion[];
+  hackathonData: HackathonData;
+  // Called with every question, answered or not, when the round ends or is exited
+  onComplete: (questions: QaQuestion[]) => void;
+}
+
+// mic-error: speech recognition is missing, wouldn't start or stopped, so nothing would be heard
+type Phase = 'asking' | 'listening' | 'mic-error' | 'grading' | 'graded' | 'error';
+
+// SpeechRecognition error codes worth explaining; anything else gets MIC_STOPPED
+const MIC_ERRORS: Record<string, string> = {
+  'not-allowed': "Microphone access is blocked. Allow it in the browser's site settings, then try again.",
+  'service-not-allowed': "Microphone access is blocked. Allow it in the browser's site settings, then try again.",
+  'audio-capture': "No microphone was found. Connect one and try again.",
+  'no-speech': "Didn't hear anything. Check the microphone and try again."
+};
+const MIC_STOPPED = "The microphone stopped listening. Try again.";
+
+const QaRound: React.FC<Props> = ({ questions, hackathonData, onComplete }) => {
+  const [items, setItems] = useState<QaQuestion[]>(questions);
+  const [index, setIndex] = useState(0);
+  const [phase, setPhase] = useState<Phase>('asking');
+  const [transcript, setTranscript] = useState('');
+  const [gradeError, setGradeError] = useState<AIErrorMessage | null>(null);
+  const [micError, setMicError] = useState('');
+  // Seconds into the round, against the format's Q&A length
+  const [elapsed, setElapsed] = useState(0);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const recognitionRef = useRef<any>(null);
+  const finalTextRef = useRef('');
+  const gradeAbortRef = useRef<AbortController | null>(null);
+  // True while recognition runs because we asked it to; an end we didn't ask for is a dead mic
+  const listeningRef = useRef(false);
+  // Bumped by every ask and on unmount, so a question whose reading was cut short doesn't start listening
+  const askIdRef = useRef(0);
+
+  const qaSeconds = formatOf(hackathonData).qaSeconds;
+  const current = items[index];
+  const judge = hackathonData.judges.find(j => j.name.toLowerCase() === current?.judgeName?.toLowerCase());
+
+  // --- Camera & Recognition ---
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    navigator.mediaDevices.getUserMedia({ video: true })
+      .then(s => {
+        stream = s;
+        if (videoRef.current) videoRef.current.srcObject = s;
+      })
+      .catch(e => console.error("Camera failed", e));
+
+    const recognition = createSpeechRecognition();
+    if (recognition) {
+      recognition.onresult = (event: any) => {
+        let interim = '';
+        for (let i = event.resultIndex; i < event.results.length; ++i) {
+          if (event.results[i].isFinal) {
+            finalTextRef.current += ' ' + event.results[i][0].transcript;
+          } else {
+            interim += event.results[i][0].transcript;
+          }
+        }
+        setTranscript((finalTextRef.current + ' ' + interim).trim());
+      };
+      // Permission denials and silence timeouts arrive here rather than from start()
+      recognition.onerror = (event: any) => {
+        if (!listeningRef.current || event.error === 'aborted') return;
+        listeningRef.current = false;
+        setMicError(MIC_ERRORS[event.error] ?? MIC_STOPPED);
+        setPhase('mic-error');
+      };
+      recognition.onend = () => {
+        if (!listeningRef.current) return;
+        listeningRef.current = false;
+        setMicError(MIC_STOPPED);
+        setPhase('mic-error');
+      };
+      recognitionRef.current = recognition;
+    }
+
+    return () => {
+      askIdRef.current++;
+      listeningRef.current = false;
+      stream?.getTracks().forEach(t => t.stop());
+      recognitionRef.current?.abort?.();
+      gradeAbortRef.current?.abort();
+      window.speechSynthesis.cancel();
+    };
+  }, []);
+
+  // --- Q&A Clock: formats without a Q&A have no clock ---
+  useEffect(() => {
+    if (qaSeconds === 0) return;
+    const startedAt = Date.now();
+    const timer = setInterval(() => setElapsed(Math.floor((Date.now() - startedAt) / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, [qaSeconds]);
+
+  // --- Ask, Listen, Grade ---
+  const stopListening = () => {
+    listeningRef.current = false;
+    recognitionRef.current?.stop();
+  };
+
+  const listen = useCallback(() => {
+    if (!recognitionRef.current) {
+      setPhase('mic-error');
+      return;
+    }
+    try {
+      recognitionRef.current.start();
+    } catch (e) {
+      // start() throws if a previous session hasn't fully ended yet; retrying a moment later works
+      console.error(e);
+      setMicError("The microphone didn't start listening. Try again in a moment.");
+      setPhase('mic-error');
+      return;
+    }
+    listeningRef.current = true;
+    setPhase('listening');
+  }, []);
+
+  const ask = useCallback(async (q: QaQuestion) => {
+    const id = ++askIdRef.current;
+    setPhase('asking');
+    setTranscript('');
+    finalTextRef.current = '';
+    // speak() also resolves when a skip or unmount cancels the reading
+    await speak(q.judgeName ? `${q.judgeName} asks: ${q.question}` : q.question, { voiceName: 'Google US English' });
+    if (askIdRef.current === id) listen();
+  }, [listen]);
+
+  // Only a new index asks again; grading updates `current` without re-asking
+  useEffect(() => {
+    if (current) ask(current);
+  }, [index, ask]);
+
+  const submitAnswer = async () => {
+    stopListening();
+    const answer = transcript.trim();
+    setPhase('grading');
+    const controller = new AbortController();
+    gradeAbortRef.current = controller;
+    try {
+      const grade = await gradeQaAnswer(current.question, answer, judge, controller.signal);
+      setItems(prev => prev.map((q, i) => i === index ? { ...q, answer, feedback: grade.feedback, score: grade.score } : q));
+      setPhase('graded');
+    } catch (e) {
+      if (toAIError(e).kind === 'cancelled') return;
+      setGradeError(describeAIError(e));
+      setPhase('error');
+    }
+  };
+
+  const next = () => {
+    stopListening();
+    if (index + 1 < items.length) {
+      setIndex(index + 1);
+    } else {
+      onComplete(items);
+    }
+  };
+
+  const exit = () => {
+    stopListening();
+    onComplete(items);
+  };
+
+  if (!current) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black text-white font-sans">
+      <video ref={videoRef} autoPlay muted className="absolute inset-0 w-full h-full object-cover transform scale-x-[-1] brightness-50" />
+      <div className="absolute inset-0 bg-gradient-to-t from-black/90 via-black/30 to-black/60 pointer-events-none"></div>
+
+      <div className="absolute top-0 left-0 right-0 p-6 flex justify-between items-center z-10">
+        <div className="flex items-center gap-3">
+          <MessageCircle className="w-5 h-5 text-indigo-300" />
+          <span className="text-xs font-bold uppercase tracking-widest text-white/70">Q&A Round · {index + 1} / {items.length}</span>
+          {qaSeconds > 0 && (
+            <span className={`flex items-center gap-1 text-xs font-mono font-bold ${elapsed >= qaSeconds ? 'text-rose-300' : 'text-white/50'}`}>
+              <Timer className="w-3 h-3" /> {elapsed >= qaSeconds ? "Time's up, the moderator would move on" : `${formatTimestamp(qaSeconds - elapsed)} left`}
+            </span>
+          )}
+        </div>
+        <button onClick={exit} className="w-10 h-10 rounded-full bg-white/10 hover:bg-white/20 flex items-center justify-center transition-colors">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="absolute inset-x-0 bottom-0 p-8 md:p-12 z-10 max-w-3xl mx-auto space-y-6">
+        {/* Question */}
+        <div>
+          <div className="text-xs text-indigo-200 uppercase tracking-widest mb-2">
+            {judge ? `${judge.name} · ${judge.role}` : current.judgeName || 'The Panel'}
+          </div>
+          <h2 className="text-3xl md:text-4xl font-serif leading-snug drop-shadow-xl">{current.question}</h2>
+        </div>
+
+        {/* Live Answer */}
+        <div className="bg-black/50 backdrop-blur-md border border-white/10 rounded-2xl p-5 min-h-[5rem]">
+          <div className="flex items-center gap-2 mb-2">
+            <div className={`w-2 h-2 rounded-full ${phase === 'listening' ? 'bg-rose-500 animate-pulse' : 'bg-white/30'}`}></div>
+            <span className="text-xs font-bold uppercase tracking-wider text-white/50">
+              {phase === 'asking' ? 'Listen to the question...' : phase === 'listening' ? 'Your answer' : 'Answer'}
+            </span>
+          </div>
+          <p className="text-lg text-white/90">{transcript || (phase === 'listening' ? '...' : '')}</p>
+        </div>
+
+        {/* Grade */}
+        {phase === 'graded' && current.feedback && (
+          <div className="bg-white/10 backdrop-blur-xl border border-white/20 rounded-2xl p-5 flex gap-5 items-start">
+            <div className="text-center shrink-0">
+              <div className={`text-4xl font-serif ${current.score !== undefined && current.score >= 7 ? 'text-emerald-300' : 'text-rose-300'}`}>{current.score}</div>
+              <div className="text-xs text-white/40">/10</div>
+            </div>
+            <p className="text-lg font-serif italic text-rose-100 leading-snug">"{current.feedback}"</p>
+          </div>
+        )}
+        {phase === 'error' && (
+          <p className="text-rose-300 text-sm">Couldn't grade that answer. {gradeError?.title} {gradeError?.action}</p>
+        )}
+        {phase === 'mic-error' && (
+          <p className="text-rose-300 text-sm">
+            {recognitionRef.current
+              ? micError
+              : "This browser has no speech recognition, so answers can't be heard. Try Chrome or Edge."}
+          </p>
+        )}
+
+        {/* Controls */}
+        <div className="flex gap-3">
+          {phase === 'listening' && (
+            <button onClick={submitAnswer} className="bg-white text-black hover:bg-rose-50 px-6 py-3 rounded-xl font-bold flex items-center gap-2 transition-all">
+              <Mic className="w-4 h-4" /> Done answering
+            </button>
+          )}
+          {phase === 'grading' && (
+            <span className="text-white/60 font-hand text-xl">The judge is thinking...</span>
+          )}
+          {phase === 'mic-error' && recognitionRef.current && (
+            <button onClick={listen} className="bg-white text-black px-6 py-3 rounded-xl font-bold flex items-center gap-2">
+              <Mic className="w-4 h-4" /> Start listening
+            </button>
+          )}
+          {phase === 'error' && (
+            <button onClick={submitAnswer} className="bg-white text-black px-6 py-3 rounded-xl font-bold flex items-center gap-2">
+              <RefreshCw className="w-4 h-4" /> Retry grading
+            </button>
+          )}
+          {(phase === 'graded' || phase === 'error') && (
+            <button onClick={() => ask(current)} className="bg-white/10 hover:bg-white/20 px-6 py-3 rounded-xl font-bold flex items-center gap-2 transition-all">
+              <RefreshCw className="w-4 h-4" /> Answer again
+            </button>
+          )}
+          {phase !== 'grading' && (
+            <button onClick={next} className="ml-auto bg-white/10 hover:bg-white/20 px-6 py-3 rounded-xl font-bold flex items-center gap-2 transition-all">
+              {phase === 'graded' ? (index + 1 < items.length ? 'Next question' : 'Finish') : 'Skip'}
+              {phase === 'graded' ? <ArrowRight className="w-4 h-4" /> : <SkipForward className="w-4 h-4" />}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QaRound;
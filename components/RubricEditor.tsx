@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2, Scale } from 'lucide-react';
+import { RubricCriterion } from '../types';
+import { DEFAULT_RUBRIC, weightShares } from '../services/rubric';
+
+interface Props {
+  criteria: RubricCriterion[];
+  onSave: (criteria: RubricCriterion[]) => void;
+  onClose: () => void;
+}
+
+const blankCriterion = (): RubricCriterion => ({ name: '', weight: 1, description: '', scale: 10 });
+
+// Modal for correcting the extracted rubric by hand. Weights are relative;
+// the percentage column shows what each one works out to.
+const RubricEditor: React.FC<Props> = ({ criteria, onSave, onClose }) => {
+  const [rows, setRows] = useState<RubricCriterion[]>(criteria.length > 0 ? criteria : DEFAULT_RUBRIC);
+
+  const shares = weightShares(rows);
+  const valid = rows.length > 0 && rows.every(r => r.name.trim() && r.weight > 0 && r.scale > 0);
+
+  const update = (index: number, patch: Partial<RubricCriterion>) => {
+    setRows(prev => prev.map((r, i) => i === index ? { ...r, ...patch } : r));
+  };
+
+  const save = () => {
+    onSave(rows.map(r => ({ ...r, name: r.name.trim(), description: r.description.trim() })));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-6 font-sans">
+      <div className="bg-stone-900 text-white border border-white/10 rounded-3xl w-full max-w-3xl max-h-full overflow-y-auto p-8">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-serif flex items-center gap-2">
+            <Scale className="w-5 h-5 text-white/50" /> Judging Rubric
+          </h2>
+          <button onClick={onClose} className="w-10 h-10 rounded-full bg-white/10 hover:bg-white/20 flex items-center justify-center transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-[1fr_5rem_5rem_3.5rem_2rem] gap-3 text-xs font-bold uppercase tracking-wider text-white/40 mb-2">
+          <span>Criterion</span>
+          <span>Weight</span>
+          <span>Scale</span>
+          <span className="text-right">Share</span>
+          <span></span>
+        </div>
+        <div className="space-y-4">
+          {rows.map((row, i) => (
+            <div key={i} className="space-y-2">
+              <div className="grid grid-cols-[1fr_5rem_5rem_3.5rem_2rem] gap-3 items-center">
+                <input
+                  value={row.name}
+                  onChange={e => update(i, { name: e.target.value })}
+                  placeholder="e.g. Technical Complexity"
+                  className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-white/40"
+                />
+                <input
+                  type="number"
+                  min={0}
+                  value={row.weight}
+                  onChange={e => update(i, { weight: Math.max(0, Number(e.target.value)) })}
+                  className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm font-mono focus:outline-none focus:border-white/40"
+                />
+                <input
+                  type="number"
+                  min={1}
+                  value={row.scale}
+                  onChange={e => update(i, { scale: Math.max(1, Math.round(Number(e.target.value))) })}
+                  className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm font-mono focus:outline-none focus:border-white/40"
+                />
+                <span className="text-right font-mono text-sm text-white/60">{Math.round(shares[i])}%</span>
+                <button
+                  onClick={() => setRows(prev => prev.filter((_, j) => j !== i))}
+                  className="text-white/30 hover:text-rose-400 transition-colors"
+                  title="Remove criterion"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <input
+                value={row.description}
+                onChange={e => update(i, { description: e.target.value })}
+                placeholder="What judges look for"
+                className="w-full bg-transparent border-b border-white/10 px-1 py-1 text-xs text-white/60 focus:outline-none focus:border-white/40"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-3 mt-8">
+          <button
+            onClick={() => setRows(prev => [...prev, blankCriterion()])}
+            className="bg-white/10 hover:bg-white/20 px-4 py-2 rounded-xl text-sm font-bold flex items-center gap-2 transition-all"
+          >
+            <Plus className="w-4 h-4" /> Add criterion
+          </button>
+          <button onClick={onClose} className="ml-auto px-4 py-2 rounded-xl text-sm font-bold text-white/60 hover:text-white transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={save}
+            disabled={!valid}
+            className="bg-white text-black hover:bg-rose-50 disabled:opacity-40 px-6 py-2 rounded-xl text-sm font-bold transition-all"
+          >
+            Save rubric
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RubricEditor;
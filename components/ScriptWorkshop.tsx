@@ -0,0 +1,260 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, ScrollText, Wand2, History, RotateCcw, Save, MessageSquareQuote } from 'lucide-react';
+import { AnalysisResult, HackathonData, ScriptVersion, ScriptVersionSource } from '../types';
+import { rewriteScript } from '../services/geminiService';
+import { describeAIError, toAIError, AIErrorMessage } from '../services/aiErrors';
+import { DEFAULT_WPM, addVersion, diffStats, diffWords, feedbackInstruction, plannedSeconds, readTimeSeconds, scriptHistory } from '../services/scriptWorkshop';
+import { formatTimestamp } from './MomentScrubber';
+
+interface Props {
+  hackathonData: HackathonData;
+  // Presenter's measured pace; null until a take has measured one
+  wpm: number | null;
+  // Verdict whose improvements and judge notes can be folded in
+  feedback?: AnalysisResult | null;
+  onSave: (script: string, history: ScriptVersion[]) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<ScriptVersionSource, string> = {
+  generated: 'Generated',
+  edited: 'Edited',
+  rewrite: 'Rewrite',
+  feedback: 'Feedback'
+};
+
+const DIFF_STYLES = {
+  same: 'text-white/60',
+  added: 'bg-emerald-500/20 text-emerald-200 rounded',
+  removed: 'bg-rose-500/20 text-rose-300 line-through rounded'
+};
+
+// Modal for iterating on the demo script: edit by hand, ask for targeted
+// rewrites, fold in a verdict's feedback, and compare any version with the
+// one before it (services/scriptWorkshop.ts).
+const ScriptWorkshop: React.FC<Props> = ({ hackathonData, wpm, feedback, onSave, onClose }) => {
+  const [history, setHistory] = useState<ScriptVersion[]>(() => scriptHistory(hackathonData));
+  const [draft, setDraft] = useState(() => hackathonData.strategy.generatedScript);
+  const [selectedId, setSelectedId] = useState(() => history[history.length - 1].id);
+  const [instruction, setInstruction] = useState('');
+  const [rewriting, setRewriting] = useState(false);
+  const [summary, setSummary] = useState('');
+  const [error, setError] = useState<AIErrorMessage | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Closing the workshop cancels a rewrite in flight
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const pace = wpm ?? DEFAULT_WPM;
+  const planned = plannedSeconds(hackathonData);
+  const readTime = readTimeSeconds(draft, pace);
+  const latest = history[history.length - 1];
+  const dirty = draft !== latest.script;
+  // Versions made here only reach the profile through "Use this script"
+  const openedAtId = useRef(latest.id);
+  const unsaved = dirty || latest.id !== openedAtId.current;
+
+  const close = () => {
+    if (!unsaved || window.confirm('Discard the edits and rewrites made in the workshop?')) onClose();
+  };
+
+  const selectedIndex = Math.max(0, history.findIndex(v => v.id === selectedId));
+  const selected = history[selectedIndex];
+  const diff = useMemo(
+    () => selectedIndex > 0 ? diffWords(history[selectedIndex - 1].script, selected.script) : null,
+    [history, selectedIndex, selected]
+  );
+  const stats = useMemo(
+    () => history.map((v, i) => i > 0 ? diffStats(diffWords(history[i - 1].script, v.script)) : null),
+    [history]
+  );
+
+  const commit = (next: ScriptVersion[]) => {
+    setHistory(next);
+    setSelectedId(next[next.length - 1].id);
+  };
+
+  const saveEdit = () => commit(addVersion(history, draft, 'edited', 'Edited in the workshop'));
+
+  const runRewrite = async (text: string, source: 'rewrite' | 'feedback') => {
+    if (!text.trim() || !draft.trim()) return;
+    // Hand edits become their own version so the rewrite's diff shows only its changes
+    const base = addVersion(history, draft, 'edited', 'Edited in the workshop');
+    commit(base);
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRewriting(true);
+    setError(null);
+    setSummary('');
+    try {
+      const rewrite = await rewriteScript(hackathonData, { script: draft, instruction: text, wpm: pace }, controller.signal);
+      const note = source === 'feedback' ? (rewrite.summary || 'Folded in verdict feedback') : text.trim();
+      commit(addVersion(base, rewrite.script, source, note));
+      setDraft(rewrite.script);
+      setSummary(rewrite.summary);
+      if (source === 'rewrite') setInstruction('');
+    } catch (e) {
+      if (toAIError(e).kind !== 'cancelled') setError(describeAIError(e));
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setRewriting(false);
+      }
+    }
+  };
+
+  const suggestions = [
+    'Tighten the intro to 20 seconds',
+    ...(planned > 0 && readTime > planned ? [`Cut it to fit ${formatTimestamp(planned)}`] : []),
+    ...hackathonData.judges.slice(0, 3).map(j => `Add a line for ${j.name}`)
+  ];
+  const feedbackCount = feedback ? feedback.improvements.length + feedback.judgeSpecificFeedback.length : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-6 font-sans">
+      <div className="bg-stone-900 text-white border border-white/10 rounded-3xl w-full max-w-6xl max-h-full overflow-y-auto p-8">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-serif flex items-center gap-2">
+            <ScrollText className="w-5 h-5 text-white/50" /> Script Workshop
+          </h2>
+          <button onClick={close} className="w-10 h-10 rounded-full bg-white/10 hover:bg-white/20 flex items-center justify-center transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
+          {/* Editor */}
+          <div className="lg:col-span-3 space-y-4">
+            <textarea
+              value={draft}
+              rows={16}
+              disabled={rewriting}
+              onChange={e => setDraft(e.target.value)}
+              className="w-full bg-white/5 border border-white/10 rounded-2xl px-4 py-3 text-sm leading-relaxed text-white/90 focus:outline-none focus:border-white/30 disabled:opacity-60"
+            />
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-white/50">
+              <span>
+                ~<span className={`font-mono ${planned > 0 && readTime > planned ? 'text-rose-300' : 'text-white'}`}>{formatTimestamp(Math.round(readTime))}</span> at {pace} wpm {wpm ? '(your pace)' : '(typical pace)'}
+              </span>
+              {planned > 0 && <span>Plan: <span className="font-mono text-white">{formatTimestamp(planned)}</span></span>}
+              {dirty && (
+                <button onClick={saveEdit} disabled={rewriting} className="ml-auto flex items-center gap-1 font-bold text-white/70 hover:text-white disabled:opacity-40 transition-colors">
+                  <Save className="w-3.5 h-3.5" /> Save as version
+                </button>
+              )}
+            </div>
+
+            <div className="bg-white/5 border border-white/10 rounded-2xl p-4 space-y-3">
+              <div className="flex gap-2">
+                <input
+                  value={instruction}
+                  onChange={e => setInstruction(e.target.value)}
+                  onKeyDown={e => { if (e.key === 'Enter' && !rewriting) runRewrite(instruction, 'rewrite'); }}
+                  placeholder='e.g. "Tighten the intro to 20 seconds"'
+                  className="flex-1 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white placeholder:text-white/30 focus:outline-none focus:border-white/30"
+                />
+                <button
+                  onClick={() => runRewrite(instruction, 'rewrite')}
+                  disabled={rewriting || !instruction.trim()}
+                  className="bg-white text-black hover:bg-stone-200 disabled:opacity-40 px-4 py-2 rounded-xl text-sm font-bold flex items-center gap-2 transition-colors"
+                >
+                  <Wand2 className={`w-4 h-4 ${rewriting ? 'animate-pulse' : ''}`} /> {rewriting ? 'Rewriting...' : 'Rewrite'}
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-1.5">
+                {suggestions.map(s => (
+                  <button
+                    key={s}
+                    onClick={() => setInstruction(s)}
+                    disabled={rewriting}
+                    className="px-3 py-1 rounded-full bg-white/10 hover:bg-white/20 text-xs text-white/70 disabled:opacity-40 transition-colors"
+                  >
+                    {s}
+                  </button>
+                ))}
+              </div>
+              {feedback && feedbackCount > 0 && (
+                <button
+                  onClick={() => runRewrite(feedbackInstruction(feedback), 'feedback')}
+                  disabled={rewriting}
+                  className="w-full flex items-center justify-center gap-2 bg-rose-500 hover:bg-rose-600 disabled:opacity-40 text-white px-4 py-2 rounded-xl text-sm font-bold transition-colors"
+                >
+                  <MessageSquareQuote className="w-4 h-4" /> Fold in feedback from this take ({feedbackCount} note{feedbackCount === 1 ? '' : 's'})
+                </button>
+              )}
+              {summary && <p className="text-xs text-emerald-300">{summary}</p>}
+              {error && <p className="text-xs text-rose-300">{error.title} {error.action} Your script is unchanged.</p>}
+            </div>
+          </div>
+
+          {/* History */}
+          <div className="lg:col-span-2 space-y-4">
+            <h3 className="text-xs font-bold uppercase tracking-wider text-white/50 flex items-center gap-2">
+              <History className="w-4 h-4" /> Versions
+            </h3>
+            <ul className="space-y-1 max-h-64 overflow-y-auto">
+              {history.map((v, i) => ({ v, i })).reverse().map(({ v, i }) => (
+                <li key={v.id}>
+                  <button
+                    onClick={() => setSelectedId(v.id)}
+                    className={`w-full text-left px-3 py-2 rounded-xl transition-colors ${v.id === selected.id ? 'bg-white/15' : 'hover:bg-white/5'}`}
+                  >
+                    <div className="flex items-center gap-2 text-xs">
+                      <span className="font-mono text-white/40">v{i + 1}</span>
+                      <span className="font-bold text-white/80">{SOURCE_LABELS[v.source]}</span>
+                      <span className="font-mono text-white/40">{formatTimestamp(Math.round(readTimeSeconds(v.script, pace)))}</span>
+                      {stats[i] && (
+                        <span className="ml-auto font-mono">
+                          <span className="text-emerald-300">+{stats[i]!.added}</span> <span className="text-rose-300">-{stats[i]!.removed}</span>
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-white/50 truncate mt-0.5" title={v.note}>{v.note}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="bg-white/5 border border-white/10 rounded-2xl p-4">
+              <div className="flex justify-between items-center mb-3">
+                <span className="text-xs font-bold uppercase tracking-wider text-white/50">
+                  {diff ? `Changes in v${selectedIndex + 1}` : `v${selectedIndex + 1}`}
+                </span>
+                {selected.script !== draft && (
+                  <button
+                    onClick={() => setDraft(selected.script)}
+                    disabled={rewriting}
+                    className="flex items-center gap-1 text-xs font-bold text-white/70 hover:text-white disabled:opacity-40 transition-colors"
+                  >
+                    <RotateCcw className="w-3.5 h-3.5" /> Restore
+                  </button>
+                )}
+              </div>
+              <p className="text-sm leading-relaxed whitespace-pre-wrap max-h-80 overflow-y-auto">
+                {diff
+                  ? diff.map((part, i) => <span key={i} className={DIFF_STYLES[part.op]}>{part.text}</span>)
+                  : <span className={DIFF_STYLES.same}>{selected.script}</span>}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-8">
+          <button onClick={close} className="px-4 py-2 rounded-xl text-sm font-bold text-white/60 hover:text-white transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(draft, addVersion(history, draft, 'edited', 'Edited in the workshop'))}
+            disabled={rewriting || !draft.trim()}
+            className="bg-white text-black hover:bg-rose-50 disabled:opacity-40 px-6 py-2 rounded-xl text-sm font-bold transition-all"
+          >
+            Use this script
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScriptWorkshop;
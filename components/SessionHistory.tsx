@@ -0,0 +1,194 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, History, Trash2, ChevronRight, Columns } from 'lucide-react';
+import { PracticeSession } from '../types';
+import { listSessions, deleteSession, hackathonKey } from '../services/sessionStore';
+
+interface Props {
+  // Event to preselect, usually the one currently being practiced
+  currentKey?: string;
+  onOpen: (session: PracticeSession) => void;
+  onCompare: (sessions: [PracticeSession, PracticeSession]) => void;
+  onBack: () => void;
+}
+
+interface TrendChartProps {
+  label: string;
+  values: (number | null)[];
+  color: string;
+  // Lower is better (e.g. filler words)
+  invert?: boolean;
+}
+
+const TrendChart: React.FC<TrendChartProps> = ({ label, values, color, invert }) => {
+  const points = values.map((v, i) => ({ v, i })).filter((p): p is { v: number; i: number } => p.v !== null);
+  const width = 280;
+  const height = 80;
+
+  const latest = points[points.length - 1]?.v;
+  const first = points[0]?.v;
+  const delta = latest !== undefined && first !== undefined ? latest - first : 0;
+  const improving = invert ? delta < 0 : delta > 0;
+
+  let path = '';
+  if (points.length > 0) {
+    const max = Math.max(...points.map(p => p.v), 1);
+    const min = Math.min(...points.map(p => p.v), 0);
+    const x = (i: number) => values.length > 1 ? (i / (values.length - 1)) * (width - 8) + 4 : width / 2;
+    const y = (v: number) => height - 4 - ((v - min) / (max - min || 1)) * (height - 8);
+    path = points.map((p, idx) => `${idx === 0 ? 'M' : 'L'}${x(p.i).toFixed(1)},${y(p.v).toFixed(1)}`).join(' ');
+  }
+
+  return (
+    <div className="bg-white rounded-3xl p-6 border border-stone-100 shadow-sm">
+      <div className="flex justify-between items-baseline mb-4">
+        <span className="text-stone-400 uppercase tracking-widest text-xs font-bold">{label}</span>
+        <div className="flex items-baseline gap-2">
+          <span className="text-3xl font-serif text-stone-900">{latest ?? '–'}</span>
+          {points.length > 1 && delta !== 0 && (
+            <span className={`text-xs font-bold ${improving ? 'text-emerald-600' : 'text-rose-500'}`}>
+              {delta > 0 ? '+' : ''}{delta}
+            </span>
+          )}
+        </div>
+      </div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-20">
+        {path && <path d={path} fill="none" stroke={color} strokeWidth={2.5} strokeLinecap="round" strokeLinejoin="round" />}
+      </svg>
+    </div>
+  );
+};
+
+const SessionHistory: React.FC<Props> = ({ currentKey, onOpen, onCompare, onBack }) => {
+  const [sessions, setSessions] = useState<PracticeSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedKey, setSelectedKey] = useState<string | undefined>(currentKey);
+  const [picked, setPicked] = useState<string[]>([]);
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(e => console.error("Failed to load sessions", e))
+      .finally(() => setLoading(false));
+  }, []);
+
+  // One entry per event, most recently practiced first
+  const events = useMemo(() => {
+    const byKey = new Map<string, { key: string; title: string; count: number; last: number }>();
+    for (const s of sessions) {
+      const key = hackathonKey(s.hackathon);
+      const entry = byKey.get(key) || { key, title: s.hackathon.title, count: 0, last: 0 };
+      entry.count++;
+      entry.last = Math.max(entry.last, s.createdAt);
+      byKey.set(key, entry);
+    }
+    return [...byKey.values()].sort((a, b) => b.last - a.last);
+  }, [sessions]);
+
+  const activeKey = selectedKey && events.some(e => e.key === selectedKey) ? selectedKey : events[0]?.key;
+  const attempts = sessions.filter(s => hackathonKey(s.hackathon) === activeKey);
+
+  // Up to two takes of the same event; picking a third drops the oldest pick
+  const togglePick = (id: string) => {
+    setPicked(prev => prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id].slice(-2));
+  };
+
+  const pickedSessions = attempts.filter(s => picked.includes(s.id));
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteSession(id);
+      setSessions(prev => prev.filter(s => s.id !== id));
+      setPicked(prev => prev.filter(p => p !== id));
+    } catch (e) {
+      console.error("Failed to delete session", e);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-stone-50 p-6 md:p-12 max-w-7xl mx-auto">
+      <header className="flex justify-between items-center mb-12">
+        <div>
+          <h1 className="text-4xl font-bold text-stone-900 font-serif mb-2">Practice History</h1>
+          <p className="text-stone-500">Every run-through, saved on this device.</p>
+        </div>
+        <button onClick={onBack} className="flex items-center gap-2 text-stone-500 hover:text-stone-900 transition-colors px-4 py-2 rounded-full hover:bg-white hover:shadow-sm">
+          <ArrowLeft className="w-4 h-4" />
+          <span className="font-medium">Back</span>
+        </button>
+      </header>
+
+      {loading ? (
+        <p className="text-stone-500 font-hand text-xl">Loading your sessions...</p>
+      ) : sessions.length === 0 ? (
+        <div className="bg-white rounded-3xl p-12 border border-stone-100 text-center">
+          <History className="w-10 h-10 text-stone-300 mx-auto mb-4" />
+          <p className="text-stone-500 font-hand text-xl">No practice runs yet. Record one and it will show up here.</p>
+        </div>
+      ) : (
+        <div className="space-y-8">
+          {events.length > 1 && (
+            <div className="flex flex-wrap gap-2">
+              {events.map(e => (
+                <button
+                  key={e.key}
+                  onClick={() => { setSelectedKey(e.key); setPicked([]); }}
+                  className={`px-4 py-2 rounded-full text-sm font-medium transition-colors ${e.key === activeKey ? 'bg-stone-900 text-white' : 'bg-white text-stone-600 border border-stone-200 hover:border-stone-400'}`}
+                >
+                  {e.title} <span className="opacity-60">({e.count})</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <TrendChart label="Overall Score" values={attempts.map(s => s.result?.overallScore ?? null)} color="#fb7185" />
+            <TrendChart label="WPM" values={attempts.map(s => s.metrics?.wpm ?? null)} color="#78716c" />
+            <TrendChart label="Filler Words" values={attempts.map(s => s.metrics?.fillerWords ?? null)} color="#f59e0b" invert />
+          </div>
+
+          <div className="flex justify-between items-center">
+            <p className="text-sm text-stone-400">Pick two analyzed takes to compare them side by side.</p>
+            <button
+              onClick={() => pickedSessions.length === 2 && onCompare([pickedSessions[0], pickedSessions[1]])}
+              disabled={pickedSessions.length !== 2}
+              className="flex items-center gap-2 bg-stone-900 text-white px-5 py-2 rounded-full text-sm font-bold disabled:opacity-30 transition-opacity"
+            >
+              <Columns className="w-4 h-4" /> Compare
+            </button>
+          </div>
+
+          <div className="bg-white rounded-3xl border border-stone-100 shadow-sm divide-y divide-stone-100">
+            {[...attempts].reverse().map((s, i) => (
+              <div key={s.id} className="flex items-center gap-6 p-5 group">
+                <input
+                  type="checkbox"
+                  checked={picked.includes(s.id)}
+                  disabled={!s.result}
+                  onChange={() => togglePick(s.id)}
+                  className="w-4 h-4 accent-rose-500 disabled:opacity-30"
+                  title={s.result ? 'Select for comparison' : 'Not analyzed yet'}
+                />
+                <span className="bg-stone-100 text-stone-500 font-bold px-2 py-1 rounded text-xs">#{attempts.length - i}</span>
+                <div className="flex-1">
+                  <div className="text-stone-900 font-medium">{new Date(s.createdAt).toLocaleString()}</div>
+                  <div className="text-xs text-stone-400">
+                    {s.metrics ? `${s.metrics.wpm} wpm · ${s.metrics.fillerWords} fillers · ${s.metrics.duration}s` : 'No delivery metrics'}
+                  </div>
+                </div>
+                <span className="text-2xl font-serif text-stone-900 w-16 text-right">{s.result ? s.result.overallScore : '–'}</span>
+                <button onClick={() => handleDelete(s.id)} className="text-stone-300 hover:text-rose-500 transition-colors p-2" title="Delete">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+                <button onClick={() => onOpen(s)} className="flex items-center gap-1 text-stone-500 hover:text-stone-900 text-sm font-medium">
+                  Open <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionHistory;
@@ -1,26 +1,82 @@
-import React, { useRef, useState, useEffect, useCallback } from 'react';
-import { Search, Mic, ArrowRight, Play, Pause, RefreshCw, Zap, CheckCircle, Terminal, Users, Sparkles, StopCircle, Square } from 'lucide-react';
-import { HackathonData } from '../types';
-import { analyzeHackathonUrl, getRealTimeFeedback, analyzeVideoDemo } from '../services/geminiService';
+import React, { useRef, useState, useEffect, useCallback, useMemo } from 'react';
+import { Search, Mic, ArrowRight, Play, Pause, RefreshCw, Zap, CheckCircle, Terminal, Users, Sparkles, StopCircle, Square, Eye, History, Flame, ThumbsUp, AlertTriangle, ScrollText, Timer, SkipForward, Scale, Pencil, FileText, Paperclip, X, Upload, Volume2, VolumeX, Handshake } from 'lucide-react';
+import { HackathonData, RecordingMetrics, PracticeSession, SourceFile, GroundingSource, CaptureLayout, TranscriptLine, AnalysisResult, DemoFormat, TurnSource } from '../types';
+import { analyzeHackathon, getRealTimeFeedback, analyzeVideoDemo } from '../services/geminiService';
+import { describeAIError, toAIError, AIErrorMessage } from '../services/aiErrors';
+import { AnalysisProgressEvent } from '../services/analysisProgress';
+import { createSpeechMetricsEngine } from '../services/speechMetrics';
+import { speak, createSpeechRecognition, pickPersonaVoices } from '../services/speech';
+import { createJudgePanel, JudgePanel, JudgeReaction } from '../services/judgeReactions';
+import { parseScript, initialAlignment, advance, currentSentenceIndex, skippedSentenceIndexes, summarizeCoverage, AlignmentState } from '../services/scriptAligner';
+import { createAudioLevelMeter, AudioLevelMeter } from '../services/audioLevel';
+import { createGazeTracker, LiveAttention, GAZE_LABELS } from '../services/gazeTracker';
+import { createFaceSampler, isFaceDetectionSupported, FaceSampler } from '../services/faceSampler';
+import { saveSession, updateSession, hackathonKey, listSessions } from '../services/sessionStore';
+import { newId } from '../services/ids';
+import { presenterWpm } from '../services/scriptWorkshop';
 import AnalysisResults from './AnalysisResults';
+import SessionHistory from './SessionHistory';
+import TakeComparison from './TakeComparison';
+import { parseStructure, totalPlanned, createSegmentTracker, SegmentStatus } from '../services/segmentPacing';
+import Teleprompter from './Teleprompter';
+import RubricEditor from './RubricEditor';
+import HackathonAnalyzer from './HackathonAnalyzer';
+import ProvenanceBadge from './ProvenanceBadge';
+import { attachedBytes, readSourceFile, SOURCE_FILE_ACCEPT } from '../services/sourceFiles';
+import { parsePrepPackage } from '../services/prepPackage';
+import { pickRecordingMimeType } from '../services/media';
+import { ScreenCompositor } from '../services/screenCapture';
+import { createCoachScheduler, CoachScheduler, CoachTip, CoachTick } from '../services/liveCoach';
+import DemoStudio from './DemoStudio';
+import { activeTeam, createSpeakerTracker, labelTranscript, nextSegmentFor, plannedNextPresenter, presenterFor, summarizeTeam, SpeakerTracker } from '../services/teamMode';
+import ScriptWorkshop from './ScriptWorkshop';
+import FormatPicker from './FormatPicker';
+import { DEFAULT_FORMAT, formatOf, warningSeconds } from '../services/demoFormat';
 
 interface Log {
     msg: string;
-    type: 'info' | 'success' | 'process';
+    type: 'info' | 'success' | 'process' | 'source';
+    source?: GroundingSource;
 }
 
 const SmartMirror: React.FC = () => {
     // --- State ---
     const [url, setUrl] = useState('');
+    const [showContext, setShowContext] = useState(false);
+    const [eventText, setEventText] = useState('');
+    const [sourceFiles, setSourceFiles] = useState<SourceFile[]>([]);
+    const [projectDescription, setProjectDescription] = useState('');
+    const [format, setFormat] = useState<DemoFormat>(DEFAULT_FORMAT);
+    const [sourceError, setSourceError] = useState('');
+    const [importError, setImportError] = useState('');
+    const [analyzeError, setAnalyzeError] = useState<AIErrorMessage | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [logs, setLogs] = useState<Log[]>([]);
     const [hackathonData, setHackathonData] = useState<HackathonData | null>(null);
     const [isRecording, setIsRecording] = useState(false);
     const [recordingTime, setRecordingTime] = useState(0);
+    const [autoStop, setAutoStop] = useState(true);
     const [wpm, setWpm] = useState(0);
+    const [fillerCount, setFillerCount] = useState(0);
+    const [attention, setAttention] = useState<LiveAttention | null>(null);
+    const [hotSeat, setHotSeat] = useState(false);
+    const [rubricOpen, setRubricOpen] = useState(false);
+    const [judgeReactions, setJudgeReactions] = useState<Record<string, JudgeReaction>>({});
+    const [followScript, setFollowScript] = useState(true);
+    const [prompter, setPrompter] = useState<{ current: number; skipped: number[] }>({ current: -1, skipped: [] });
+    const [segmentStatus, setSegmentStatus] = useState<SegmentStatus | null>(null);
     const [coachFeedback, setCoachFeedback] = useState("Ready when you are...");
-    const [recordedBlob, setRecordedBlob] = useState<Blob | null>(null);
-    const [view, setView] = useState<'input' | 'coach' | 'results'>('input');
+    const [silentCoach, setSilentCoach] = useState(false);
+    // Team takes: index of the presenter holding the floor
+    const [speaker, setSpeaker] = useState(0);
+    const [autoHandoff, setAutoHandoff] = useState(true);
+    const [activeSession, setActiveSession] = useState<PracticeSession | null>(null);
+    const [comparedSessions, setComparedSessions] = useState<[PracticeSession, PracticeSession] | null>(null);
+    // Verdict being folded into the script from the results page
+    const [workshopFeedback, setWorkshopFeedback] = useState<AnalysisResult | null>(null);
+    const [workshopWpm, setWorkshopWpm] = useState<number | null>(null);
+    const [view, setView] = useState<'input' | 'profile' | 'coach' | 'results' | 'history' | 'compare'>('input');
+    const [screenCapture, setScreenCapture] = useState<ScreenCompositor | null>(null);
 
     // --- Refs ---
     const videoRef = useRef<HTMLVideoElement>(null);
@@ -28,8 +84,26 @@ const SmartMirror: React.FC = () => {
     const mediaRecorderRef = useRef<MediaRecorder | null>(null);
     const chunksRef = useRef<Blob[]>([]);
     const recognitionRef = useRef<any>(null);
-    const lastTranscriptTimeRef = useRef<number>(Date.now());
-    const wordCountRef = useRef<number>(0);
+    const recordingStartedAtRef = useRef(0);
+    const transcriptRef = useRef<TranscriptLine[]>([]);
+    // When the utterance being recognised started (first interim result)
+    const utteranceStartRef = useRef<number | null>(null);
+    // Created with the judges' focus areas once the profile is known (Live Coach below)
+    const coachRef = useRef<CoachScheduler | null>(null);
+    const coachAbortRef = useRef<AbortController | null>(null);
+    const silentCoachRef = useRef(false);
+    const analyzeAbortRef = useRef<AbortController | null>(null);
+    // One engine for the component's lifetime; useState runs the factory once
+    const [metricsEngine] = useState(createSpeechMetricsEngine);
+    const audioMeterRef = useRef<AudioLevelMeter | null>(null);
+    const finishedMetricsRef = useRef<RecordingMetrics | null>(null);
+    const [gazeTracker] = useState(createGazeTracker);
+    const faceSamplerRef = useRef<FaceSampler | null>(null);
+    const judgePanelRef = useRef<JudgePanel | null>(null);
+    const hotSeatRef = useRef(false);
+    const alignmentRef = useRef<AlignmentState | null>(null);
+    const captureLayoutRef = useRef<CaptureLayout | null>(null);
+    const speakerTrackerRef = useRef<SpeakerTracker | null>(null);
 
     // --- Initialization: Camera ---
     useEffect(() => {
@@ -47,128 +121,407 @@ const SmartMirror: React.FC = () => {
         initCamera();
         return () => {
             streamRef.current?.getTracks().forEach(t => t.stop());
+            audioMeterRef.current?.stop();
+            faceSamplerRef.current?.stop();
         };
     }, []);
 
+    // The <video> remounts when coming back from results/history
+    useEffect(() => {
+        if (videoRef.current && streamRef.current && videoRef.current.srcObject !== streamRef.current) {
+            videoRef.current.srcObject = streamRef.current;
+        }
+    }, [view]);
+
     // --- Workflow Visualization ---
-    const addLog = (msg: string, type: Log['type'] = 'info') => {
-        setLogs(prev => [...prev, { msg, type }]);
+    const addLog = (msg: string, type: Log['type'] = 'info', source?: GroundingSource) => {
+        setLogs(prev => [...prev, { msg, type, source }]);
     };
 
-    const simulateWorkflow = () => {
-        const steps = [
-            { msg: "Connecting to Gemini 2.5 Flash...", delay: 500 },
-            { msg: "Scraping hackathon URL for details...", delay: 1500 },
-            { msg: "Identifying judging panel...", delay: 3000 },
-            { msg: "Searching LinkedIn for judge backgrounds...", delay: 4500 },
-            { msg: "Analyzing judge values & red flags...", delay: 6000 },
-            { msg: "Generating demo script & strategy...", delay: 8000 },
-        ];
-        
-        steps.forEach(step => {
-            setTimeout(() => {
-                if (isLoading) addLog(step.msg, 'process');
-            }, step.delay);
-        });
+    // Progress inferred from the streamed analysis, see services/analysisProgress.ts
+    const handleProgress = (event: AnalysisProgressEvent) => {
+        if (event.source) addLog(event.message, 'source', event.source);
+        else if (event.stage === 'done') addLog(event.message, 'success');
+        else if (event.stage === 'retrying') addLog(event.message, 'info');
+        else addLog(event.message, 'process');
     };
 
+    // Text files land in the matching textarea so they can be trimmed; PDFs are attached as-is
+    const handleSourceFiles = async (files: FileList | null, target: 'event' | 'project') => {
+        if (!files) return;
+        setSourceError('');
+        let attached = attachedBytes(sourceFiles);
+        for (const file of Array.from(files)) {
+            try {
+                const read = await readSourceFile(file, attached);
+                if (read.kind === 'document') {
+                    attached += file.size;
+                    setSourceFiles(prev => [...prev, read.file]);
+                } else {
+                    const append = (prev: string) => prev.trim() ? `${prev}\n\n${read.text}` : read.text;
+                    if (target === 'event') setEventText(append);
+                    else setProjectDescription(append);
+                }
+            } catch (e) {
+                setSourceError(e instanceof Error ? e.message : `Couldn't read ${file.name}`);
+            }
+        }
+    };
+
+    // Loads a teammate's prep package: their profile goes to review, their takes into history
+    const handleImportPackage = async (file: File | undefined) => {
+        if (!file) return;
+        setImportError('');
+        try {
+            const imported = parsePrepPackage(await file.text());
+            await Promise.all(imported.sessions.map(saveSession));
+            setHackathonData(imported.hackathon);
+            setView('profile');
+        } catch (e) {
+            console.error("Import failed", e);
+            setImportError(e instanceof Error ? e.message : "Couldn't import that file");
+        }
+    };
+
+    const hasEventSource = url.trim() !== '' || eventText.trim() !== '' || sourceFiles.length > 0;
+
     const handleAnalyze = async () => {
-        if (!url) return;
+        if (!hasEventSource) return;
+        const controller = new AbortController();
+        analyzeAbortRef.current = controller;
         setIsLoading(true);
+        setAnalyzeError(null);
         setLogs([]);
-        simulateWorkflow();
 
         try {
-            const data = await analyzeHackathonUrl(url);
-            addLog("Analysis Complete!", 'success');
+            const data = await analyzeHackathon(
+                { url, eventText, files: sourceFiles, projectDescription, format },
+                { signal: controller.signal, onProgress: handleProgress }
+            );
             setTimeout(() => {
                 setHackathonData(data);
-                setView('coach');
+                setView('profile');
                 setIsLoading(false);
             }, 1000);
         } catch (e) {
-            console.error(e);
-            addLog("Error analyzing URL. Trying generic fallback...", 'info');
+            // A cancel just returns to the input; anything else says what went wrong
+            if (toAIError(e).kind !== 'cancelled') setAnalyzeError(describeAIError(e));
             setIsLoading(false);
+        } finally {
+            if (analyzeAbortRef.current === controller) analyzeAbortRef.current = null;
         }
     };
 
+    const cancelAnalyze = () => analyzeAbortRef.current?.abort();
+
     // --- Jarvis Voice ---
+    useEffect(() => {
+        silentCoachRef.current = silentCoach;
+    }, [silentCoach]);
+
     const speakFeedback = useCallback((text: string) => {
-        const synth = window.speechSynthesis;
-        synth.cancel();
-        const utterance = new SpeechSynthesisUtterance(text);
-        const voices = synth.getVoices();
-        const googleVoice = voices.find(v => v.name.includes('Google US English')) || voices[0];
-        if (googleVoice) utterance.voice = googleVoice;
-        utterance.rate = 1.05;
-        synth.speak(utterance);
+        // Silent mode only shows tips; and never talk over a judge or an earlier tip
+        if (silentCoachRef.current || window.speechSynthesis?.speaking) return;
+        speak(text, { voiceName: 'Google US English', rate: 1.05, interrupt: false });
     }, []);
 
-    // --- Speech Analysis Logic ---
+    // --- Time Limit: the event format's demo length (services/demoFormat.ts) ---
+    const takeFormat = formatOf(hackathonData);
+    const timeLeft = takeFormat.demoSeconds - recordingTime;
+
+    const faceDetectionSupported = useMemo(isFaceDetectionSupported, []);
+
+    // --- Segment Pacing: planned structure vs. the clock ---
+    const plannedSegments = useMemo(() => parseStructure(hackathonData?.strategy?.structure || []), [hackathonData]);
+    const segmentTrackerRef = useRef(createSegmentTracker(plannedSegments));
+    useEffect(() => {
+        segmentTrackerRef.current = createSegmentTracker(plannedSegments);
+        setSegmentStatus(null);
+    }, [plannedSegments]);
+
+    const nextSegment = () => {
+        segmentTrackerRef.current.next(Date.now());
+        setSegmentStatus(segmentTrackerRef.current.status(Date.now()));
+    };
+
+    // --- Team Mode: who holds the floor (services/teamMode.ts) ---
+    const team = useMemo(() => activeTeam(hackathonData), [hackathonData]);
+
+    useEffect(() => {
+        speakerTrackerRef.current?.setAutoDetect(autoHandoff);
+    }, [autoHandoff]);
+
+    // A tapped hand-off to whoever owns a later segment means that segment has
+    // started. A detected voice change only updates the speaker: a misheard
+    // voice must not skip the plan ahead.
+    const applyHandoff = (to: number, now: number, source: TurnSource) => {
+        setSpeaker(to);
+        if (!team || source !== 'manual') return;
+        const status = segmentTrackerRef.current.status(now);
+        if (!status) return;
+        const next = nextSegmentFor(team, to, status.actualIndex);
+        if (next !== null && next > status.actualIndex) segmentTrackerRef.current.advanceTo(next, now);
+        setSegmentStatus(segmentTrackerRef.current.status(now));
+    };
+    const applyHandoffRef = useRef(applyHandoff);
+    applyHandoffRef.current = applyHandoff;
+
+    const handOff = (to: number) => {
+        const now = Date.now();
+        if (speakerTrackerRef.current?.handOff(to, now)) applyHandoffRef.current(to, now, 'manual');
+    };
+
+    // Number keys hand off without reaching for the mouse
+    useEffect(() => {
+        if (!isRecording || !team) return;
+        const onKey = (e: KeyboardEvent) => {
+            if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+            const index = Number(e.key) - 1;
+            if (Number.isInteger(index) && index >= 0 && index < team.length) handOff(index);
+        };
+        window.addEventListener('keydown', onKey);
+        return () => window.removeEventListener('keydown', onKey);
+    }, [isRecording, team]);
+
+    const upNext = team && segmentStatus ? plannedNextPresenter(team, speaker, segmentStatus.actualIndex, plannedSegments.length) : null;
+
+    // --- Teleprompter: follow the script as it's spoken ---
+    const parsedScript = useMemo(() => parseScript(hackathonData?.strategy?.generatedScript || ''), [hackathonData]);
+    const parsedScriptRef = useRef(parsedScript);
     useEffect(() => {
-        if ('webkitSpeechRecognition' in window || 'SpeechRecognition' in window) {
-            const SpeechRecognition = (window as any).webkitSpeechRecognition || (window as any).SpeechRecognition;
-            const recognition = new SpeechRecognition();
-            recognition.continuous = true;
-            recognition.interimResults = true;
-            recognition.lang = 'en-US';
+        parsedScriptRef.current = parsedScript;
+        alignmentRef.current = initialAlignment(parsedScript);
+        setPrompter({ current: -1, skipped: [] });
+    }, [parsedScript]);
 
+    // Finals move the committed position; interim text only previews it
+    const alignTranscript = (finalText: string, interimText: string) => {
+        const script = parsedScriptRef.current;
+        if (!alignmentRef.current || script.words.length === 0) return;
+        if (finalText) alignmentRef.current = advance(script, alignmentRef.current, finalText);
+        const preview = interimText ? advance(script, alignmentRef.current, interimText) : alignmentRef.current;
+        setPrompter({
+            current: currentSentenceIndex(script, preview),
+            skipped: skippedSentenceIndexes(script, alignmentRef.current)
+        });
+
+        // Script progress doubles as segment progress, assuming an even pace through the plan.
+        // Only committed text counts: an interim guess that gets revised can't be un-advanced.
+        if (finalText && plannedSegments.length > 0) {
+            const plannedAt = (alignmentRef.current.cursor / script.words.length) * totalPlanned(plannedSegments);
+            const index = plannedSegments.findIndex(s => plannedAt < s.end);
+            if (index > 0) segmentTrackerRef.current.advanceTo(index, Date.now());
+        }
+    };
+    const alignTranscriptRef = useRef(alignTranscript);
+    alignTranscriptRef.current = alignTranscript;
+
+    // --- Hot Seat: judges react to the transcript ---
+    // Only the judges on screen react, so every objection has a face
+    const hotSeatJudges = useMemo(() => hackathonData?.judges.slice(0, 3) ?? [], [hackathonData]);
+
+    useEffect(() => {
+        judgePanelRef.current = hotSeatJudges.length > 0 ? createJudgePanel(hotSeatJudges) : null;
+    }, [hotSeatJudges]);
+
+    useEffect(() => {
+        hotSeatRef.current = hotSeat;
+    }, [hotSeat]);
+
+    const handleJudgeReactions = useCallback((reactions: JudgeReaction[]) => {
+        if (reactions.length === 0) return;
+        const voices = pickPersonaVoices(hotSeatJudges.length);
+        reactions.forEach(reaction => {
+            setJudgeReactions(prev => ({ ...prev, [reaction.judgeName]: reaction }));
+            // Reactions fade after a few seconds unless replaced by a newer one
+            setTimeout(() => {
+                setJudgeReactions(prev => {
+                    if (prev[reaction.judgeName] !== reaction) return prev;
+                    const { [reaction.judgeName]: _, ...rest } = prev;
+                    return rest;
+                });
+            }, 5000);
+
+            if (reaction.kind === 'objection') {
+                const index = hotSeatJudges.findIndex(j => j.name === reaction.judgeName);
+                const persona = voices[Math.max(index, 0)];
+                // Queued, so objections that fire together are all heard
+                speak(reaction.line, { voice: persona?.voice, pitch: persona?.pitch, rate: persona?.rate, interrupt: false });
+                setCoachFeedback(`${reaction.judgeName}: ${reaction.line}`);
+            }
+        });
+    }, [hotSeatJudges]);
+
+    const handleJudgeReactionsRef = useRef(handleJudgeReactions);
+    useEffect(() => {
+        handleJudgeReactionsRef.current = handleJudgeReactions;
+    }, [handleJudgeReactions]);
+
+    // --- Speech Analysis Logic ---
+    useEffect(() => {
+        const recognition = createSpeechRecognition();
+        if (recognition) {
             recognition.onresult = (event: any) => {
+                const now = Date.now();
                 let interimTranscript = '';
                 let finalTranscript = '';
 
                 for (let i = event.resultIndex; i < event.results.length; ++i) {
                     if (event.results[i].isFinal) {
                         finalTranscript += event.results[i][0].transcript;
+                        const text = event.results[i][0].transcript.trim();
+                        if (text) {
+                            const startedAt = recordingStartedAtRef.current;
+                            transcriptRef.current.push({
+                                start: Math.max(0, ((utteranceStartRef.current ?? now) - startedAt) / 1000),
+                                end: (now - startedAt) / 1000,
+                                text
+                            });
+                        }
+                        utteranceStartRef.current = null;
+                        metricsEngine.pushTranscript({ text: event.results[i][0].transcript, isFinal: true, timestamp: now });
+                        coachRef.current?.pushTranscript(event.results[i][0].transcript);
+                        if (hotSeatRef.current && judgePanelRef.current) {
+                            handleJudgeReactionsRef.current(judgePanelRef.current.pushTranscript(event.results[i][0].transcript, now));
+                        }
                     } else {
                         interimTranscript += event.results[i][0].transcript;
+                        if (utteranceStartRef.current === null) utteranceStartRef.current = now;
                     }
                 }
+                if (interimTranscript) metricsEngine.pushTranscript({ text: interimTranscript, isFinal: false, timestamp: now });
+                alignTranscriptRef.current(finalTranscript, interimTranscript);
 
-                const fullText = (finalTranscript + interimTranscript).toLowerCase();
-                const now = Date.now();
-                const words = fullText.trim().split(/\s+/).length;
-                const minutes = (now - lastTranscriptTimeRef.current) / 60000;
-
-                if (minutes > 0.08) {
-                    const currentWPM = Math.round((words - wordCountRef.current) / minutes);
-                    setWpm(currentWPM > 0 ? currentWPM : 0);
-                    wordCountRef.current = words;
-                    lastTranscriptTimeRef.current = now;
-
-                    if (currentWPM > 0) {
-                         // Debounced feedback request
-                         getRealTimeFeedback(fullText.slice(-100), currentWPM).then(fb => {
-                             setCoachFeedback(fb);
-                             speakFeedback(fb);
-                         });
-                    }
-                }
+                const live = metricsEngine.snapshot(now);
+                setWpm(live.rollingWpm);
+                setFillerCount(live.fillerWords);
             };
             recognitionRef.current = recognition;
         }
-    }, [speakFeedback]);
+    }, []);
+
+    // --- Live Coach: local rules first, rate-limited model tips (services/liveCoach.ts) ---
+    useEffect(() => {
+        const focusAreas = [...new Set<string>(hackathonData?.judges.flatMap(j => j.focusAreas) ?? [])];
+        coachRef.current = createCoachScheduler(focusAreas);
+    }, [hackathonData]);
+
+    const deliverTip = (tip: CoachTip) => {
+        setCoachFeedback(tip.text);
+        speakFeedback(tip.text);
+    };
+
+    const runCoach = (now: number) => {
+        const coach = coachRef.current;
+        if (!coach) return;
+        const segment = segmentTrackerRef.current.status(now);
+        const tick: CoachTick = {
+            now,
+            live: metricsEngine.snapshot(now),
+            segment,
+            segmentAction: segment ? plannedSegments[segment.actualIndex].action : null,
+            overtime: (now - recordingStartedAtRef.current) / 1000 - (plannedSegments.length > 0 ? totalPlanned(plannedSegments) : takeFormat.demoSeconds)
+        };
+
+        const ruleTip = coach.tick(tick);
+        if (ruleTip) return deliverTip(ruleTip);
+
+        const request = coach.requestModelTip(tick);
+        if (!request) return;
+        const controller = new AbortController();
+        coachAbortRef.current = controller;
+        getRealTimeFeedback(request.context, controller.signal).then(text => {
+            // Late, superseded and repeated answers come back null
+            const tip = coach.acceptModelTip(request.id, text, Date.now());
+            if (tip) deliverTip(tip);
+        }).catch(e => {
+            coach.abandonModelTip(request.id);
+            // A missed tip is fine; a dead key or exhausted quota is worth saying once
+            const kind = toAIError(e).kind;
+            if (kind === 'auth' || kind === 'quota') {
+                coach.pauseModelTips(Date.now() + 60000);
+                setCoachFeedback(`Live tips paused. ${describeAIError(e).title}`);
+            }
+        });
+    };
+    const runCoachRef = useRef(runCoach);
+    runCoachRef.current = runCoach;
 
 
     const startRecording = () => {
         if (!streamRef.current) return;
         chunksRef.current = [];
-        const mediaRecorder = new MediaRecorder(streamRef.current, { mimeType: 'video/webm;codecs=vp9' });
+        // Whatever this browser can record; the blob keeps the real type for analysis
+        const mimeType = pickRecordingMimeType();
+        // Screen-share mode records the composited canvas (with the same microphone)
+        captureLayoutRef.current = screenCapture?.layout ?? null;
+        const mediaRecorder = new MediaRecorder(screenCapture?.stream ?? streamRef.current, mimeType ? { mimeType } : undefined);
         
         mediaRecorder.ondataavailable = (e) => {
             if (e.data.size > 0) chunksRef.current.push(e.data);
         };
         
         mediaRecorder.onstop = () => {
-            const blob = new Blob(chunksRef.current, { type: 'video/webm' });
-            setRecordedBlob(blob);
+            const blob = new Blob(chunksRef.current, { type: mediaRecorder.mimeType || mimeType || 'video/webm' });
+            if (!hackathonData) return;
+            const session: PracticeSession = {
+                id: newId(),
+                createdAt: Date.now(),
+                hackathon: hackathonData,
+                videoBlob: blob,
+                metrics: finishedMetricsRef.current,
+                transcript: transcriptRef.current,
+                result: null
+            };
+            saveSession(session).catch(e => console.error("Failed to save session", e));
+            setActiveSession(session);
             setView('results');
         };
 
         mediaRecorderRef.current = mediaRecorder;
         mediaRecorder.start();
         setIsRecording(true);
+
+        metricsEngine.start(Date.now());
+        // Team takes open with whoever owns the first segment
+        const tracker = team ? createSpeakerTracker(team, plannedSegments.length) : null;
+        speakerTrackerRef.current = tracker;
+        if (tracker) {
+            const first = presenterFor(team!, 0) ?? 0;
+            tracker.start(Date.now(), first);
+            tracker.setAutoDetect(autoHandoff);
+            setSpeaker(first);
+        }
+        audioMeterRef.current = createAudioLevelMeter(streamRef.current, (rms, timestamp, pitch) => {
+            metricsEngine.pushAudioLevel(rms, timestamp);
+            const to = tracker?.pushPitch(pitch, timestamp, segmentTrackerRef.current.status(timestamp)?.actualIndex ?? 0);
+            if (to !== undefined && to !== null) applyHandoffRef.current(to, timestamp, 'voice');
+        }, { pitch: tracker !== null });
+        recordingStartedAtRef.current = Date.now();
+        transcriptRef.current = [];
+        utteranceStartRef.current = null;
+        coachRef.current?.start(Date.now());
+        setWpm(0);
+        setFillerCount(0);
+        finishedMetricsRef.current = null;
+        setAttention(null);
+        judgePanelRef.current?.reset();
+        setJudgeReactions({});
+        alignmentRef.current = initialAlignment(parsedScript);
+        setPrompter({ current: 0, skipped: [] });
+        segmentTrackerRef.current.start(Date.now());
+        setSegmentStatus(segmentTrackerRef.current.status(Date.now()));
+
+        // Attention tracking piggybacks on the mirror's own video element. Skipped
+        // when sharing the screen: the presenter is meant to be looking at the product.
+        if (videoRef.current && !screenCapture && faceDetectionSupported) {
+            gazeTracker.start(Date.now());
+            faceSamplerRef.current = createFaceSampler(videoRef.current, (obs, timestamp) => {
+                gazeTracker.pushObservation(obs, timestamp);
+                setAttention(gazeTracker.snapshot());
+            });
+        }
+
         recognitionRef.current?.start();
         setRecordingTime(0);
     };
@@ -178,19 +531,86 @@ const SmartMirror: React.FC = () => {
             mediaRecorderRef.current.stop();
             setIsRecording(false);
             recognitionRef.current?.stop();
+            coachAbortRef.current?.abort();
+            coachAbortRef.current = null;
             window.speechSynthesis.cancel();
+            audioMeterRef.current?.stop();
+            audioMeterRef.current = null;
+
+            const now = Date.now();
+            const metrics = metricsEngine.finish(now);
+            if (faceSamplerRef.current) {
+                faceSamplerRef.current.stop();
+                faceSamplerRef.current = null;
+                const summary = gazeTracker.finish(now);
+                metrics.eyeContact = summary.eyeContact;
+                metrics.attention = summary;
+            }
+            if (alignmentRef.current && parsedScript.words.length > 0) {
+                metrics.scriptCoverage = summarizeCoverage(parsedScript, alignmentRef.current);
+            }
+            if (plannedSegments.length > 0) {
+                metrics.segments = segmentTrackerRef.current.finish(now);
+            }
+            if (captureLayoutRef.current) {
+                metrics.capture = captureLayoutRef.current;
+            }
+            if (speakerTrackerRef.current && team) {
+                const turns = speakerTrackerRef.current.finish(now);
+                transcriptRef.current = labelTranscript(transcriptRef.current, turns);
+                metrics.team = summarizeTeam(team, turns, transcriptRef.current, metrics.segments, hackathonData?.strategy.keyPhrases);
+                speakerTrackerRef.current = null;
+            }
+            finishedMetricsRef.current = metrics;
         }
     };
 
+    // Ending the screen share mid-take ends the take rather than recording a frozen frame
+    const handleCaptureChange = (capture: ScreenCompositor | null) => {
+        if (!capture && isRecording && captureLayoutRef.current) stopRecording();
+        setScreenCapture(capture);
+    };
+
     // Timer
     useEffect(() => {
         let interval: any;
         if (isRecording) {
-            interval = setInterval(() => setRecordingTime(t => t + 1), 1000);
+            interval = setInterval(() => {
+                setRecordingTime(t => t + 1);
+                // Keep the pace readout honest during silences
+                setWpm(metricsEngine.snapshot(Date.now()).rollingWpm);
+                setSegmentStatus(segmentTrackerRef.current.status(Date.now()));
+                runCoachRef.current(Date.now());
+            }, 1000);
         }
         return () => clearInterval(interval);
     }, [isRecording]);
 
+    // Judges cut you off at the limit, so the recorder does too. Timed from the
+    // wall-clock start rather than the 1s ticks, which run late.
+    const stopRecordingRef = useRef(stopRecording);
+    stopRecordingRef.current = stopRecording;
+
+    useEffect(() => {
+        if (!isRecording || !autoStop) return;
+        const remaining = recordingStartedAtRef.current + takeFormat.demoSeconds * 1000 - Date.now();
+        const timer = setTimeout(() => stopRecordingRef.current(), Math.max(0, remaining));
+        return () => clearTimeout(timer);
+    }, [isRecording, autoStop, takeFormat.demoSeconds]);
+
+    // Read times use the presenter's pace over recent takes of this event, not just the one on screen
+    const openWorkshop = async (feedback: AnalysisResult) => {
+        const key = hackathonData ? hackathonKey(hackathonData) : null;
+        const wpm = await listSessions()
+            .then(sessions => presenterWpm(sessions.filter(s => hackathonKey(s.hackathon) === key)))
+            .catch(e => {
+                console.error("Couldn't read past takes", e);
+                return null;
+            });
+        setWorkshopWpm(wpm);
+        setWorkshopFeedback(feedback);
+    };
+
     const formatTime = (seconds: number) => {
         const mins = Math.floor(seconds / 60);
         const secs = seconds % 60;
@@ -199,12 +619,73 @@ const SmartMirror: React.FC = () => {
 
     // --- Render ---
 
+    // 0. Profile Review (corrects judges, rubric and script before practicing)
+    if (view === 'profile' && hackathonData) {
+        return <HackathonAnalyzer
+            hackathonData={hackathonData}
+            onSave={(data) => {
+                setHackathonData(data);
+                setView('coach');
+            }}
+            onBack={() => setView('coach')}
+        />;
+    }
+
     // 1. Results View (Separate Component integration)
-    if (view === 'results' && recordedBlob && hackathonData) {
-        return <AnalysisResults videoBlob={recordedBlob} hackathonData={hackathonData} onRetry={() => {
-            setRecordedBlob(null);
-            setView('coach');
-        }} />;
+    if (view === 'results' && activeSession) {
+        // Revisions go to the loaded profile, so only offer them for a take of that event
+        const canRevise = hackathonData !== null && hackathonKey(hackathonData) === hackathonKey(activeSession.hackathon);
+        return <>
+            <AnalysisResults
+                videoBlob={activeSession.videoBlob}
+                hackathonData={activeSession.hackathon}
+                metrics={activeSession.metrics}
+                transcript={activeSession.transcript}
+                initialResult={activeSession.result}
+                onResultChange={(result) => {
+                    updateSession(activeSession.id, { result }).catch(e => console.error("Failed to save verdict", e));
+                }}
+                onReviseScript={canRevise ? openWorkshop : undefined}
+                onRetry={() => {
+                    setActiveSession(null);
+                    setView('coach');
+                }}
+            />
+            {workshopFeedback && hackathonData && (
+                <ScriptWorkshop
+                    hackathonData={hackathonData}
+                    wpm={workshopWpm}
+                    feedback={workshopFeedback}
+                    onSave={(generatedScript, scriptHistory) => {
+                        setHackathonData({ ...hackathonData, strategy: { ...hackathonData.strategy, generatedScript }, scriptHistory });
+                        setWorkshopFeedback(null);
+                    }}
+                    onClose={() => setWorkshopFeedback(null)}
+                />
+            )}
+        </>;
+    }
+
+    // 2. History View
+    if (view === 'history') {
+        return <SessionHistory
+            currentKey={hackathonData ? hackathonKey(hackathonData) : undefined}
+            onOpen={(session) => {
+                setHackathonData(session.hackathon);
+                setActiveSession(session);
+                setView('results');
+            }}
+            onCompare={(sessions) => {
+                setComparedSessions(sessions);
+                setView('compare');
+            }}
+            onBack={() => setView(hackathonData ? 'coach' : 'input')}
+        />;
+    }
+
+    // 3. Comparison View
+    if (view === 'compare' && comparedSessions) {
+        return <TakeComparison sessions={comparedSessions} onBack={() => setView('history')} />;
     }
 
     return (
@@ -232,13 +713,34 @@ const SmartMirror: React.FC = () => {
                         <p className="text-xs text-white/50 uppercase tracking-widest">Mirror Mode</p>
                     </div>
                 </div>
-                {view === 'coach' && (
-                    <div className="bg-red-500/20 backdrop-blur border border-red-500/30 px-4 py-1.5 rounded-full flex items-center gap-2">
-                        <div className={`w-2 h-2 rounded-full bg-red-500 ${isRecording ? 'animate-pulse' : ''}`}></div>
-                        <span className="text-xs font-mono font-bold">{isRecording ? 'REC' : 'STANDBY'}</span>
-                        <span className="text-xs font-mono w-10">{formatTime(recordingTime)}</span>
-                    </div>
-                )}
+                <div className="flex items-center gap-3">
+                    {view === 'coach' && !isRecording && (
+                        <button onClick={() => setView('profile')} className="bg-white/10 backdrop-blur-md hover:bg-white/20 transition-colors px-4 py-1.5 rounded-full flex items-center gap-2 text-xs font-bold uppercase tracking-wider">
+                            <Pencil className="w-4 h-4" /> Edit Panel
+                        </button>
+                    )}
+                    {!isRecording && !isLoading && (
+                        <button onClick={() => setView('history')} className="bg-white/10 backdrop-blur-md hover:bg-white/20 transition-colors px-4 py-1.5 rounded-full flex items-center gap-2 text-xs font-bold uppercase tracking-wider">
+                            <History className="w-4 h-4" /> History
+                        </button>
+                    )}
+                    {view === 'coach' && !isRecording && (
+                        <button
+                            onClick={() => setAutoStop(a => !a)}
+                            className={`backdrop-blur-md transition-colors px-4 py-1.5 rounded-full flex items-center gap-2 text-xs font-bold uppercase tracking-wider ${autoStop ? 'bg-white/20 hover:bg-white/30' : 'bg-white/10 text-white/50 hover:bg-white/20'}`}
+                            title={`Stop recording at the ${formatTime(takeFormat.demoSeconds)} limit`}
+                        >
+                            <Timer className="w-4 h-4" /> Auto-stop {autoStop ? 'on' : 'off'}
+                        </button>
+                    )}
+                    {view === 'coach' && (
+                        <div className="bg-red-500/20 backdrop-blur border border-red-500/30 px-4 py-1.5 rounded-full flex items-center gap-2">
+                            <div className={`w-2 h-2 rounded-full bg-red-500 ${isRecording ? 'animate-pulse' : ''}`}></div>
+                            <span className="text-xs font-mono font-bold">{isRecording ? 'REC' : 'STANDBY'}</span>
+                            <span className={`text-xs font-mono ${timeLeft < 0 ? 'text-rose-300' : ''}`}>{formatTime(recordingTime)} / {formatTime(takeFormat.demoSeconds)}</span>
+                        </div>
+                    )}
+                </div>
             </div>
 
             {/* VIEW 1: INPUT & LOGS */}
@@ -265,13 +767,93 @@ const SmartMirror: React.FC = () => {
                             />
                             <button 
                                 onClick={handleAnalyze}
-                                className="bg-white text-black hover:bg-rose-50 px-6 py-3 rounded-xl font-bold flex items-center gap-2 transition-all"
+                                disabled={!hasEventSource}
+                                className="bg-white text-black hover:bg-rose-50 disabled:opacity-50 px-6 py-3 rounded-xl font-bold flex items-center gap-2 transition-all"
                             >
                                 Analyze <ArrowRight className="w-4 h-4" />
                             </button>
                         </div>
+
+                        {/* Event Format: time limits the script, recorder and verdict follow */}
+                        <div className="w-full max-w-2xl mt-4 bg-black/40 backdrop-blur-md border border-white/10 rounded-2xl p-4">
+                            <FormatPicker format={format} onChange={setFormat} tone="dark" />
+                        </div>
+
+                        {/* Extra Context: private events, judging guides, our own project */}
+                        <div className="w-full max-w-2xl mt-4">
+                            <div className="flex justify-center gap-6">
+                                <button onClick={() => setShowContext(s => !s)} className="text-xs font-bold uppercase tracking-wider text-white/50 hover:text-white/80 transition-colors flex items-center gap-2">
+                                    <FileText className="w-4 h-4" /> {showContext ? 'Hide extra context' : 'Add event text, judging guide or your project'}
+                                </button>
+                                <label className="text-xs font-bold uppercase tracking-wider text-white/50 hover:text-white/80 transition-colors flex items-center gap-2 cursor-pointer">
+                                    <Upload className="w-4 h-4" /> Import prep package
+                                    <input type="file" accept=".json,application/json" className="hidden" onChange={(e) => { handleImportPackage(e.target.files?.[0]); e.target.value = ''; }} />
+                                </label>
+                            </div>
+                            {importError && <p className="text-center text-xs text-rose-300 mt-2">{importError}</p>}
+                            {showContext && (
+                                <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4 bg-black/40 backdrop-blur-md border border-white/10 rounded-2xl p-4">
+                                    <div className="space-y-2">
+                                        <div className="flex justify-between items-center">
+                                            <span className="text-xs font-bold uppercase tracking-wider text-white/70">The Event</span>
+                                            <label className="text-xs text-white/50 hover:text-white cursor-pointer flex items-center gap-1">
+                                                <Paperclip className="w-3 h-3" /> Attach guide
+                                                <input type="file" multiple accept={SOURCE_FILE_ACCEPT} className="hidden" onChange={(e) => { handleSourceFiles(e.target.files, 'event'); e.target.value = ''; }} />
+                                            </label>
+                                        </div>
+                                        <textarea
+                                            value={eventText}
+                                            onChange={(e) => setEventText(e.target.value)}
+                                            rows={6}
+                                            placeholder="Paste the event page, Discord announcement or judging criteria..."
+                                            className="w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm placeholder-white/30 outline-none focus:border-white/30"
+                                        />
+                                        {sourceFiles.map((f, i) => (
+                                            <div key={i} className="flex items-center gap-2 text-xs text-white/70 bg-white/5 rounded-lg px-2 py-1">
+                                                <FileText className="w-3 h-3 shrink-0" />
+                                                <span className="truncate">{f.name}</span>
+                                                <button onClick={() => setSourceFiles(prev => prev.filter((_, j) => j !== i))} className="ml-auto text-white/40 hover:text-white">
+                                                    <X className="w-3 h-3" />
+                                                </button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                    <div className="space-y-2">
+                                        <div className="flex justify-between items-center">
+                                            <span className="text-xs font-bold uppercase tracking-wider text-white/70">Your Project</span>
+                                            <label className="text-xs text-white/50 hover:text-white cursor-pointer flex items-center gap-1">
+                                                <Paperclip className="w-3 h-3" /> Load README
+                                                <input type="file" accept=".md,.markdown,.txt,.rst,text/*" className="hidden" onChange={(e) => { handleSourceFiles(e.target.files, 'project'); e.target.value = ''; }} />
+                                            </label>
+                                        </div>
+                                        <textarea
+                                            value={projectDescription}
+                                            onChange={(e) => setProjectDescription(e.target.value)}
+                                            rows={6}
+                                            placeholder="What did you build? The script will be about this."
+                                            className="w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm placeholder-white/30 outline-none focus:border-white/30"
+                                        />
+                                    </div>
+                                    {sourceError && <p className="md:col-span-2 text-xs text-rose-300">{sourceError}</p>}
+                                </div>
+                            )}
+                        </div>
                     </div>
 
+                    {/* Analysis Error */}
+                    {!isLoading && analyzeError && (
+                        <div className="absolute bottom-24 w-full max-w-xl bg-rose-950/60 backdrop-blur-md border border-rose-400/30 rounded-xl p-4 flex items-start gap-3">
+                            <AlertTriangle className="w-5 h-5 text-rose-300 shrink-0 mt-0.5" />
+                            <div className="flex-1">
+                                <p className="text-sm font-bold text-rose-100">{analyzeError.title}</p>
+                                <p className="text-xs text-rose-200/70 mt-1">{analyzeError.action}</p>
+                            </div>
+                            <button onClick={handleAnalyze} className="bg-white text-black hover:bg-rose-50 px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1 transition-all">
+                                <RefreshCw className="w-3 h-3" /> Retry
+                            </button>
+                        </div>
+                    )}
+
                     {/* Workflow Terminal (Appears during Loading) */}
                     {isLoading && (
                         <div className="absolute bottom-24 w-full max-w-xl">
@@ -279,15 +861,25 @@ const SmartMirror: React.FC = () => {
                                 <div className="bg-white/5 px-4 py-2 border-b border-white/5 flex items-center gap-2">
                                     <Terminal className="w-4 h-4 text-emerald-400" />
                                     <span className="text-xs font-mono text-white/60 uppercase">Processing Chamber</span>
+                                    <span className="text-[10px] font-mono text-white/30" title="Stages are inferred from the model's output as it streams">inferred</span>
+                                    <button onClick={cancelAnalyze} className="ml-auto text-xs font-mono uppercase text-white/50 hover:text-rose-300 transition-colors">
+                                        Cancel
+                                    </button>
                                 </div>
                                 <div className="p-4 font-mono text-sm space-y-2 h-48 overflow-y-auto flex flex-col-reverse">
-                                     {logs.map((log, i) => (
-                                         <div key={i} className={`flex items-center gap-3 animate-slide-up ${log.type === 'success' ? 'text-emerald-400' : 'text-white/80'}`}>
-                                             <span className="text-white/20">Step {i+1}:</span>
-                                             {log.type === 'process' && <div className="w-2 h-2 rounded-full bg-rose-400 animate-ping" />}
-                                             {log.msg}
-                                         </div>
-                                     ))}
+                                     {logs.map((log, i) => {
+                                         // Only the stage still in progress pulses
+                                         const active = log.type === 'process' && !logs.slice(i + 1).some(l => l.type === 'process' || l.type === 'success');
+                                         return (
+                                             <div key={i} className={`flex items-center gap-3 animate-slide-up ${log.type === 'success' ? 'text-emerald-400' : log.type === 'source' ? 'text-white/50' : 'text-white/80'}`}>
+                                                 <span className="text-white/20 shrink-0">Step {i+1}:</span>
+                                                 {active && <div className="w-2 h-2 rounded-full bg-rose-400 animate-ping shrink-0" />}
+                                                 {log.source ? (
+                                                     <a href={log.source.uri} target="_blank" rel="noreferrer" className="truncate underline decoration-white/20 hover:text-white">{log.msg}</a>
+                                                 ) : log.msg}
+                                             </div>
+                                         );
+                                     })}
                                 </div>
                             </div>
                         </div>
@@ -307,28 +899,58 @@ const SmartMirror: React.FC = () => {
                             <div className="flex items-center gap-2 mb-3">
                                 <Users className="w-4 h-4 text-rose-300" />
                                 <h3 className="text-xs font-bold uppercase tracking-wider text-white/70">The Panel</h3>
+                                <button
+                                    onClick={() => setRubricOpen(true)}
+                                    disabled={isRecording}
+                                    className="ml-auto flex items-center gap-1 px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wider bg-white/10 text-white/60 hover:bg-white/20 disabled:opacity-40 transition-colors"
+                                    title="Edit judging criteria and weights"
+                                >
+                                    <Scale className="w-3 h-3" /> Rubric
+                                </button>
+                                <button
+                                    onClick={() => setHotSeat(h => !h)}
+                                    className={`flex items-center gap-1 px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wider transition-colors ${hotSeat ? 'bg-rose-500 text-white' : 'bg-white/10 text-white/60 hover:bg-white/20'}`}
+                                    title="Judges react live to what you say"
+                                >
+                                    <Flame className="w-3 h-3" /> Hot Seat
+                                </button>
                             </div>
                             <div className="space-y-3">
-                                {hackathonData.judges.slice(0, 3).map((j, i) => (
-                                    <div key={i} className="flex items-center gap-3">
-                                        <div className="w-8 h-8 rounded-full bg-white/10 flex items-center justify-center font-bold text-xs">{j.name[0]}</div>
-                                        <div className="overflow-hidden">
-                                            <div className="text-sm font-bold truncate">{j.name}</div>
-                                            <div className="text-xs text-white/50 truncate">{j.role} @ {j.company}</div>
+                                {hotSeatJudges.map((j, i) => {
+                                    const reaction = judgeReactions[j.name];
+                                    return (
+                                        <div key={i} className={`flex items-center gap-3 rounded-xl transition-all duration-300 ${reaction ? (reaction.kind === 'objection' ? 'bg-rose-500/20 ring-1 ring-rose-400/60 p-2 -m-2' : 'bg-emerald-500/20 ring-1 ring-emerald-400/60 p-2 -m-2') : ''}`}>
+                                            <div className={`w-8 h-8 rounded-full flex items-center justify-center font-bold text-xs shrink-0 ${reaction ? (reaction.kind === 'objection' ? 'bg-rose-500 animate-bounce' : 'bg-emerald-500') : 'bg-white/10'}`}>
+                                                {reaction ? (reaction.kind === 'objection' ? <AlertTriangle className="w-4 h-4" /> : <ThumbsUp className="w-4 h-4" />) : j.name[0]}
+                                            </div>
+                                            <div className="overflow-hidden flex-1">
+                                                <div className="flex items-center gap-2">
+                                                    <div className="text-sm font-bold truncate">{j.name}</div>
+                                                    <span className="ml-auto shrink-0"><ProvenanceBadge provenance={j.provenance} tone="dark" /></span>
+                                                </div>
+                                                <div className="text-xs text-white/50 truncate">
+                                                    {reaction ? (reaction.kind === 'objection' ? reaction.line : `Nods: ${reaction.trigger}`) : `${j.role} @ ${j.company}`}
+                                                </div>
+                                            </div>
                                         </div>
-                                    </div>
-                                ))}
+                                    );
+                                })}
                             </div>
                         </div>
 
                         {/* Script Teleprompter */}
                         <div className="flex-1 bg-black/40 backdrop-blur-md border border-white/10 rounded-2xl p-6 overflow-hidden relative group">
-                            <h3 className="text-xs font-bold uppercase tracking-wider text-white/70 mb-4 sticky top-0">Your Script</h3>
-                            <div className="h-full overflow-y-auto scrollbar-hide text-lg leading-relaxed font-medium text-white/90 space-y-4 pb-20">
-                                {hackathonData.strategy?.generatedScript?.split('\n\n').map((p, i) => (
-                                    <p key={i} className="hover:text-rose-200 transition-colors cursor-pointer">{p}</p>
-                                )) || <p>Script not available.</p>}
+                            <div className="flex items-center mb-4 sticky top-0">
+                                <h3 className="text-xs font-bold uppercase tracking-wider text-white/70">Your Script</h3>
+                                <button
+                                    onClick={() => setFollowScript(f => !f)}
+                                    className={`ml-auto flex items-center gap-1 px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wider transition-colors ${followScript ? 'bg-white/20 text-white' : 'bg-white/10 text-white/50 hover:bg-white/20'}`}
+                                    title="Highlight and scroll along as you speak"
+                                >
+                                    <ScrollText className="w-3 h-3" /> Follow
+                                </button>
                             </div>
+                            <Teleprompter script={parsedScript} current={prompter.current} skipped={prompter.skipped} follow={followScript} />
                             {/* Fade at bottom */}
                             <div className="absolute bottom-0 left-0 right-0 h-24 bg-gradient-to-t from-black/80 to-transparent pointer-events-none"></div>
                         </div>
@@ -339,7 +961,79 @@ const SmartMirror: React.FC = () => {
 
                     {/* RIGHT PANEL: Live Feedback */}
                     <div className="w-80 h-full flex flex-col justify-end gap-4 animate-fade-in-right pb-12">
+
+                         {/* Time Limit: countdown before auto-stop, or how far over */}
+                         {isRecording && timeLeft <= warningSeconds(takeFormat) && (
+                            <div className="bg-rose-500/30 backdrop-blur-xl border border-rose-400/60 rounded-2xl p-4 flex items-center gap-3">
+                                <Timer className="w-5 h-5 text-rose-200 animate-pulse" />
+                                <div className="flex-1">
+                                    <div className="text-xs text-rose-100/70 uppercase tracking-widest">{timeLeft < 0 ? 'Over the limit' : 'Wrap up'}</div>
+                                    <div className="text-sm font-bold">{timeLeft < 0 ? 'Judges would have cut you off' : autoStop ? 'Recording stops at the limit' : 'Time is almost up'}</div>
+                                </div>
+                                <span className="text-3xl font-mono font-bold">{timeLeft < 0 ? '+' : ''}{formatTime(Math.abs(timeLeft))}</span>
+                            </div>
+                         )}
                          
+                         {/* Segment Tracker */}
+                         {isRecording && segmentStatus && (
+                            <div className={`bg-black/60 backdrop-blur-xl border rounded-2xl p-4 ${segmentStatus.pace === 'behind' ? 'border-rose-500/60' : segmentStatus.pace === 'ahead' ? 'border-amber-400/60' : 'border-white/10'}`}>
+                                <div className="flex items-center gap-2 mb-1">
+                                    <Timer className="w-3 h-3 text-white/50" />
+                                    <span className="text-xs text-white/50 uppercase tracking-widest">
+                                        Segment {segmentStatus.actualIndex + 1}/{plannedSegments.length}
+                                    </span>
+                                    <span className={`ml-auto font-mono text-sm font-bold ${segmentStatus.remaining < 0 ? 'text-rose-400' : 'text-white'}`}>
+                                        {segmentStatus.remaining < 0 ? '+' : ''}{formatTime(Math.abs(Math.round(segmentStatus.remaining)))}
+                                    </span>
+                                </div>
+                                <div className="text-sm font-bold leading-snug">{plannedSegments[segmentStatus.actualIndex].action}</div>
+                                <div className="flex items-center mt-2">
+                                    <span className={`text-xs font-bold ${segmentStatus.pace === 'behind' ? 'text-rose-400' : segmentStatus.pace === 'ahead' ? 'text-amber-300' : 'text-emerald-400'}`}>
+                                        {segmentStatus.pace === 'behind'
+                                            ? `Behind by ${Math.round(segmentStatus.drift)}s, move on`
+                                            : segmentStatus.pace === 'ahead'
+                                                ? `Ahead by ${Math.round(-segmentStatus.drift)}s, slow down`
+                                                : 'On track'}
+                                    </span>
+                                    {segmentStatus.actualIndex < plannedSegments.length - 1 && (
+                                        <button onClick={nextSegment} className="ml-auto flex items-center gap-1 text-xs text-white/60 hover:text-white transition-colors" title="Mark the next segment as started">
+                                            Next <SkipForward className="w-3 h-3" />
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                         )}
+
+                         {/* Team: who has the floor */}
+                         {isRecording && team && (
+                            <div className="bg-black/60 backdrop-blur-xl border border-white/10 rounded-2xl p-4">
+                                <div className="flex items-center gap-2 mb-2">
+                                    <Handshake className="w-3 h-3 text-white/50" />
+                                    <span className="text-xs text-white/50 uppercase tracking-widest">Speaking</span>
+                                    <button
+                                        onClick={() => setAutoHandoff(a => !a)}
+                                        className={`ml-auto text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full transition-colors ${autoHandoff ? 'bg-emerald-500/20 text-emerald-300' : 'bg-white/10 text-white/50'}`}
+                                        title="Detect hand-offs from a change of voice"
+                                    >
+                                        Auto {autoHandoff ? 'on' : 'off'}
+                                    </button>
+                                </div>
+                                <div className="flex flex-wrap gap-1">
+                                    {team.map((p, i) => (
+                                        <button
+                                            key={i}
+                                            onClick={() => handOff(i)}
+                                            className={`px-3 py-1 rounded-full text-xs font-bold transition-colors ${speaker === i ? 'bg-rose-500 text-white' : 'bg-white/10 text-white/60 hover:bg-white/20'}`}
+                                            title={`Hand off to ${p.name} (key ${i + 1})`}
+                                        >
+                                            {p.name}
+                                        </button>
+                                    ))}
+                                </div>
+                                {upNext !== null && <div className="text-xs text-white/50 mt-2">Up next: {team[upNext].name}</div>}
+                            </div>
+                         )}
+
                          {/* Live WPM */}
                          {isRecording && (
                             <div className="bg-black/60 backdrop-blur-xl border border-white/10 rounded-2xl p-4">
@@ -347,15 +1041,45 @@ const SmartMirror: React.FC = () => {
                                 <div className="flex items-end gap-2">
                                     <span className={`text-4xl font-bold ${wpm > 160 ? 'text-rose-400' : 'text-white'}`}>{wpm}</span>
                                     <span className="text-sm mb-1">wpm</span>
+                                    <span className="ml-auto text-xs text-white/50 mb-1">{fillerCount} filler{fillerCount === 1 ? '' : 's'}</span>
+                                </div>
+                            </div>
+                         )}
+
+                         {/* Live Eye Contact */}
+                         {isRecording && attention && (
+                            <div className="bg-black/60 backdrop-blur-xl border border-white/10 rounded-2xl p-4 flex items-center gap-3">
+                                <Eye className={`w-5 h-5 ${attention.state === 'camera' ? 'text-emerald-400' : attention.state === 'script' ? 'text-amber-300' : 'text-rose-400'}`} />
+                                <div className="flex-1">
+                                    <div className="text-xs text-white/50 uppercase tracking-widest">Eye Contact</div>
+                                    <div className="text-sm font-bold">{GAZE_LABELS[attention.state]}</div>
                                 </div>
+                                <span className="text-2xl font-bold">{attention.eyeContact}%</span>
+                            </div>
+                         )}
+
+                         {/* No FaceDetector: say so rather than quietly skipping eye contact */}
+                         {!screenCapture && !faceDetectionSupported && (
+                            <div className="bg-black/60 backdrop-blur-xl border border-white/10 rounded-2xl px-4 py-3 flex items-center gap-3 text-xs text-white/50">
+                                <Eye className="w-4 h-4 shrink-0" />
+                                Eye contact and posture tracking need on-device face detection, which this browser doesn't offer.
                             </div>
                          )}
 
+                         <DemoStudio cameraStream={streamRef.current} locked={isRecording} onCaptureChange={handleCaptureChange} />
+
                          {/* Coach Box */}
                          <div className="bg-white/10 backdrop-blur-xl border border-white/20 rounded-3xl p-6 shadow-2xl">
                             <div className="flex items-center gap-3 mb-3">
                                 <div className="w-2 h-2 rounded-full bg-emerald-400 animate-pulse"></div>
                                 <h3 className="text-xs font-bold uppercase tracking-wider text-white">Jarvis Coach</h3>
+                                <button
+                                    onClick={() => setSilentCoach(s => !s)}
+                                    className="ml-auto text-white/50 hover:text-white transition-colors"
+                                    title={silentCoach ? "Silent: tips are shown, not spoken" : "Tips are spoken aloud"}
+                                >
+                                    {silentCoach ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+                                </button>
                             </div>
                             <p className="text-xl font-serif italic text-rose-100 leading-snug">
                                 "{coachFeedback}"
@@ -378,6 +1102,17 @@ const SmartMirror: React.FC = () => {
 
                 </div>
             )}
+
+            {rubricOpen && hackathonData && (
+                <RubricEditor
+                    criteria={hackathonData.criteria}
+                    onSave={(criteria) => {
+                        setHackathonData({ ...hackathonData, criteria });
+                        setRubricOpen(false);
+                    }}
+                    onClose={() => setRubricOpen(false)}
+                />
+            )}
         </div>
     );
 };
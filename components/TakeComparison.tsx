@@ -0,0 +1,196 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowLeft, CheckCircle, AlertTriangle, Users, TrendingUp, Minus } from 'lucide-react';
+import { PracticeSession } from '../types';
+import { compareTakes } from '../services/compareTakes';
+
+interface Props {
+  // Order doesn't matter, the earlier take is always shown as "Take A"
+  sessions: [PracticeSession, PracticeSession];
+  onBack: () => void;
+}
+
+const DeltaBadge: React.FC<{ value: number | null; invert?: boolean; suffix?: string }> = ({ value, invert, suffix = '' }) => {
+  if (value === null) return <span className="text-stone-300 text-sm">n/a</span>;
+  if (value === 0) return <span className="text-stone-400 text-sm font-bold flex items-center gap-1"><Minus className="w-3 h-3" /> no change</span>;
+  const better = invert ? value < 0 : value > 0;
+  return (
+    <span className={`text-sm font-bold ${better ? 'text-emerald-600' : 'text-rose-500'}`}>
+      {value > 0 ? '+' : ''}{value}{suffix}
+    </span>
+  );
+};
+
+const TakeComparison: React.FC<Props> = ({ sessions, onBack }) => {
+  const [before, after] = useMemo(
+    () => [...sessions].sort((a, b) => a.createdAt - b.createdAt) as [PracticeSession, PracticeSession],
+    [sessions]
+  );
+  const comparison = useMemo(() => compareTakes(before, after), [before, after]);
+
+  const [urls, setUrls] = useState<[string, string]>(['', '']);
+  const leadRef = useRef<HTMLVideoElement>(null);
+  const followRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const a = URL.createObjectURL(before.videoBlob);
+    const b = URL.createObjectURL(after.videoBlob);
+    setUrls([a, b]);
+    return () => {
+      URL.revokeObjectURL(a);
+      URL.revokeObjectURL(b);
+    };
+  }, [before, after]);
+
+  // Take A drives playback; Take B mirrors play, pause and seeks
+  useEffect(() => {
+    const lead = leadRef.current;
+    const follow = followRef.current;
+    if (!lead || !follow) return;
+
+    const sync = () => {
+      if (Math.abs(follow.currentTime - lead.currentTime) > 0.3) follow.currentTime = lead.currentTime;
+    };
+    const onPlay = () => { sync(); follow.play().catch(() => {}); };
+    const onPause = () => { follow.pause(); sync(); };
+
+    lead.addEventListener('play', onPlay);
+    lead.addEventListener('pause', onPause);
+    lead.addEventListener('seeked', sync);
+    return () => {
+      lead.removeEventListener('play', onPlay);
+      lead.removeEventListener('pause', onPause);
+      lead.removeEventListener('seeked', sync);
+    };
+  }, [urls]);
+
+  const takeLabel = (s: PracticeSession) => new Date(s.createdAt).toLocaleString();
+
+  return (
+    <div className="min-h-screen bg-stone-50 p-6 md:p-12 max-w-7xl mx-auto">
+      <header className="flex justify-between items-center mb-12">
+        <div>
+          <h1 className="text-4xl font-bold text-stone-900 font-serif mb-2">Take vs. Take</h1>
+          <p className="text-stone-500">{before.hackathon.title}</p>
+        </div>
+        <button onClick={onBack} className="flex items-center gap-2 text-stone-500 hover:text-stone-900 transition-colors px-4 py-2 rounded-full hover:bg-white hover:shadow-sm">
+          <ArrowLeft className="w-4 h-4" />
+          <span className="font-medium">Back</span>
+        </button>
+      </header>
+
+      {/* Videos */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+        {[before, after].map((s, i) => (
+          <div key={s.id} className="bg-white p-2 rounded-3xl shadow-lg shadow-stone-200 border border-stone-100">
+            <div className="rounded-2xl overflow-hidden bg-stone-900 aspect-video">
+              {i === 0
+                ? <video ref={leadRef} src={urls[0]} controls className="w-full h-full object-cover" />
+                : <video ref={followRef} src={urls[1]} muted className="w-full h-full object-cover" />}
+            </div>
+            <div className="flex justify-between items-center px-4 py-3">
+              <div>
+                <div className="text-xs text-stone-400 uppercase tracking-widest font-bold">Take {i === 0 ? 'A' : 'B'}</div>
+                <div className="text-sm text-stone-600">{takeLabel(s)}</div>
+              </div>
+              <span className="text-4xl font-serif text-stone-900">{s.result?.overallScore ?? '–'}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Deltas */}
+      <div className="grid grid-cols-3 gap-6 mb-8">
+        {[
+          { label: 'Overall Score', value: comparison.scoreDelta },
+          { label: 'WPM', value: comparison.wpmDelta },
+          { label: 'Filler Words', value: comparison.fillerDelta, invert: true }
+        ].map(d => (
+          <div key={d.label} className="bg-white rounded-3xl p-6 border border-stone-100 shadow-sm text-center">
+            <div className="text-stone-400 uppercase tracking-widest text-xs font-bold mb-2">{d.label}</div>
+            <DeltaBadge value={d.value} invert={d.invert} />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+        {/* Improvements */}
+        <div className="bg-rose-50/50 p-8 rounded-3xl border border-rose-100/50">
+          <h3 className="text-rose-900 font-bold mb-6 flex items-center gap-2 font-serif text-lg">
+            <TrendingUp className="w-5 h-5 text-rose-600" /> Polish This
+          </h3>
+          <ul className="space-y-3 text-sm">
+            {comparison.improvements.resolved.map((s, i) => (
+              <li key={`r${i}`} className="flex items-start gap-3 text-emerald-800">
+                <CheckCircle className="w-4 h-4 mt-0.5 shrink-0 text-emerald-500" />
+                <span className="line-through decoration-emerald-300">{s}</span>
+              </li>
+            ))}
+            {comparison.improvements.introduced.map((s, i) => (
+              <li key={`n${i}`} className="flex items-start gap-3 text-rose-900">
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-rose-500" />
+                <span>{s} <span className="text-xs font-bold text-rose-400 uppercase ml-1">new</span></span>
+              </li>
+            ))}
+            {comparison.improvements.kept.map(([, s], i) => (
+              <li key={`k${i}`} className="flex items-start gap-3 text-rose-900/70">
+                <span className="mt-1.5 w-1.5 h-1.5 bg-rose-300 rounded-full shrink-0 ml-1"></span>
+                <span>{s} <span className="text-xs font-bold text-stone-400 uppercase ml-1">still there</span></span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {/* Strengths */}
+        <div className="bg-emerald-50/50 p-8 rounded-3xl border border-emerald-100/50">
+          <h3 className="text-emerald-900 font-bold mb-6 flex items-center gap-2 font-serif text-lg">
+            <CheckCircle className="w-5 h-5 text-emerald-600" /> Shining Moments
+          </h3>
+          <ul className="space-y-3 text-sm">
+            {comparison.strengths.introduced.map((s, i) => (
+              <li key={`n${i}`} className="flex items-start gap-3 text-emerald-900">
+                <span className="mt-1.5 w-1.5 h-1.5 bg-emerald-400 rounded-full shrink-0 ml-1"></span>
+                <span>{s} <span className="text-xs font-bold text-emerald-500 uppercase ml-1">new</span></span>
+              </li>
+            ))}
+            {comparison.strengths.kept.map(([, s], i) => (
+              <li key={`k${i}`} className="flex items-start gap-3 text-emerald-900/70">
+                <span className="mt-1.5 w-1.5 h-1.5 bg-emerald-300 rounded-full shrink-0 ml-1"></span>
+                <span>{s}</span>
+              </li>
+            ))}
+            {comparison.strengths.resolved.map((s, i) => (
+              <li key={`l${i}`} className="flex items-start gap-3 text-stone-500">
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-amber-500" />
+                <span>{s} <span className="text-xs font-bold text-amber-500 uppercase ml-1">lost</span></span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      {/* Judge Diffs */}
+      <div className="bg-white border border-stone-200 rounded-3xl p-8 shadow-sm">
+        <h3 className="text-stone-900 font-bold mb-8 flex items-center gap-2 font-serif text-xl">
+          <Users className="w-6 h-6 text-stone-400" /> Judge Notes
+        </h3>
+        <div className="space-y-8">
+          {comparison.judges.map(j => (
+            <div key={j.judgeName}>
+              <div className="text-stone-900 font-bold text-sm mb-3">{j.judgeName}</div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <p className="text-stone-400 font-hand text-lg leading-relaxed border-l-2 border-stone-200 pl-4">
+                  {j.before ? `"${j.before}"` : 'No note in Take A'}
+                </p>
+                <p className="text-stone-600 font-hand text-lg leading-relaxed border-l-2 border-rose-200 pl-4">
+                  {j.after ? `"${j.after}"` : 'No note in Take B'}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TakeComparison;
@@ -0,0 +1,98 @@
+import React from 'react';
+import { Handshake, Check, X, AlertTriangle, ArrowRight } from 'lucide-react';
+import { AnalysisResult, TeamTake } from '../types';
+import { formatTimestamp } from './MomentScrubber';
+
+interface Props {
+  team: TeamTake;
+  feedback?: AnalysisResult['presenterFeedback'];
+  onSeek: (seconds: number) => void;
+}
+
+// One colour per presenter, shared with the transcript labels
+export const PRESENTER_COLORS = ['bg-rose-400', 'bg-sky-400', 'bg-amber-400', 'bg-violet-400'];
+
+// Team takes (services/teamMode.ts): who spoke when, per-presenter stats and
+// assigned segments, and a review of every hand-off.
+const TeamPanel: React.FC<Props> = ({ team, feedback, onSeek }) => {
+  const total = team.turns.length > 0 ? team.turns[team.turns.length - 1].end : 0;
+
+  return (
+    <div className="bg-white rounded-3xl p-8 border border-stone-100 shadow-sm">
+      <h3 className="text-stone-900 font-bold mb-6 flex items-center gap-2 font-serif text-xl">
+        <Handshake className="w-6 h-6 text-stone-400" /> Team
+      </h3>
+
+      {total > 0 && (
+        <div className="flex h-3 rounded-full overflow-hidden bg-stone-100 mb-8">
+          {team.turns.map((turn, i) => (
+            <button
+              key={i}
+              onClick={() => onSeek(turn.start)}
+              className={`${PRESENTER_COLORS[turn.presenter % PRESENTER_COLORS.length]} hover:opacity-80 transition-opacity`}
+              style={{ width: `${((turn.end - turn.start) / total) * 100}%` }}
+              title={`${team.presenters[turn.presenter]} ${formatTimestamp(turn.start)}-${formatTimestamp(turn.end)}`}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-6">
+        {team.stats.map((s, i) => {
+          const note = feedback?.find(f => f.presenterName === s.name)?.feedback;
+          return (
+            <div key={i}>
+              <div className="flex items-center gap-2 mb-2">
+                <span className={`w-2.5 h-2.5 rounded-full ${PRESENTER_COLORS[i % PRESENTER_COLORS.length]}`} />
+                <span className="text-stone-900 font-bold text-sm">{s.name}</span>
+                <span className="ml-auto font-mono text-xs text-stone-400">
+                  {formatTimestamp(Math.round(s.speakingTime))} · {s.wpm} wpm · {s.fillerWords} filler{s.fillerWords === 1 ? '' : 's'}
+                </span>
+              </div>
+              {s.segments.length > 0 && (
+                <ul className="space-y-1 mb-2">
+                  {s.segments.map(seg => (
+                    <li key={seg.index} className={`flex items-center gap-2 text-sm ${seg.covered ? 'text-stone-600' : 'text-stone-400'}`}>
+                      {seg.covered ? <Check className="w-4 h-4 text-emerald-500 shrink-0" /> : <X className="w-4 h-4 text-rose-400 shrink-0" />}
+                      <span className="truncate">{seg.action}</span>
+                      {!seg.covered && (
+                        <span className="text-xs text-rose-500 shrink-0">
+                          {seg.spokenBy === null ? 'never reached' : seg.spokenBy === i ? 'not mentioned' : `given by ${team.presenters[seg.spokenBy]}`}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {note && <p className="text-stone-500 font-hand text-lg leading-relaxed">"{note}"</p>}
+            </div>
+          );
+        })}
+      </div>
+
+      {team.handoffs.length > 0 && (
+        <div className="mt-8 pt-6 border-t border-stone-100">
+          <div className="text-xs font-bold uppercase tracking-wider text-stone-400 mb-3">Hand-offs</div>
+          <ul className="space-y-1">
+            {team.handoffs.map((h, i) => (
+              <li key={i}>
+                <button onClick={() => onSeek(h.at)} className="w-full text-left flex items-start gap-3 px-3 py-2 -mx-3 rounded-xl hover:bg-stone-50 transition-colors">
+                  {h.smooth ? <Check className="w-4 h-4 text-emerald-500 shrink-0 mt-0.5" /> : <AlertTriangle className="w-4 h-4 text-amber-500 shrink-0 mt-0.5" />}
+                  <span className="font-mono text-xs text-stone-400 mt-0.5 w-10 shrink-0">{formatTimestamp(h.at)}</span>
+                  <span className="text-sm text-stone-700">
+                    <span className="font-bold inline-flex items-center gap-1">
+                      {team.presenters[h.from]} <ArrowRight className="w-3 h-3" /> {team.presenters[h.to]}
+                    </span>
+                    <span className="text-stone-500"> {h.note}{h.source === 'voice' ? ' (detected by voice)' : ''}</span>
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TeamPanel;
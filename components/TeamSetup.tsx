@@ -0,0 +1,70 @@
+import React from 'react';
+import { Handshake, Plus, Trash2 } from 'lucide-react';
+import { HackathonData, Presenter } from '../types';
+import { MAX_PRESENTERS, assignSegment, presenterFor } from '../services/teamMode';
+
+interface Props {
+  team: Presenter[];
+  structure: HackathonData['strategy']['structure'];
+  onChange: (team: Presenter[]) => void;
+}
+
+const inputClass = "w-full bg-stone-50 border border-stone-200 rounded-xl px-3 py-2 text-sm text-stone-700 focus:outline-none focus:border-stone-400";
+
+// Profile card for demos split between teammates: who presents, and which
+// rows of the strategy timeline each of them delivers (services/teamMode.ts).
+const TeamSetup: React.FC<Props> = ({ team, structure, onChange }) => {
+  const rename = (index: number, name: string) => onChange(team.map((p, i) => i === index ? { ...p, name } : p));
+
+  return (
+    <div className="bg-white rounded-3xl p-8 border border-stone-100 shadow-sm space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-stone-900 font-bold flex items-center gap-2 font-serif text-lg">
+          <Handshake className="w-5 h-5 text-stone-400" /> Team
+        </h3>
+        {team.length < MAX_PRESENTERS && (
+          <button
+            onClick={() => onChange([...team, { name: '', segments: [] }])}
+            className="text-sm font-bold text-stone-500 hover:text-stone-900 transition-colors flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" /> Add presenter
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-stone-500">
+        Presenting together? With two or more presenters, takes track who is speaking and review every hand-off.
+      </p>
+
+      {team.map((presenter, i) => (
+        <div key={i} className="flex gap-2 items-center">
+          <span className="font-mono text-xs text-stone-400 w-4">{i + 1}</span>
+          <input value={presenter.name} onChange={e => rename(i, e.target.value)} placeholder="Name" className={inputClass} />
+          <button onClick={() => onChange(team.filter((_, j) => j !== i))} className="text-stone-300 hover:text-rose-500 transition-colors p-2" title="Remove presenter">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      {team.length >= 2 && structure.length > 0 && (
+        <ul className="space-y-2 pt-2">
+          {structure.map((row, i) => (
+            <li key={i} className="flex items-center gap-3 text-sm">
+              <span className="font-mono text-xs text-stone-400 w-20 shrink-0 truncate" title={row.time}>{row.time}</span>
+              <span className="flex-1 text-stone-700 min-w-0 truncate" title={row.action}>{row.action}</span>
+              <select
+                value={presenterFor(team, i) ?? ''}
+                onChange={e => onChange(assignSegment(team, i, e.target.value === '' ? null : Number(e.target.value)))}
+                className="bg-stone-50 border border-stone-200 rounded-xl px-2 py-1 text-sm text-stone-700 focus:outline-none focus:border-stone-400"
+              >
+                <option value="">Anyone</option>
+                {team.map((p, j) => <option key={j} value={j}>{p.name.trim() || `Presenter ${j + 1}`}</option>)}
+              </select>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TeamSetup;
@@ -0,0 +1,57 @@
+import React, { useEffect, useRef } from 'react';
+import { ParsedScript } from '../services/scriptAligner';
+
+interface Props {
+  script: ParsedScript;
+  // Sentence the presenter is on, -1 before they start
+  current: number;
+  skipped: number[];
+  // When false the script is a plain scrollable text, as before
+  follow: boolean;
+}
+
+const Teleprompter: React.FC<Props> = ({ script, current, skipped, follow }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const sentenceRefs = useRef<(HTMLSpanElement | null)[]>([]);
+
+  // Keep the current sentence in the upper third of the panel
+  useEffect(() => {
+    const container = containerRef.current;
+    const el = sentenceRefs.current[current];
+    if (!follow || !container || !el) return;
+    container.scrollTo({ top: el.offsetTop - container.clientHeight / 3, behavior: 'smooth' });
+  }, [current, follow]);
+
+  if (script.sentences.length === 0) {
+    return <p className="text-lg text-white/90">Script not available.</p>;
+  }
+
+  const paragraphs: number[][] = [];
+  script.sentences.forEach((s, i) => {
+    (paragraphs[s.paragraph] ||= []).push(i);
+  });
+
+  const sentenceClass = (i: number) => {
+    if (!follow) return 'hover:text-rose-200 transition-colors';
+    if (i === current) return 'text-white bg-rose-500/25 rounded px-1 -mx-1 transition-colors';
+    if (skipped.includes(i)) return 'text-amber-300/70 line-through decoration-amber-300/50 transition-colors';
+    if (i < current) return 'text-white/35 transition-colors';
+    return 'text-white/80 transition-colors';
+  };
+
+  return (
+    <div ref={containerRef} className="relative h-full overflow-y-auto scrollbar-hide text-lg leading-relaxed font-medium text-white/90 space-y-4 pb-20">
+      {paragraphs.filter(Boolean).map((indexes, p) => (
+        <p key={p}>
+          {indexes.map(i => (
+            <span key={i} ref={el => { sentenceRefs.current[i] = el; }} className={sentenceClass(i)}>
+              {script.sentences[i].text}{' '}
+            </span>
+          ))}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default Teleprompter;
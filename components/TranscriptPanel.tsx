@@ -0,0 +1,97 @@
+import React, { useMemo } from 'react';
+import { FileText, Check, X, AlertTriangle } from 'lucide-react';
+import { HackathonData, TranscriptLine } from '../types';
+import { reviewTranscript, TranscriptMarkKind } from '../services/transcriptReview';
+import { formatTimestamp } from './MomentScrubber';
+import { PRESENTER_COLORS } from './TeamPanel';
+
+interface Props {
+  transcript: TranscriptLine[];
+  hackathonData: HackathonData;
+  // Presenter names for team takes; lines carry an index into it
+  speakers?: string[];
+  currentTime: number;
+  onSeek: (seconds: number) => void;
+}
+
+const MARK_STYLES: Record<TranscriptMarkKind, string> = {
+  filler: 'bg-amber-100 text-amber-800 rounded px-0.5',
+  'key-phrase': 'bg-emerald-100 text-emerald-800 rounded px-0.5 font-medium',
+  'red-flag': 'bg-rose-100 text-rose-800 rounded px-0.5 underline decoration-rose-400 decoration-wavy'
+};
+
+// Annotated transcript of the take (services/transcriptReview.ts); each line seeks the video.
+const TranscriptPanel: React.FC<Props> = ({ transcript, hackathonData, speakers, currentTime, onSeek }) => {
+  const review = useMemo(() => reviewTranscript(transcript, hackathonData), [transcript, hackathonData]);
+  const activeIndex = review.lines.reduce((found, l, i) => l.line.start <= currentTime ? i : found, -1);
+  const missed = review.keyPhrases.filter(k => k.hits === 0);
+  const hit = review.keyPhrases.filter(k => k.hits > 0);
+
+  return (
+    <div className="bg-white rounded-3xl p-8 border border-stone-100 shadow-sm">
+      <h3 className="text-stone-900 font-bold mb-2 flex items-center gap-2 font-serif text-lg">
+        <FileText className="w-5 h-5 text-stone-400" /> Transcript
+      </h3>
+      <div className="flex flex-wrap gap-3 text-xs text-stone-500 mb-6">
+        <span><span className={MARK_STYLES.filler}>filler</span> ×{review.fillerCount}</span>
+        <span><span className={MARK_STYLES['key-phrase']}>key phrase</span></span>
+        <span><span className={MARK_STYLES['red-flag']}>red flag</span> ×{review.redFlags.length}</span>
+      </div>
+
+      {review.keyPhrases.length > 0 && (
+        <div className="mb-6 space-y-1.5">
+          {hit.map(k => (
+            <button key={k.phrase} onClick={() => k.firstAt !== null && onSeek(k.firstAt)} className="flex items-center gap-2 text-sm text-stone-600 hover:text-stone-900 transition-colors">
+              <Check className="w-4 h-4 text-emerald-500 shrink-0" /> {k.phrase}
+              <span className="font-mono text-xs text-stone-400">{k.firstAt !== null ? formatTimestamp(k.firstAt) : ''}{k.hits > 1 ? ` ×${k.hits}` : ''}</span>
+            </button>
+          ))}
+          {missed.map(k => (
+            <div key={k.phrase} className="flex items-center gap-2 text-sm text-stone-400">
+              <X className="w-4 h-4 text-rose-400 shrink-0" /> <span className="line-through decoration-stone-300">{k.phrase}</span>
+              <span className="text-xs text-rose-500">never said</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {review.redFlags.length > 0 && (
+        <ul className="mb-6 space-y-2">
+          {review.redFlags.map((f, i) => (
+            <li key={i}>
+              <button onClick={() => onSeek(f.at)} className="w-full text-left text-xs text-rose-700 bg-rose-50 hover:bg-rose-100 transition-colors rounded-lg px-3 py-2 flex items-start gap-2">
+                <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+                <span><span className="font-mono">{formatTimestamp(f.at)}</span> "{f.excerpt}" may trip {f.judgeName}'s red flag: {f.flag}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="max-h-96 overflow-y-auto -mx-3 space-y-0.5">
+        {review.lines.map(({ line, spans }, i) => (
+          <button
+            key={i}
+            onClick={() => onSeek(line.start)}
+            className={`w-full text-left flex items-start gap-3 px-3 py-1.5 rounded-xl transition-colors ${i === activeIndex ? 'bg-stone-100' : 'hover:bg-stone-50'}`}
+          >
+            <span className="font-mono text-xs text-stone-400 mt-0.5 shrink-0 w-10">{formatTimestamp(line.start)}</span>
+            {speakers && line.speaker !== undefined && speakers[line.speaker] && (
+              <span className="flex items-center gap-1 text-xs font-bold text-stone-500 mt-0.5 shrink-0 w-20 truncate" title={speakers[line.speaker]}>
+                <span className={`w-2 h-2 rounded-full shrink-0 ${PRESENTER_COLORS[line.speaker % PRESENTER_COLORS.length]}`} /> {speakers[line.speaker]}
+              </span>
+            )}
+            <span className="text-sm text-stone-700 leading-relaxed">
+              {spans.map((span, j) => span.kind
+                ? <mark key={j} className={MARK_STYLES[span.kind]} title={span.label}>{span.text}</mark>
+                : <React.Fragment key={j}>{span.text}</React.Fragment>
+              )}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptPanel;
@@ -0,0 +1,97 @@
+// Error taxonomy for model calls. Providers throw whatever their SDK throws;
+// toAIError sorts it into one of these kinds so retries and the UI can react
+// without knowing which backend is active.
+
+export type AIErrorKind =
+  | 'auth'          // missing/invalid key, permission denied
+  | 'quota'         // rate limited or out of quota (429)
+  | 'safety'        // the model refused or the response was blocked
+  | 'invalid-json'  // the model answered but not with parseable JSON
+  | 'network'       // offline, DNS, CORS, connection reset
+  | 'timeout'       // no answer within AI_TIMEOUT_MS
+  | 'server'        // 5xx from the API
+  | 'cancelled'     // aborted by the user
+  | 'unknown';
+
+export interface AIError extends Error {
+  kind: AIErrorKind;
+  // HTTP status when the backend gave one
+  status?: number;
+  // Whether trying the same request again can help
+  retryable: boolean;
+}
+
+// invalid-json is included: a second sample usually parses
+const RETRYABLE: AIErrorKind[] = ['quota', 'network', 'timeout', 'server', 'invalid-json'];
+
+export const createAIError = (kind: AIErrorKind, message: string, options: { status?: number; cause?: unknown } = {}): AIError => {
+  const error = new Error(message, options.cause !== undefined ? { cause: options.cause } : undefined) as AIError;
+  error.name = 'AIError';
+  error.kind = kind;
+  error.status = options.status;
+  error.retryable = RETRYABLE.includes(kind);
+  return error;
+};
+
+export const isAIError = (e: unknown): e is AIError =>
+  e instanceof Error && typeof (e as AIError).kind === 'string' && typeof (e as AIError).retryable === 'boolean';
+
+const kindForStatus = (status: number): AIErrorKind | null => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'server';
+  return null;
+};
+
+export const toAIError = (e: unknown): AIError => {
+  if (isAIError(e)) return e;
+
+  if (e instanceof DOMException && e.name === 'AbortError') {
+    return createAIError('cancelled', 'Request cancelled', { cause: e });
+  }
+
+  const message = e instanceof Error ? e.message : String(e);
+  // @google/genai ApiError and our OpenAI adapter both expose `status`
+  const status = typeof e === 'object' && e !== null && 'status' in e && typeof e.status === 'number' ? e.status : undefined;
+  const byStatus = status !== undefined ? kindForStatus(status) : null;
+  if (byStatus) return createAIError(byStatus, message, { status, cause: e });
+
+  const lower = message.toLowerCase();
+  if (/api[_ ]?key|unauthori[sz]ed|permission/.test(lower)) return createAIError('auth', message, { status, cause: e });
+  if (/quota|rate limit|resource[_ ]exhausted/.test(lower)) return createAIError('quota', message, { status, cause: e });
+  if (/safety|blocked/.test(lower)) return createAIError('safety', message, { status, cause: e });
+  // fetch() rejects with a TypeError when the request never reached a server
+  if (e instanceof TypeError || /failed to fetch|network|load failed/.test(lower)) return createAIError('network', message, { status, cause: e });
+
+  return createAIError('unknown', message, { status, cause: e });
+};
+
+// What to tell the presenter, and what they can do about it
+export interface AIErrorMessage {
+  title: string;
+  action: string;
+}
+
+export const describeAIError = (e: unknown): AIErrorMessage => {
+  switch (toAIError(e).kind) {
+    case 'auth':
+      return { title: "The AI key was rejected.", action: "Check GEMINI_API_KEY (or OPENAI_API_KEY) in .env.local and restart the dev server." };
+    case 'quota':
+      return { title: "Rate limit or quota reached.", action: "Wait a minute and retry, or switch to AI_PROVIDER=mock to keep practicing." };
+    case 'safety':
+      return { title: "The model refused to answer.", action: "Rephrase the input or remove anything that may trip content filters, then retry." };
+    case 'invalid-json':
+      return { title: "The model returned something we couldn't read.", action: "Retry; if it keeps happening, try a different model." };
+    case 'network':
+      return { title: "Couldn't reach the AI service.", action: "Check the venue Wi-Fi, or point OPENAI_BASE_URL at a local model." };
+    case 'timeout':
+      return { title: "The AI took too long to answer.", action: "Retry, or raise AI_TIMEOUT_MS for long videos." };
+    case 'server':
+      return { title: "The AI service is having problems.", action: "Retry in a moment." };
+    case 'cancelled':
+      return { title: "Cancelled.", action: "Start again whenever you're ready." };
+    default:
+      return { title: "Something went wrong talking to the AI.", action: "Retry; details are in the browser console." };
+  }
+};
@@ -0,0 +1,100 @@
+import { AIError, createAIError, toAIError } from "./aiErrors";
+
+// Timeout, retry and cancellation around a single model call. Every attempt
+// gets its own AbortSignal that fires on timeout or when the caller's signal
+// aborts; retryable failures (rate limits, 5xx, network, timeout) back off
+// exponentially before the next attempt.
+
+export interface RequestPolicy {
+  timeoutMs: number;
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const envNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// Override with AI_TIMEOUT_MS and AI_MAX_RETRIES, see vite.config.ts
+export const DEFAULT_POLICY: RequestPolicy = {
+  timeoutMs: envNumber(process.env.AI_TIMEOUT_MS, 90_000),
+  retries: envNumber(process.env.AI_MAX_RETRIES, 2),
+  baseDelayMs: 1_000,
+  maxDelayMs: 15_000
+};
+
+// Rejects with a 'cancelled' AIError as soon as the signal aborts
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) return reject(createAIError('cancelled', 'Request cancelled'));
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAIError('cancelled', 'Request cancelled'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Full jitter keeps several tabs (or teammates) from retrying in lockstep
+export const backoffDelay = (attempt: number, policy: Pick<RequestPolicy, 'baseDelayMs' | 'maxDelayMs'>): number =>
+  Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+
+const attemptOnce = async <T,>(fn: (signal: AbortSignal) => Promise<T>, timeoutMs: number, outer?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const forwardAbort = () => controller.abort();
+  outer?.addEventListener('abort', forwardAbort, { once: true });
+
+  // Not every SDK honours the signal, so race it as well
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(
+      timedOut
+        ? createAIError('timeout', `No response after ${Math.round(timeoutMs / 1000)}s`)
+        : createAIError('cancelled', 'Request cancelled')
+    ), { once: true });
+  });
+
+  try {
+    return await Promise.race([fn(controller.signal), aborted]);
+  } catch (e) {
+    if (timedOut) throw createAIError('timeout', `No response after ${Math.round(timeoutMs / 1000)}s`, { cause: e });
+    if (outer?.aborted) throw createAIError('cancelled', 'Request cancelled', { cause: e });
+    throw toAIError(e);
+  } finally {
+    clearTimeout(timer);
+    outer?.removeEventListener('abort', forwardAbort);
+  }
+};
+
+export const requestWithRetry = async <T,>(
+  label: string,
+  fn: (signal: AbortSignal) => Promise<T>,
+  options: { signal?: AbortSignal; policy?: Partial<RequestPolicy>; onRetry?: (error: AIError, delayMs: number) => void } = {}
+): Promise<T> => {
+  const policy = { ...DEFAULT_POLICY, ...options.policy };
+  let lastError: AIError | null = null;
+
+  for (let attempt = 0; attempt <= policy.retries; attempt++) {
+    if (options.signal?.aborted) throw createAIError('cancelled', 'Request cancelled');
+    try {
+      return await attemptOnce(fn, policy.timeoutMs, options.signal);
+    } catch (e) {
+      lastError = toAIError(e);
+      if (!lastError.retryable || attempt === policy.retries) break;
+      const delay = backoffDelay(attempt, policy);
+      // Callers with an onRetry show the retry to the user; the rest only leave a debug trace
+      if (options.onRetry) options.onRetry(lastError, delay);
+      else console.debug(`${label} failed (${lastError.kind}), retrying in ${Math.round(delay)}ms`, lastError);
+      await sleep(delay, options.signal);
+    }
+  }
+  throw lastError!;
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { AnalysisProgressEvent, createProgressTracker } from "./analysisProgress";
+
+const response = JSON.stringify({
+  title: "HackX",
+  criteria: [{ name: "Impact", weight: 1 }],
+  judges: [
+    { name: "Ada Lovelace", role: "CTO" },
+    { name: "Grace Hopper", role: "Admiral" }
+  ],
+  strategy: { structure: [], generatedScript: "Hi" }
+});
+
+const track = (chunkSize: number) => {
+  const events: AnalysisProgressEvent[] = [];
+  const tracker = createProgressTracker(e => events.push(e));
+  for (let i = 0; i < response.length; i += chunkSize) tracker.pushText(response.slice(i, i + chunkSize));
+  return events;
+};
+
+describe("createProgressTracker", () => {
+  it("infers each stage once, in stream order", () => {
+    expect(track(response.length).map(e => e.stage)).toEqual(['criteria', 'judges', 'profiling', 'profiling', 'strategy']);
+  });
+
+  it("matches keys and names split across tiny deltas", () => {
+    const events = track(3);
+    expect(events.map(e => e.stage)).toEqual(['criteria', 'judges', 'profiling', 'profiling', 'strategy']);
+    expect(events.filter(e => e.stage === 'profiling').map(e => e.message)).toEqual([
+      expect.stringContaining("Ada Lovelace"),
+      expect.stringContaining("Grace Hopper")
+    ]);
+  });
+
+  it("reports each cited page once", () => {
+    const events: AnalysisProgressEvent[] = [];
+    const tracker = createProgressTracker(e => events.push(e));
+    tracker.pushSources([{ title: "Rules", uri: "https://hackx.dev/rules" }]);
+    tracker.pushSources([{ title: "Rules", uri: "https://hackx.dev/rules" }, { title: "", uri: "" }]);
+    expect(events).toHaveLength(1);
+  });
+});
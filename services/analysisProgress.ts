@@ -0,0 +1,94 @@
+import { GroundingSource, HackathonSource } from "../types";
+
+// Turns the streamed hackathon analysis into progress events for the
+// "Processing Chamber". The model usually writes the JSON in schema order
+// (criteria, judges, strategy), so the keys and judge names appearing in the
+// stream let us infer roughly where it is. The stages are that inference, not
+// something the model reports.
+
+export type AnalysisStage = 'event' | 'criteria' | 'judges' | 'profiling' | 'strategy' | 'validating' | 'retrying' | 'done';
+
+export interface AnalysisProgressEvent {
+  stage: AnalysisStage;
+  message: string;
+  // Set on 'event' stage updates when the model cites a web page
+  source?: GroundingSource;
+}
+
+export interface ProgressTracker {
+  pushText: (delta: string) => void;
+  pushSources: (sources: GroundingSource[]) => void;
+}
+
+const JUDGE_NAME = /"name"\s*:\s*"((?:[^"\\]|\\.)+)"\s*,/g;
+
+export const describeSource = (source: HackathonSource): string => {
+  const parts: string[] = [];
+  if (source.url.trim()) parts.push(`searching the web for ${source.url.trim()}`);
+  if (source.eventText.trim()) parts.push('reading the pasted event text');
+  if (source.files.length > 0) parts.push(`reading ${source.files.map(f => f.name).join(', ')}`);
+  const text = parts.join(', ') || 'working from the theme alone';
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+// Text kept between deltas so keys and judge names split across chunks still match
+const OVERLAP = 256;
+
+export const createProgressTracker = (emit: (event: AnalysisProgressEvent) => void): ProgressTracker => {
+  // Only the unscanned end of the stream is kept, so each delta costs its own length
+  let tail = '';
+  let inJudges = false;
+  const reached = new Set<AnalysisStage>();
+  const profiled = new Set<string>();
+  const cited = new Set<string>();
+
+  const enter = (stage: AnalysisStage, message: string) => {
+    if (reached.has(stage)) return;
+    reached.add(stage);
+    emit({ stage, message });
+  };
+
+  return {
+    pushText: (delta) => {
+      if (reached.has('strategy')) return;
+      let window = tail + delta;
+
+      if (!reached.has('criteria') && window.includes('"criteria"')) enter('criteria', 'Seems to be reading the judging criteria');
+
+      if (!inJudges) {
+        const judgesAt = window.indexOf('"judges"');
+        if (judgesAt === -1) {
+          tail = window.slice(-OVERLAP);
+          return;
+        }
+        inJudges = true;
+        enter('judges', 'Seems to be identifying the judging panel');
+        window = window.slice(judgesAt);
+      }
+
+      // Judge names only count once their value is complete (followed by a comma)
+      const strategyAt = window.indexOf('"strategy"');
+      const judgesText = strategyAt === -1 ? window : window.slice(0, strategyAt);
+      let consumed = 0;
+      for (const match of judgesText.matchAll(JUDGE_NAME)) {
+        consumed = match.index + match[0].length;
+        const name = match[1];
+        if (profiled.has(name)) continue;
+        profiled.add(name);
+        reached.add('profiling');
+        emit({ stage: 'profiling', message: `Profiling ${name}: values, red flags, talking points` });
+      }
+
+      if (strategyAt !== -1) enter('strategy', 'Seems to be writing the demo strategy and script');
+      tail = window.slice(Math.max(consumed, window.length - OVERLAP));
+    },
+
+    pushSources: (sources) => {
+      for (const source of sources) {
+        if (!source.uri || cited.has(source.uri)) continue;
+        cited.add(source.uri);
+        emit({ stage: 'event', message: `Consulted ${source.title || source.uri}`, source });
+      }
+    }
+  };
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { estimatePitch } from "./audioLevel";
+
+const SAMPLE_RATE = 48_000;
+
+const frame = (sample: (i: number) => number): { buffer: Float32Array; rms: number } => {
+  const buffer = Float32Array.from({ length: 2048 }, (_, i) => sample(i));
+  const rms = Math.sqrt(buffer.reduce((sum, v) => sum + v * v, 0) / buffer.length);
+  return { buffer, rms };
+};
+
+const tone = (hz: number, amplitude = 0.3) => frame(i => amplitude * Math.sin((2 * Math.PI * hz * i) / SAMPLE_RATE));
+
+describe("estimatePitch", () => {
+  it("finds the fundamental of a voiced frame", () => {
+    for (const hz of [110, 200, 320]) {
+      const { buffer, rms } = tone(hz);
+      expect(estimatePitch(buffer, SAMPLE_RATE, rms)).toBeGreaterThan(hz * 0.98);
+      expect(estimatePitch(buffer, SAMPLE_RATE, rms)).toBeLessThan(hz * 1.02);
+    }
+  });
+
+  it("isn't fooled into an octave down by a strong harmonic", () => {
+    const { buffer, rms } = frame(i => 0.3 * Math.sin((2 * Math.PI * 150 * i) / SAMPLE_RATE) + 0.2 * Math.sin((2 * Math.PI * 300 * i) / SAMPLE_RATE));
+    expect(estimatePitch(buffer, SAMPLE_RATE, rms)).toBeCloseTo(150, -1);
+  });
+
+  it("treats quiet frames and noise as unvoiced", () => {
+    const quiet = tone(200, 0.005);
+    expect(estimatePitch(quiet.buffer, SAMPLE_RATE, quiet.rms)).toBeNull();
+
+    let seed = 42;
+    const random = () => (seed = (seed * 1_103_515_245 + 12_345) % 2 ** 31) / 2 ** 31;
+    const noise = frame(() => random() - 0.5);
+    expect(estimatePitch(noise.buffer, SAMPLE_RATE, noise.rms)).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+// Samples the RMS level of a MediaStream's audio track with Web Audio and
+// reports it on a fixed interval. Feeds speechMetrics.pushAudioLevel, and
+// with `pitch` set also the voice pitch used for team hand-off detection.
+
+export interface AudioLevelMeter {
+  stop: () => void;
+}
+
+// Speaking voices sit roughly between these
+const MIN_PITCH_HZ = 70;
+const MAX_PITCH_HZ = 400;
+// Quieter frames are treated as silence
+const VOICED_RMS = 0.01;
+// Autocorrelation peak needed to call a frame voiced rather than noise
+const MIN_CLARITY = 0.5;
+
+// Fundamental frequency of a voiced frame by autocorrelation, or null for
+// silence, breath and consonants.
+export const estimatePitch = (buffer: Float32Array, sampleRate: number, rms: number): number | null => {
+  if (rms < VOICED_RMS) return null;
+  const minLag = Math.floor(sampleRate / MAX_PITCH_HZ);
+  const maxLag = Math.min(Math.floor(sampleRate / MIN_PITCH_HZ), buffer.length >> 1);
+  const n = buffer.length - maxLag;
+  let energy = 0;
+  for (let i = 0; i < n; i++) energy += buffer[i] * buffer[i];
+  if (energy === 0) return null;
+
+  const correlation = new Float32Array(maxLag + 1);
+  let best = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = 0; i < n; i++) sum += buffer[i] * buffer[i + lag];
+    correlation[lag] = sum / energy;
+    if (correlation[lag] > best) best = correlation[lag];
+  }
+  if (best < MIN_CLARITY) return null;
+
+  // The first peak close to the best one; later ones are the same voice an octave down
+  for (let lag = minLag + 1; lag < maxLag; lag++) {
+    const c = correlation[lag];
+    if (c >= best * 0.9 && c >= correlation[lag - 1] && c >= correlation[lag + 1]) return sampleRate / lag;
+  }
+  return null;
+};
+
+export const createAudioLevelMeter = (
+  stream: MediaStream,
+  onLevel: (rms: number, timestamp: number, pitch: number | null) => void,
+  options: { intervalMs?: number; pitch?: boolean } = {}
+): AudioLevelMeter => {
+  if (stream.getAudioTracks().length === 0) return { stop: () => {} };
+
+  const ctx = new AudioContext();
+  const source = ctx.createMediaStreamSource(stream);
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 2048;
+  source.connect(analyser);
+  const buffer = new Float32Array(analyser.fftSize);
+
+  const timer = setInterval(() => {
+    analyser.getFloatTimeDomainData(buffer);
+    let sum = 0;
+    for (let i = 0; i < buffer.length; i++) sum += buffer[i] * buffer[i];
+    const rms = Math.sqrt(sum / buffer.length);
+    onLevel(rms, Date.now(), options.pitch ? estimatePitch(buffer, ctx.sampleRate, rms) : null);
+  }, options.intervalMs ?? 100);
+
+  return {
+    stop: () => {
+      clearInterval(timer);
+      source.disconnect();
+      ctx.close();
+    }
+  };
+};
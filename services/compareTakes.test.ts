@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { AnalysisResult, PracticeSession, RecordingMetrics } from "../types";
+import { compareTakes, diffJudgeFeedback, diffLists } from "./compareTakes";
+
+const result = (patch: Partial<AnalysisResult> = {}): AnalysisResult => ({
+  overallScore: 60,
+  strengths: ["Clear problem statement up front"],
+  improvements: ["Slow down during the live demo"],
+  moments: [],
+  rubricScores: [],
+  judgeSpecificFeedback: [{ judgeName: "Ada", feedback: "Show the architecture" }],
+  qaQuestions: [],
+  ...patch
+});
+
+const take = (id: string, metrics: Partial<RecordingMetrics> | null, analysis: AnalysisResult | null = result()): PracticeSession => ({
+  id,
+  createdAt: 0,
+  hackathon: { title: "HackX", url: "", judges: [], criteria: [], strategy: { structure: [], keyPhrases: [], featuresToEmphasize: [], generatedScript: "" } },
+  videoBlob: new Blob(),
+  metrics: metrics as RecordingMetrics | null,
+  result: analysis
+});
+
+describe("diffLists", () => {
+  it("keeps every item of identical lists", () => {
+    const items = ["Slow down during the demo", "Mention the pricing"];
+    expect(diffLists(items, items)).toEqual({ kept: [[items[0], items[0]], [items[1], items[1]]], resolved: [], introduced: [] });
+  });
+
+  it("matches reworded points by word overlap", () => {
+    const { kept } = diffLists(["Slow down during the live demo"], ["You still rush the live demo, slow down"]);
+    expect(kept).toHaveLength(1);
+  });
+
+  it("splits disjoint lists into resolved and introduced", () => {
+    expect(diffLists(["Weak opening hook"], ["Pricing slide unreadable"])).toEqual({
+      kept: [],
+      resolved: ["Weak opening hook"],
+      introduced: ["Pricing slide unreadable"]
+    });
+  });
+
+  it("pairs each later item at most once", () => {
+    const { kept, resolved } = diffLists(["Slow down the demo", "Slow down the demo please"], ["Slow down the demo"]);
+    expect(kept).toHaveLength(1);
+    expect(resolved).toHaveLength(1);
+  });
+});
+
+describe("diffJudgeFeedback", () => {
+  it("lines judges up by name, whoever is missing from either take", () => {
+    expect(diffJudgeFeedback(
+      [{ judgeName: "Ada", feedback: "Old" }, { judgeName: "Bo", feedback: "Only before" }],
+      [{ judgeName: "ada ", feedback: "New" }, { judgeName: "Cy", feedback: "Only after" }]
+    )).toEqual([
+      { judgeName: "Ada", before: "Old", after: "New" },
+      { judgeName: "Bo", before: "Only before" },
+      { judgeName: "Cy", after: "Only after" }
+    ]);
+  });
+});
+
+describe("compareTakes", () => {
+  it("shows no change between identical takes", () => {
+    const metrics = { wpm: 140, fillerWords: 4 };
+    const comparison = compareTakes(take("a", metrics), take("b", metrics));
+    expect(comparison).toMatchObject({ scoreDelta: 0, wpmDelta: 0, fillerDelta: 0 });
+    expect(comparison.improvements.resolved).toEqual([]);
+    expect(comparison.improvements.introduced).toEqual([]);
+  });
+
+  it("reports deltas from the earlier take", () => {
+    const comparison = compareTakes(take("a", { wpm: 170, fillerWords: 9 }), take("b", { wpm: 145, fillerWords: 3 }, result({ overallScore: 72 })));
+    expect(comparison).toMatchObject({ scoreDelta: 12, wpmDelta: -25, fillerDelta: -6 });
+  });
+
+  it("leaves metric deltas empty when a take has no metrics", () => {
+    const comparison = compareTakes(take("a", null), take("b", { wpm: 140, fillerWords: 2 }));
+    expect(comparison).toMatchObject({ scoreDelta: 0, wpmDelta: null, fillerDelta: null });
+  });
+
+  it("treats a take without a verdict as having no feedback", () => {
+    const comparison = compareTakes(take("a", null, null), take("b", null));
+    expect(comparison.scoreDelta).toBeNull();
+    expect(comparison.improvements.introduced).toEqual(["Slow down during the live demo"]);
+  });
+});
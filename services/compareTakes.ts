@@ -0,0 +1,94 @@
+import { AnalysisResult, PracticeSession } from "../types";
+
+// Diffing helpers for comparing two practice takes of the same event. Model
+// feedback is never worded the same twice, so list items are matched by word
+// overlap instead of string equality.
+
+export interface ListDiff {
+  // Pairs of [before, after] that describe the same point
+  kept: [string, string][];
+  // Only in the earlier take (for improvements: fixed)
+  resolved: string[];
+  // Only in the later take (for improvements: new problems)
+  introduced: string[];
+}
+
+export interface JudgeDiff {
+  judgeName: string;
+  before?: string;
+  after?: string;
+}
+
+export interface TakeComparison {
+  scoreDelta: number | null;
+  wpmDelta: number | null;
+  fillerDelta: number | null;
+  strengths: ListDiff;
+  improvements: ListDiff;
+  judges: JudgeDiff[];
+}
+
+const STOP_WORDS = new Set(['the', 'a', 'an', 'and', 'or', 'to', 'of', 'in', 'on', 'for', 'with', 'is', 'was', 'your', 'you', 'it', 'this', 'that', 'at', 'be']);
+
+const tokens = (text: string): Set<string> =>
+  new Set(text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(w => w.length > 1 && !STOP_WORDS.has(w)));
+
+const similarity = (a: string, b: string): number => {
+  const ta = tokens(a);
+  const tb = tokens(b);
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let shared = 0;
+  ta.forEach(t => { if (tb.has(t)) shared++; });
+  return shared / (ta.size + tb.size - shared);
+};
+
+const MATCH_THRESHOLD = 0.35;
+
+export const diffLists = (before: string[], after: string[]): ListDiff => {
+  const remaining = [...after];
+  const kept: [string, string][] = [];
+  const resolved: string[] = [];
+
+  for (const item of before) {
+    let bestIndex = -1;
+    let bestScore = MATCH_THRESHOLD;
+    remaining.forEach((candidate, i) => {
+      const score = similarity(item, candidate);
+      if (score >= bestScore) {
+        bestScore = score;
+        bestIndex = i;
+      }
+    });
+    if (bestIndex >= 0) {
+      kept.push([item, remaining[bestIndex]]);
+      remaining.splice(bestIndex, 1);
+    } else {
+      resolved.push(item);
+    }
+  }
+  return { kept, resolved, introduced: remaining };
+};
+
+export const diffJudgeFeedback = (before: AnalysisResult['judgeSpecificFeedback'], after: AnalysisResult['judgeSpecificFeedback']): JudgeDiff[] => {
+  const byName = new Map<string, JudgeDiff>();
+  const key = (name: string) => name.trim().toLowerCase();
+  for (const item of before) byName.set(key(item.judgeName), { judgeName: item.judgeName, before: item.feedback });
+  for (const item of after) {
+    const existing = byName.get(key(item.judgeName));
+    byName.set(key(item.judgeName), { ...(existing || { judgeName: item.judgeName }), after: item.feedback });
+  }
+  return [...byName.values()];
+};
+
+const delta = (a: number | undefined, b: number | undefined) =>
+  a !== undefined && b !== undefined ? b - a : null;
+
+// `before` should be the earlier take
+export const compareTakes = (before: PracticeSession, after: PracticeSession): TakeComparison => ({
+  scoreDelta: delta(before.result?.overallScore, after.result?.overallScore),
+  wpmDelta: delta(before.metrics?.wpm, after.metrics?.wpm),
+  fillerDelta: delta(before.metrics?.fillerWords, after.metrics?.fillerWords),
+  strengths: diffLists(before.result?.strengths ?? [], after.result?.strengths ?? []),
+  improvements: diffLists(before.result?.improvements ?? [], after.result?.improvements ?? []),
+  judges: diffJudgeFeedback(before.result?.judgeSpecificFeedback ?? [], after.result?.judgeSpecificFeedback ?? [])
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { DemoFormat } from "../types";
+import { FORMAT_PRESETS, overtimePenalty } from "./demoFormat";
+
+const format = (preset: DemoFormat['preset']): DemoFormat => FORMAT_PRESETS.find(p => p.format.preset === preset)!.format;
+
+describe("overtimePenalty", () => {
+  it("doesn't penalise a recording stopped at the limit", () => {
+    expect(overtimePenalty(format('video'), 180)).toBeNull();
+    expect(overtimePenalty(format('video'), 181)).toBeNull();
+  });
+
+  it("charges for every started tenth of the limit", () => {
+    expect(overtimePenalty(format('video'), 182)).toEqual({ limit: 180, duration: 182, points: 5 });
+    expect(overtimePenalty(format('video'), 200)).toMatchObject({ points: 10 });
+  });
+
+  it("gives live demos a grace period and caps the penalty", () => {
+    expect(overtimePenalty(format('classic'), 188)).toBeNull();
+    expect(overtimePenalty(format('classic'), 600)).toMatchObject({ points: 25 });
+  });
+});
@@ -0,0 +1,122 @@
+import { AnalysisResult, AudienceType, DeliveryMode, DemoFormat, HackathonData, OvertimePenalty } from "../types";
+
+// Event formats: how long the demo may run, whether Q&A follows, who is
+// watching and whether it's live or a submission video. The format shapes the
+// generated script, stops the recorder at the limit and costs points when a
+// take runs over, the way judges dock (or cut off) teams that overrun.
+
+export interface FormatPreset {
+  label: string;
+  description: string;
+  format: DemoFormat;
+}
+
+export const FORMAT_PRESETS: FormatPreset[] = [
+  {
+    label: "Lightning pitch",
+    description: "60 seconds on stage, no Q&A",
+    format: { preset: 'lightning', demoSeconds: 60, qaSeconds: 0, audience: 'stage', delivery: 'live' }
+  },
+  {
+    label: "3-minute demo",
+    description: "The classic: 3 minutes plus 2 of questions",
+    format: { preset: 'classic', demoSeconds: 180, qaSeconds: 120, audience: 'panel', delivery: 'live' }
+  },
+  {
+    label: "Demo + Q&A",
+    description: "5 minutes, then 3 minutes of questions",
+    format: { preset: 'extended', demoSeconds: 300, qaSeconds: 180, audience: 'panel', delivery: 'live' }
+  },
+  {
+    label: "Expo booth",
+    description: "2-minute walkthrough for judges passing by",
+    format: { preset: 'booth', demoSeconds: 120, qaSeconds: 180, audience: 'booth', delivery: 'live' }
+  },
+  {
+    label: "Submission video",
+    description: "3-minute recorded video, judged online",
+    format: { preset: 'video', demoSeconds: 180, qaSeconds: 0, audience: 'panel', delivery: 'recorded' }
+  }
+];
+
+// What every profile got before formats existed
+export const DEFAULT_FORMAT: DemoFormat = FORMAT_PRESETS[1].format;
+
+export const AUDIENCE_LABELS: Record<AudienceType, string> = {
+  panel: "Judging panel",
+  stage: "Stage audience",
+  booth: "Booth walk-up"
+};
+
+export const DELIVERY_LABELS: Record<DeliveryMode, string> = {
+  live: "Live",
+  recorded: "Recorded video"
+};
+
+export const formatOf = (data: HackathonData | null | undefined): DemoFormat => data?.format ?? DEFAULT_FORMAT;
+
+// "60 seconds", "3 minutes", "2.5 minutes"
+export const describeLength = (seconds: number): string => {
+  if (seconds < 120 && seconds % 60 !== 0) return `${seconds} seconds`;
+  const minutes = Math.round((seconds / 60) * 10) / 10;
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
+
+// --- Time limit ---
+
+// The recorder's countdown starts this long before the limit
+export const warningSeconds = (format: DemoFormat): number => Math.min(15, Math.round(format.demoSeconds / 4));
+
+// Live judges let a few seconds slide; a video player shows the exact length
+const graceSeconds = (format: DemoFormat): number =>
+  format.delivery === 'recorded' ? 0 : Math.max(5, format.demoSeconds * 0.05);
+
+// The recorder stops a moment after the limit and the measured length rounds
+// up, so a take auto-stopped at the limit must not count as over it
+const MEASUREMENT_SLACK_SECONDS = 1;
+
+// Points off the 100-point total for every started tenth of the limit past the grace
+const POINTS_PER_TENTH = 5;
+const MAX_PENALTY_POINTS = 25;
+
+// null when the take fit the limit
+export const overtimePenalty = (format: DemoFormat, duration: number): OvertimePenalty | null => {
+  const over = duration - format.demoSeconds - graceSeconds(format) - MEASUREMENT_SLACK_SECONDS;
+  if (over <= 0) return null;
+  const tenths = Math.ceil((over / format.demoSeconds) * 10);
+  return {
+    limit: format.demoSeconds,
+    duration: Math.round(duration),
+    points: Math.min(MAX_PENALTY_POINTS, tenths * POINTS_PER_TENTH)
+  };
+};
+
+// Runs after the rubric score, so the deduction is the last word on overallScore.
+// The overrun is also anchored as a moment where the judges would stop listening.
+export const applyOvertimePenalty = (result: AnalysisResult, format: DemoFormat, duration: number | undefined): AnalysisResult => {
+  const penalty = duration ? overtimePenalty(format, duration) : null;
+  if (!penalty) return result;
+  return {
+    ...result,
+    overallScore: Math.max(0, result.overallScore - penalty.points),
+    overtime: penalty,
+    moments: [
+      ...result.moments,
+      {
+        start: penalty.limit,
+        end: penalty.duration,
+        category: 'delivery',
+        severity: penalty.points >= 15 ? 'critical' : 'major',
+        note: format.delivery === 'recorded'
+          ? `Past the ${describeLength(penalty.limit)} limit: judges stop watching here (-${penalty.points} points)`
+          : `Past the ${describeLength(penalty.limit)} limit: judges would cut you off here (-${penalty.points} points)`
+      }
+    ]
+  };
+};
+
+// Likely questions to prepare: one per 25 seconds of Q&A, which is 5 for the
+// classic format. Formats without a Q&A still get a few, for what judges will
+// wonder about afterwards.
+export const qaQuestionCount = (format: DemoFormat): number =>
+  format.qaSeconds > 0 ? Math.min(8, Math.max(2, Math.round(format.qaSeconds / 25))) : 3;
@@ -0,0 +1,28 @@
+// Browser helpers for getting files out of the app: a plain download, and a
+// print window the browser can save as PDF.
+
+export const downloadFile = (fileName: string, content: BlobPart, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoked on the next tick; some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Returns false when a popup blocker stopped the window from opening
+export const printHtml = (html: string): boolean => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  win.onafterprint = () => win.close();
+  // Give the new document a moment to lay out before the print dialog
+  setTimeout(() => win.print(), 250);
+  return true;
+};
@@ -0,0 +1,108 @@
+import { FaceObservation } from "./gazeTracker";
+
+// Samples frames from the live <video> into a small canvas and runs the
+// browser's on-device FaceDetector (Shape Detection API) on them. Nothing
+// leaves the machine. Most desktop browsers don't ship FaceDetector yet; they
+// report unsupported, the coach view says so and attention metrics are skipped.
+
+export interface FaceSampler {
+  stop: () => void;
+}
+
+// The parts of the Shape Detection API we use; TypeScript's DOM lib doesn't have it
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly;
+  landmarks?: { type: 'eye' | 'mouth' | 'nose'; locations: { x: number; y: number }[] }[];
+}
+
+interface FaceDetector {
+  detect: (image: ImageBitmapSource) => Promise<DetectedFace[]>;
+}
+
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetector;
+
+const faceDetectorConstructor = (): FaceDetectorConstructor | undefined =>
+  (window as Window & { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+
+const SAMPLE_WIDTH = 320;
+// Longest wait between attempts while detection keeps failing
+const MAX_BACKOFF_MS = 10_000;
+
+export const isFaceDetectionSupported = (): boolean => faceDetectorConstructor() !== undefined;
+
+export const createFaceSampler = (
+  video: HTMLVideoElement,
+  onSample: (obs: FaceObservation | null, timestamp: number) => void,
+  intervalMs = 250
+): FaceSampler => {
+  const Detector = faceDetectorConstructor();
+  if (!Detector) return { stop: () => {} };
+
+  const detector = new Detector({ fastMode: true, maxDetectedFaces: 1 });
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  let busy = false;
+  let stopped = false;
+  // Consecutive failed detections; each one doubles the wait before the next try
+  let failures = 0;
+  let retryAt = 0;
+
+  const sample = async () => {
+    if (busy || stopped || !ctx || video.readyState < 2 || !video.videoWidth || Date.now() < retryAt) return;
+    busy = true;
+    try {
+      const scale = SAMPLE_WIDTH / video.videoWidth;
+      canvas.width = SAMPLE_WIDTH;
+      canvas.height = Math.round(video.videoHeight * scale);
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      const faces = await detector.detect(canvas);
+      failures = 0;
+      // A detection still running when the take ended has nowhere to go
+      if (stopped) return;
+      const timestamp = Date.now();
+      if (faces.length === 0) {
+        onSample(null, timestamp);
+        return;
+      }
+
+      const { boundingBox, landmarks = [] } = faces[0];
+      const norm = (p: { x: number; y: number }) => ({ x: p.x / canvas.width, y: p.y / canvas.height });
+      const landmark = (type: 'eye' | 'mouth' | 'nose') => {
+        const found = landmarks.find(l => l.type === type);
+        return found?.locations?.[0] ? norm(found.locations[0]) : undefined;
+      };
+      const eyes = landmarks
+        .filter(l => l.type === 'eye' && l.locations?.[0])
+        .map(l => norm(l.locations[0]))
+        .sort((a, b) => a.x - b.x);
+
+      onSample({
+        box: {
+          x: boundingBox.x / canvas.width,
+          y: boundingBox.y / canvas.height,
+          width: boundingBox.width / canvas.width,
+          height: boundingBox.height / canvas.height
+        },
+        leftEye: eyes[0],
+        rightEye: eyes[1],
+        nose: landmark('nose')
+      }, timestamp);
+    } catch (e) {
+      // Logged once per failure streak; the backoff keeps a broken detector from spinning
+      if (failures === 0) console.error("Face detection failed", e);
+      failures++;
+      retryAt = Date.now() + Math.min(MAX_BACKOFF_MS, intervalMs * 2 ** failures);
+    } finally {
+      busy = false;
+    }
+  };
+
+  const timer = setInterval(sample, intervalMs);
+  return {
+    stop: () => {
+      stopped = true;
+      clearInterval(timer);
+    }
+  };
+};
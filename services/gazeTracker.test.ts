@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { FaceObservation, createGazeTracker } from "./gazeTracker";
+
+const T0 = 1_000_000;
+
+// Eyes 0.1 apart around x = 0.5; noseX moves the head
+const face = (noseX = 0.5, boxY = 0.3): FaceObservation => ({
+  box: { x: 0.4, y: boxY, width: 0.2, height: 0.3 },
+  leftEye: { x: 0.45, y: boxY + 0.1 },
+  rightEye: { x: 0.55, y: boxY + 0.1 },
+  nose: { x: noseX, y: boxY + 0.15 }
+});
+
+const started = () => {
+  const tracker = createGazeTracker({ baselineSamples: 2 });
+  tracker.start(T0);
+  return tracker;
+};
+
+describe("classification", () => {
+  it("tells camera, script and away apart by head turn", () => {
+    const tracker = started();
+    expect(tracker.pushObservation(face(0.5), T0 + 100)).toBe('camera');
+    // The script panel is on the left of the mirrored preview: +x in the raw frame
+    expect(tracker.pushObservation(face(0.6), T0 + 200)).toBe('script');
+    expect(tracker.pushObservation(face(0.4), T0 + 300)).toBe('away');
+  });
+
+  it("follows the configured script side", () => {
+    const tracker = createGazeTracker({ scriptSide: 'right' });
+    tracker.start(T0);
+    expect(tracker.pushObservation(face(0.4), T0 + 100)).toBe('script');
+  });
+
+  it("counts a face without landmarks as facing the camera", () => {
+    expect(started().pushObservation({ box: { x: 0.4, y: 0.3, width: 0.2, height: 0.3 } }, T0 + 100)).toBe('camera');
+  });
+
+  it("is off-frame without a face", () => {
+    expect(started().pushObservation(null, T0 + 100)).toBe('off-frame');
+  });
+
+  it("spots slouching only after learning the upright position", () => {
+    const tracker = started();
+    expect(tracker.pushObservation(face(0.5, 0.3), T0 + 100)).toBe('camera');
+    expect(tracker.pushObservation(face(0.5, 0.3), T0 + 200)).toBe('camera');
+    expect(tracker.pushObservation(face(0.5, 0.35), T0 + 300)).toBe('camera');
+    expect(tracker.pushObservation(face(0.5, 0.5), T0 + 400)).toBe('slouching');
+  });
+});
+
+describe("timeline", () => {
+  it("merges repeated states and credits time to the state that held it", () => {
+    const tracker = started();
+    tracker.pushObservation(face(0.5), T0 + 1_000);
+    tracker.pushObservation(face(0.5), T0 + 2_000);
+    tracker.pushObservation(face(0.6), T0 + 3_000);
+    tracker.pushObservation(face(0.5), T0 + 4_000);
+    const summary = tracker.finish(T0 + 5_000);
+    expect(summary.timeline).toEqual([
+      { state: 'camera', start: 0, end: 3 },
+      { state: 'script', start: 3, end: 4 },
+      { state: 'camera', start: 4, end: 5 }
+    ]);
+    expect(summary.eyeContact).toBe(80);
+    expect(summary).toMatchObject({ scriptGlances: 1, slouchMoments: 0, offFrameMoments: 0 });
+  });
+
+  it("counts each off-frame episode once", () => {
+    const tracker = started();
+    tracker.pushObservation(null, T0 + 1_000);
+    tracker.pushObservation(null, T0 + 2_000);
+    tracker.pushObservation(face(0.5), T0 + 3_000);
+    tracker.pushObservation(null, T0 + 4_000);
+    expect(tracker.finish(T0 + 5_000).offFrameMoments).toBe(2);
+  });
+
+  it("reports the live state and eye contact so far", () => {
+    const tracker = started();
+    tracker.pushObservation(face(0.5), T0 + 1_000);
+    tracker.pushObservation(face(0.4), T0 + 2_000);
+    expect(tracker.snapshot()).toEqual({ state: 'away', eyeContact: 100 });
+  });
+});
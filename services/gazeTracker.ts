@@ -0,0 +1,151 @@
+import { AttentionSummary, GazeSegment, GazeState } from "../types";
+
+// Pure attention tracker. faceSampler.ts feeds it one FaceObservation per
+// sampled camera frame; it classifies each sample (looking at camera, turned
+// toward the script panel, slouching, off-frame) and folds them into a
+// timeline. Like speechMetrics.ts it has no DOM access.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Coordinates are normalized to 0-1 of the raw (un-mirrored) camera frame
+export interface FaceObservation {
+  box: { x: number; y: number; width: number; height: number };
+  leftEye?: Point;
+  rightEye?: Point;
+  nose?: Point;
+}
+
+export interface GazeTrackerOptions {
+  // Nose offset from the eye midpoint, in inter-eye distances, that counts as a head turn
+  turnThreshold?: number;
+  // How far (fraction of frame height) the face may drop below its baseline before it's a slouch
+  slouchDrop?: number;
+  // Samples used to learn the presenter's upright position
+  baselineSamples?: number;
+  // The script panel sits on the left of the mirrored preview, i.e. toward +x in the raw frame
+  scriptSide?: 'left' | 'right';
+}
+
+export interface LiveAttention {
+  state: GazeState;
+  eyeContact: number;
+}
+
+export const GAZE_LABELS: Record<GazeState, string> = {
+  camera: 'Eye contact',
+  script: 'Reading script',
+  away: 'Looking away',
+  slouching: 'Slouching',
+  'off-frame': 'Off-frame'
+};
+
+const DEFAULTS = {
+  turnThreshold: 0.35,
+  slouchDrop: 0.12,
+  baselineSamples: 8
+};
+
+// Head yaw proxy: how far the nose sits from the midpoint between the eyes.
+// Without landmarks we can't tell a head turn apart, so the sample counts as facing the camera.
+const estimateYaw = (obs: FaceObservation): number | null => {
+  if (obs.leftEye && obs.rightEye && obs.nose) {
+    const eyeDistance = Math.abs(obs.rightEye.x - obs.leftEye.x);
+    if (eyeDistance === 0) return null;
+    const mid = (obs.leftEye.x + obs.rightEye.x) / 2;
+    return (obs.nose.x - mid) / eyeDistance;
+  }
+  return null;
+};
+
+export const createGazeTracker = (options: GazeTrackerOptions = {}) => {
+  const turnThreshold = options.turnThreshold ?? DEFAULTS.turnThreshold;
+  const slouchDrop = options.slouchDrop ?? DEFAULTS.slouchDrop;
+  const baselineSamples = options.baselineSamples ?? DEFAULTS.baselineSamples;
+  // Mirrored preview: screen-left is the presenter's left, which is image-right
+  const scriptSign = (options.scriptSide ?? 'left') === 'left' ? 1 : -1;
+
+  let startedAt = 0;
+  let lastTimestamp = 0;
+  let lastState: GazeState = 'camera';
+  let baseline: number[] = [];
+  let durations: Record<GazeState, number> = { camera: 0, script: 0, away: 0, slouching: 0, 'off-frame': 0 };
+  let timeline: GazeSegment[] = [];
+
+  const classify = (obs: FaceObservation | null): GazeState => {
+    if (!obs) return 'off-frame';
+
+    const centerY = obs.box.y + obs.box.height / 2;
+    if (baseline.length < baselineSamples) {
+      baseline.push(centerY);
+    } else {
+      const upright = baseline.reduce((a, b) => a + b, 0) / baseline.length;
+      if (centerY - upright > slouchDrop) return 'slouching';
+    }
+
+    const yaw = estimateYaw(obs);
+    if (yaw !== null && Math.abs(yaw) > turnThreshold) {
+      return yaw * scriptSign > 0 ? 'script' : 'away';
+    }
+    return 'camera';
+  };
+
+  const record = (state: GazeState, timestamp: number) => {
+    // The first sample also covers the time since start
+    if (timeline.length === 0) lastState = state;
+    const elapsed = Math.max(0, timestamp - lastTimestamp);
+    durations[lastState] += elapsed;
+    lastTimestamp = timestamp;
+
+    const at = (timestamp - startedAt) / 1000;
+    const current = timeline[timeline.length - 1];
+    if (current && current.state === state) {
+      current.end = at;
+    } else {
+      if (current) current.end = at;
+      timeline.push({ state, start: current ? at : 0, end: at });
+    }
+    lastState = state;
+  };
+
+  const eyeContactPercent = () => {
+    const total = Object.values(durations).reduce((a, b) => a + b, 0);
+    return total > 0 ? Math.round((durations.camera / total) * 100) : 0;
+  };
+
+  const countEpisodes = (state: GazeState) => timeline.filter(s => s.state === state).length;
+
+  return {
+    start: (timestamp: number) => {
+      startedAt = timestamp;
+      lastTimestamp = timestamp;
+      lastState = 'camera';
+      baseline = [];
+      durations = { camera: 0, script: 0, away: 0, slouching: 0, 'off-frame': 0 };
+      timeline = [];
+    },
+
+    pushObservation: (obs: FaceObservation | null, timestamp: number): GazeState => {
+      const state = classify(obs);
+      record(state, timestamp);
+      return state;
+    },
+
+    snapshot: (): LiveAttention => ({ state: lastState, eyeContact: eyeContactPercent() }),
+
+    finish: (now: number): AttentionSummary => {
+      record(lastState, now);
+      return {
+        eyeContact: eyeContactPercent(),
+        timeline: timeline.filter(s => s.end > s.start),
+        scriptGlances: countEpisodes('script'),
+        slouchMoments: countEpisodes('slouching'),
+        offFrameMoments: countEpisodes('off-frame')
+      };
+    }
+  };
+};
+
+export type GazeTracker = ReturnType<typeof createGazeTracker>;
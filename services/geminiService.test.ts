@@ -0,0 +1,51 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { HackathonData } from "../types";
+
+const generateStrategy = vi.fn();
+vi.mock("./providers", () => ({ getProvider: () => ({ name: 'mock', videoCapability: 'none', generateStrategy }) }));
+
+const { regenerateStrategy } = await import("./geminiService");
+
+const profile: HackathonData = {
+  title: "HackX",
+  url: "",
+  judges: [],
+  criteria: [],
+  strategy: { structure: [], keyPhrases: [], featuresToEmphasize: [], generatedScript: "Old script" }
+};
+
+const strategy = { structure: [{ time: "0:00", action: "Hook" }], keyPhrases: ["fast"], featuresToEmphasize: ["Sync"], generatedScript: "New script" };
+
+describe("re-asking on invalid responses", () => {
+  beforeEach(() => {
+    generateStrategy.mockReset();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it("asks once more with the missing fields and keeps the better answer", async () => {
+    generateStrategy
+      .mockResolvedValueOnce({ ...strategy, generatedScript: "" })
+      .mockResolvedValueOnce(strategy);
+
+    await expect(regenerateStrategy(profile)).resolves.toEqual(strategy);
+    expect(generateStrategy).toHaveBeenCalledTimes(2);
+    expect(generateStrategy.mock.calls[0][1]).toBeUndefined();
+    expect(generateStrategy.mock.calls[1][1]).toContain("generatedScript");
+  });
+
+  it("keeps the repaired first answer when the re-ask is worse", async () => {
+    generateStrategy
+      .mockResolvedValueOnce({ ...strategy, generatedScript: "" })
+      .mockResolvedValueOnce({});
+
+    const result = await regenerateStrategy(profile);
+    expect(result.keyPhrases).toEqual(["fast"]);
+    expect(result.generatedScript).toMatch(/incomplete/);
+  });
+
+  it("doesn't re-ask for a complete answer", async () => {
+    generateStrategy.mockResolvedValueOnce(strategy);
+    await regenerateStrategy(profile);
+    expect(generateStrategy).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,262 +1,256 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { HackathonData, AnalysisResult } from "../types";
+import { HackathonData, HackathonSource, AnalysisResult, Judge, QaGrade, GroundingSource, TakeContext, CoachingContext, ScriptRewrite, ScriptRewriteRequest } from "../types";
+import { getProvider, StreamListener } from "./providers";
+import { applyRubricScore } from "./rubric";
+import { applyOvertimePenalty, formatOf } from "./demoFormat";
+import { attachProvenance } from "./provenance";
+import { INLINE_VIDEO_BYTES, VideoInput, VideoPrepProgress, blobToBase64, containerType, reduceVideo } from "./media";
+import { DEFAULT_POLICY, requestWithRetry } from "./aiRequest";
+import { AIError, createAIError, describeAIError, toAIError } from "./aiErrors";
+import { AnalysisProgressEvent, createProgressTracker, describeSource } from "./analysisProgress";
+import { ValidationResult, validateHackathonData, validateStrategy, validateScriptRewrite, validateAnalysisResult, validateQaGrade, needsReask, formatRepairs } from "./validation";
 
-// Initialize Gemini Client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Entry point used by the UI. The actual model calls live in ./providers and
+// are selected with AI_PROVIDER (gemini | mock | openai), see vite.config.ts.
+//
+// Every call goes through requestWithRetry (timeouts, backoff, cancellation)
+// and rejects with an AIError from ./aiErrors; describeAIError turns that into
+// a message for the UI.
 
-// Models
-// Using gemini-2.0-flash-exp as requested by user. 
-// If this fails in your specific environment, try 'gemini-1.5-flash' or 'gemini-1.5-pro'.
-const MODEL_FAST = 'gemini-2.0-flash-exp'; 
-const MODEL_REASONING = 'gemini-2.0-flash-exp';
+// One automatic re-ask when validation had to invent missing fields.
+// Disable with AI_REASK=false to save a request.
+const REASK_ON_INVALID = process.env.AI_REASK !== 'false';
 
-export const analyzeHackathonUrl = async (url: string): Promise<HackathonData> => {
-  try {
-    const prompt = `
-      I need to analyze a hackathon from this URL: ${url}.
-      
-      TASK:
-      1. Use Google Search to find the specific Hackathon event details. 
-      2. IF the URL is a Luma/Devpost link, try to find the "Judges" section.
-      3. CRITICAL: IF specific judges are NOT listed on the page or found via search, you MUST create 3 "Archetype Judges" based on the hackathon theme.
-         - Example Archetypes: "The Technical Lead", "The VC Investor", "The Product Designer".
-         - Do NOT return an empty judges list. I need exactly 3 profiles if none are found.
-      4. For each judge (real or inferred):
-         - Search/Predict their professional background.
-         - Identify values, red flags, and talking points.
-      
-      5. Generate a "Winning Demo Strategy" containing:
-         - A generatedScript (3 mins long).
-         - Key phrases to use.
-         - A structure (timeline).
+// Live coaching tips are only useful right away: no retries, short timeout
+const COACHING_POLICY = { timeoutMs: 8_000, retries: 0 };
 
-      OUTPUT:
-      Return strictly valid JSON matching the schema.
-    `;
+interface FetchHooks {
+  signal?: AbortSignal;
+  onRetry?: (error: AIError, delayMs: number) => void;
+  onReask?: (missingFields: number) => void;
+}
 
-    const response = await ai.models.generateContent({
-      model: MODEL_REASONING,
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }], // Explicitly enable search
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            title: { type: Type.STRING },
-            url: { type: Type.STRING },
-            criteria: { type: Type.ARRAY, items: { type: Type.STRING } },
-            judges: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  name: { type: Type.STRING },
-                  role: { type: Type.STRING },
-                  company: { type: Type.STRING },
-                  values: { type: Type.ARRAY, items: { type: Type.STRING } },
-                  focusAreas: { type: Type.ARRAY, items: { type: Type.STRING } },
-                  redFlags: { type: Type.ARRAY, items: { type: Type.STRING } },
-                  recommendedTalkingPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
-                }
-              }
-            },
-            strategy: {
-              type: Type.OBJECT,
-              properties: {
-                structure: {
-                  type: Type.ARRAY,
-                  items: {
-                    type: Type.OBJECT,
-                    properties: {
-                      time: { type: Type.STRING },
-                      action: { type: Type.STRING }
-                    }
-                  }
-                },
-                keyPhrases: { type: Type.ARRAY, items: { type: Type.STRING } },
-                featuresToEmphasize: { type: Type.ARRAY, items: { type: Type.STRING } },
-                generatedScript: { type: Type.STRING }
-              }
-            }
-          }
-        }
-      }
-    });
+const fetchValidated = async <T,>(
+  label: string,
+  request: (correction: string | undefined, signal: AbortSignal) => Promise<unknown>,
+  validate: (input: unknown) => ValidationResult<T>,
+  hooks: FetchHooks = {}
+): Promise<T> => {
+  const send = (correction?: string) => requestWithRetry(label, s => request(correction, s), { signal: hooks.signal, onRetry: hooks.onRetry });
+  let checked = validate(await send());
 
-    if (response.text) {
-      let data: HackathonData;
-      try {
-          data = JSON.parse(response.text) as HackathonData;
-      } catch (e) {
-          console.error("Failed to parse JSON", e);
-          throw new Error("Invalid JSON response from AI");
-      }
-      
-      // Data Sanitation to prevent crashes
-      if (!data.judges || !Array.isArray(data.judges) || data.judges.length === 0) {
-           // Fallback if AI ignores instructions
-           data.judges = [
-               {
-                   name: "The Technical Judge",
-                   role: "Senior Engineer",
-                   company: "Tech Corp",
-                   values: ["Clean Code", "Scalability"],
-                   focusAreas: ["Architecture", "Stack choice"],
-                   redFlags: ["Spaghetti code", "Security flaws"],
-                   recommendedTalkingPoints: ["Mention your tech stack", "Explain how it scales"]
-               },
-               {
-                   name: "The Product Judge",
-                   role: "Product Manager",
-                   company: "Innovation Inc",
-                   values: ["User Experience", "Problem/Solution Fit"],
-                   focusAreas: ["UI/UX", "User Journey"],
-                   redFlags: ["Confusing UI", "No clear problem statement"],
-                   recommendedTalkingPoints: ["Show the user flow", "Explain the 'Why'"]
-               }
-           ];
-      }
+  if (REASK_ON_INVALID && needsReask(checked.repairs)) {
+    const correction = formatRepairs(checked.repairs);
+    console.warn(`${label} failed validation, re-asking model:\n${correction}`);
+    hooks.onReask?.(checked.repairs.filter(r => r.kind === 'defaulted').length);
+    try {
+      const retried = validate(await send(correction));
+      // Keep whichever attempt needed fewer repairs
+      if (retried.repairs.length <= checked.repairs.length) checked = retried;
+    } catch (e) {
+      if (toAIError(e).kind === 'cancelled') throw e;
+      console.warn(`${label} re-ask failed, using repaired first response`, e);
+    }
+  }
 
-      if (!data.strategy) {
-          data.strategy = {
-              structure: [],
-              keyPhrases: [],
-              featuresToEmphasize: [],
-              generatedScript: "Could not generate script. Please try analyzing again."
-          };
+  if (checked.repairs.length > 0) {
+    console.warn(`${label} repaired ${checked.repairs.length} field(s)`, checked.repairs);
+  }
+  return checked.value;
+};
+
+// Normalizes the error and keeps cancellations out of the error log
+const rethrow = (message: string, error: unknown): never => {
+  const aiError = toAIError(error);
+  if (aiError.kind !== 'cancelled') console.error(message, aiError);
+  throw aiError;
+};
+
+// The analysis streams; onProgress receives stage changes as the model reaches
+// them, plus every web source it cites (see ./analysisProgress). Those same
+// sources are used to check the URLs each judge profile cites (./provenance).
+export const analyzeHackathon = async (
+  source: HackathonSource,
+  options: { signal?: AbortSignal; onProgress?: (event: AnalysisProgressEvent) => void } = {}
+): Promise<HackathonData> => {
+  const emit = options.onProgress ?? (() => {});
+  const grounding: GroundingSource[] = [];
+  try {
+    const provider = getProvider();
+    const validated = await fetchValidated(
+      "HackathonData",
+      (correction, s) => {
+        // Fresh tracker per attempt: a retry really does start over
+        const tracker = createProgressTracker(emit);
+        const listener: StreamListener = {
+          onText: tracker.pushText,
+          onSources: (sources) => {
+            grounding.push(...sources);
+            tracker.pushSources(sources);
+          }
+        };
+        emit({ stage: 'event', message: describeSource(source) });
+        return provider.analyzeHackathon(source, correction, s, listener);
+      },
+      validateHackathonData,
+      {
+        signal: options.signal,
+        onRetry: (error, delayMs) => emit({ stage: 'retrying', message: `${describeAIError(error).title} Retrying in ${Math.ceil(delayMs / 1000)}s` }),
+        onReask: (missing) => emit({ stage: 'retrying', message: `Response was missing ${missing} field(s), asking the model to fill them in` })
       }
-      
-      // Ensure strategy sub-properties exist
-      if (!data.strategy.generatedScript) data.strategy.generatedScript = "Script generation incomplete.";
-      if (!data.strategy.structure) data.strategy.structure = [];
-      if (!data.strategy.keyPhrases) data.strategy.keyPhrases = [];
-      
-      return data;
-    }
-    throw new Error("No data returned from Gemini");
+    );
+    const data = attachProvenance(validated, { source, grounding });
+    emit({ stage: 'done', message: `Found ${data.judges.length} judge(s) and ${data.criteria.length} criteria` });
+    // Kept on the profile so strategy regeneration still knows what we built and
+    // the recorder and verdict know the time limit
+    const projectDescription = source.projectDescription.trim();
+    return projectDescription ? { ...data, projectDescription, format: source.format } : { ...data, format: source.format };
   } catch (error) {
-    console.error("Hackathon Analysis Failed:", error);
-    throw error;
+    return rethrow("Hackathon Analysis Failed:", error);
   }
 };
 
-export const analyzeVideoDemo = async (videoBlob: Blob, hackathonData: HackathonData): Promise<AnalysisResult> => {
+// Re-plans only the strategy for a hand-corrected profile; judges and rubric are kept as-is.
+export const regenerateStrategy = async (hackathonData: HackathonData, signal?: AbortSignal): Promise<HackathonData['strategy']> => {
   try {
-    // Convert Blob to Base64
-    const base64Video = await blobToBase64(videoBlob);
-    
-    // Fallback if judges is empty (shouldn't happen with sanitation above)
-    const judgesList = hackathonData.judges && hackathonData.judges.length > 0 
-        ? hackathonData.judges.map(j => j.name).join(', ')
-        : "Standard Hackathon Judges";
+    const provider = getProvider();
+    return await fetchValidated(
+      "Strategy",
+      (correction, s) => provider.generateStrategy(hackathonData, correction, s),
+      validateStrategy,
+      { signal }
+    );
+  } catch (error) {
+    return rethrow("Strategy Generation Failed", error);
+  }
+};
 
-    const prompt = `
-      Analyze this hackathon demo video. 
-      Context: This is a submission for ${hackathonData.title}.
-      Judges are: ${judgesList}.
-      Criteria: ${hackathonData.criteria?.join(', ') || 'General Hackathon Criteria'}.
+// One instruction applied to the current script (components/ScriptWorkshop.tsx).
+// An empty script after the re-ask is an error: the caller keeps its version.
+export const rewriteScript = async (hackathonData: HackathonData, request: ScriptRewriteRequest, signal?: AbortSignal): Promise<ScriptRewrite> => {
+  try {
+    const provider = getProvider();
+    const rewrite = await fetchValidated(
+      "ScriptRewrite",
+      (correction, s) => provider.rewriteScript(hackathonData, request, correction, s),
+      validateScriptRewrite,
+      { signal }
+    );
+    if (!rewrite.script.trim()) throw createAIError('invalid-json', "The rewrite came back empty");
+    return rewrite;
+  } catch (error) {
+    return rethrow("Script Rewrite Failed", error);
+  }
+};
 
-      Provide a strict judging analysis.
-      1. Give an overall score out of 100.
-      2. List 3-5 specific strengths.
-      3. List 3-5 specific areas for improvement with timestamps if possible.
-      4. For each judge listed above, predict exactly what they would say based on their background and this video.
-      5. Generate 5 likely Q&A questions these specific judges would ask.
+// Uploads are slow on venue Wi-Fi: allow ~100 KB/s on top of the usual timeout
+const uploadPolicy = (sizeBytes: number) => ({ timeoutMs: DEFAULT_POLICY.timeoutMs + sizeBytes / 100 });
 
-      Return strictly valid JSON.
-    `;
+// Picks inline, upload or audio + keyframes for this take (see ./media). Done
+// once per analysis so retries and re-asks reuse the same upload.
+const prepareVideo = async (
+  videoBlob: Blob,
+  options: { signal?: AbortSignal; duration?: number; onProgress: (progress: VideoPrepProgress) => void }
+): Promise<VideoInput> => {
+  const provider = getProvider();
+  const mimeType = containerType(videoBlob.type);
+  const sizeBytes = videoBlob.size;
+  const sizeMb = (sizeBytes / 1024 / 1024).toFixed(1);
 
-    const response = await ai.models.generateContent({
-      model: MODEL_FAST,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: "video/mp4", // Assuming recorded as compatible format, usually webm/mp4
-              data: base64Video
-            }
-          },
-          { text: prompt }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            overallScore: { type: Type.NUMBER },
-            strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
-            improvements: { type: Type.ARRAY, items: { type: Type.STRING } },
-            judgeSpecificFeedback: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  judgeName: { type: Type.STRING },
-                  feedback: { type: Type.STRING }
-                }
-              }
-            },
-            qaQuestions: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  question: { type: Type.STRING }
-                }
-              }
-            }
-          }
-        }
-      }
-    });
+  if (provider.videoCapability === 'none') return { kind: 'metadata', mimeType, sizeBytes };
+
+  if (sizeBytes <= INLINE_VIDEO_BYTES) {
+    options.onProgress({ stage: 'encoding', message: `Preparing ${sizeMb} MB recording` });
+    return { kind: 'inline', mimeType, sizeBytes, media: { mimeType, data: await blobToBase64(videoBlob) } };
+  }
 
-    if (response.text) {
-      return JSON.parse(response.text) as AnalysisResult;
+  if (provider.uploadVideo) {
+    const upload = provider.uploadVideo;
+    try {
+      const { uri, name } = await requestWithRetry(
+        "VideoUpload",
+        s => upload(videoBlob, mimeType, fraction => options.onProgress({
+          stage: fraction < 1 ? 'uploading' : 'processing',
+          message: fraction < 1 ? `Uploading ${sizeMb} MB recording` : 'Waiting for the video to be processed',
+          fraction: fraction < 1 ? fraction : undefined
+        }), s),
+        { signal: options.signal, policy: uploadPolicy(sizeBytes) }
+      );
+      return { kind: 'file', mimeType, sizeBytes, uri, name };
+    } catch (e) {
+      if (toAIError(e).kind === 'cancelled') throw e;
+      console.warn("Video upload failed, sending audio and keyframes instead", e);
     }
-    throw new Error("Analysis failed");
+  }
 
-  } catch (error) {
-    console.error("Video Analysis Failed", error);
-    throw error;
+  try {
+    return await reduceVideo(videoBlob, { durationHint: options.duration, signal: options.signal, onProgress: options.onProgress });
+  } catch (e) {
+    if (options.signal?.aborted) throw createAIError('cancelled', 'Request cancelled', { cause: e });
+    throw createAIError('unknown', `Couldn't prepare the ${sizeMb} MB recording for analysis`, { cause: e });
   }
-}
+};
 
-export const getRealTimeFeedback = async (transcript: string, wpm: number): Promise<string> => {
+// duration is the measured recording length, used when the file doesn't report one.
+// layout marks screen-share takes so feedback can cover the product on screen;
+// the live transcript gives the model what was said without relying on the audio;
+// team marks takes split between presenters, with their hand-offs. Takes over
+// the format's time limit lose points after the rubric score (./demoFormat).
+export const analyzeVideoDemo = async (
+  videoBlob: Blob,
+  hackathonData: HackathonData,
+  options: { signal?: AbortSignal; duration?: number; onProgress?: (progress: VideoPrepProgress) => void } & TakeContext = {}
+): Promise<AnalysisResult> => {
+  const report = options.onProgress ?? (() => {});
+  try {
+    const provider = getProvider();
+    const prepared = await prepareVideo(videoBlob, { signal: options.signal, duration: options.duration, onProgress: report });
+    const duration = options.duration ?? (prepared.kind === 'reduced' ? prepared.duration : undefined);
+    const video: VideoInput = { ...prepared, layout: options.layout, transcript: options.transcript, team: options.team, duration };
     try {
-        const prompt = `
-        You are an intense but helpful hackathon coach named Jarvis.
-        The presenter is speaking at ${wpm} words per minute.
-        Here is their latest sentence: "${transcript}".
-        
-        Give a ONE sentence, punchy coaching tip. 
-        Examples: "Slow down, you're losing clarity!", "Great energy, keep it up!", "Explain the 'Why' before the 'How'!".
-        If the WPM is > 160, tell them to slow down. If < 110, tell them to speed up.
-        `;
-
-        const response = await ai.models.generateContent({
-            model: MODEL_FAST,
-            contents: prompt,
-            config: {
-                maxOutputTokens: 30,
-            }
-        });
-        return response.text || "Keep going!";
-    } catch (e) {
-        return "Keep going!";
+      report({ stage: 'analyzing', message: 'Reviewing judge profiles against your demo' });
+      const result = await fetchValidated(
+        "AnalysisResult",
+        (correction, s) => provider.analyzeVideo(video, hackathonData, correction, s),
+        validateAnalysisResult,
+        {
+          signal: options.signal,
+          onRetry: (error, delayMs) => report({ stage: 'analyzing', message: `${describeAIError(error).title} Retrying in ${Math.ceil(delayMs / 1000)}s` })
+        }
+      );
+      return applyOvertimePenalty(applyRubricScore(result, hackathonData.criteria), formatOf(hackathonData), duration);
+    } finally {
+      // An upload is only needed for this analysis; a retry uploads again
+      if (prepared.kind === 'file' && provider.deleteVideo) {
+        provider.deleteVideo(prepared.name).catch(e => console.warn("Couldn't delete the uploaded video", e));
+      }
     }
-}
+  } catch (error) {
+    return rethrow("Video Analysis Failed", error);
+  }
+};
+
+export const gradeQaAnswer = async (question: string, answer: string, judge?: Judge, signal?: AbortSignal): Promise<QaGrade> => {
+  try {
+    const provider = getProvider();
+    return await fetchValidated(
+      "QaGrade",
+      (correction, s) => provider.gradeQaAnswer(question, answer, judge, correction, s),
+      validateQaGrade,
+      { signal }
+    );
+  } catch (error) {
+    return rethrow("Q&A Grading Failed", error);
+  }
+};
 
-// Helper to convert Blob to Base64
-function blobToBase64(blob: Blob): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64String = (reader.result as string).split(',')[1];
-      resolve(base64String);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
-  });
-}
\ No newline at end of file
+export const getRealTimeFeedback = async (context: CoachingContext, signal?: AbortSignal): Promise<string> => {
+  try {
+    return await requestWithRetry(
+      "CoachingTip",
+      s => getProvider().getCoachingTip(context, s),
+      { signal, policy: COACHING_POLICY }
+    );
+  } catch (error) {
+    return rethrow("Coaching Tip Failed", error);
+  }
+};
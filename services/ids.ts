@@ -0,0 +1,5 @@
+// Ids for anything stored locally (sessions, script versions). randomUUID
+// needs a secure context, so plain-http dev servers on a LAN get a fallback.
+
+export const newId = (): string =>
+  typeof crypto.randomUUID === 'function' ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
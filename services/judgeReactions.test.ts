@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { Judge } from "../types";
+import { createJudgePanel, keywords, positiveCounterpart } from "./judgeReactions";
+
+const T0 = 1_000_000;
+
+const judge = (name: string, redFlags: string[], recommendedTalkingPoints: string[] = []): Judge => ({
+  name,
+  role: "Judge",
+  company: "",
+  values: [],
+  focusAreas: [],
+  redFlags,
+  recommendedTalkingPoints
+});
+
+describe("keywords", () => {
+  it("drops stop words and short words and stems the rest", () => {
+    expect(keywords("How does it scale with more users?")).toEqual(['do', 'scale', 'more', 'user']);
+  });
+});
+
+describe("positiveCounterpart", () => {
+  it("turns an absence into what the presenter should say", () => {
+    expect(positiveCounterpart("No clear problem statement")).toBe("clear problem statement");
+    expect(positiveCounterpart("Lack of user research")).toBe("user research");
+    expect(positiveCounterpart("Demo doesn't work")).toBe("Demo does work");
+  });
+
+  it("leaves flags about what the presenter does alone", () => {
+    expect(positiveCounterpart("Spaghetti code")).toBeNull();
+  });
+});
+
+describe("createJudgePanel", () => {
+  it("nods instead of objecting when a missing thing is delivered", () => {
+    const panel = createJudgePanel([judge("Ada", ["No clear problem statement"])]);
+    const reactions = panel.pushTranscript("our problem statement is clear", T0);
+    expect(reactions).toEqual([expect.objectContaining({ judgeName: "Ada", kind: 'nod', trigger: "clear problem statement" })]);
+  });
+
+  it("objects once 60% of a red flag's keywords are in the window", () => {
+    // spaghetti, code, security, flaw: three of four are needed
+    const panel = createJudgePanel([judge("Ada", ["Spaghetti code security flaws"])]);
+    expect(panel.pushTranscript("our code has security reviews", T0)).toEqual([]);
+    const [reaction] = panel.pushTranscript("and no known flaws", T0 + 1_000);
+    expect(reaction).toMatchObject({ kind: 'objection', trigger: "Spaghetti code security flaws" });
+    expect(reaction.line).toContain("Spaghetti code security flaws");
+  });
+
+  it("forgets words that scrolled out of the window", () => {
+    const panel = createJudgePanel([judge("Ada", ["Spaghetti code"])], { windowWords: 3 });
+    panel.pushTranscript("spaghetti", T0);
+    panel.pushTranscript("lots of other words here", T0 + 1_000);
+    expect(panel.pushTranscript("code", T0 + 2_000)).toEqual([]);
+  });
+
+  it("lets each judge react once per cooldown", () => {
+    const panel = createJudgePanel([judge("Ada", ["Spaghetti code"], ["Mention the database"]), judge("Bo", ["Confusing interface"])]);
+    const first = panel.pushTranscript("spaghetti code in the database behind a confusing interface", T0);
+    expect(first.map(r => r.judgeName)).toEqual(["Ada", "Bo"]);
+    expect(panel.pushTranscript("database", T0 + 5_000)).toEqual([]);
+    expect(panel.pushTranscript("database", T0 + 9_000)).toEqual([expect.objectContaining({ judgeName: "Ada", kind: 'nod' })]);
+  });
+
+  it("fires each item once until reset", () => {
+    const panel = createJudgePanel([judge("Ada", ["Spaghetti code"])]);
+    expect(panel.pushTranscript("spaghetti code", T0)).toHaveLength(1);
+    expect(panel.pushTranscript("spaghetti code", T0 + 60_000)).toEqual([]);
+    panel.reset();
+    expect(panel.pushTranscript("spaghetti code", T0 + 70_000)).toHaveLength(1);
+  });
+
+  it("ignores items that are a single short keyword", () => {
+    const panel = createJudgePanel([judge("Ada", [], ["API"])]);
+    expect(panel.pushTranscript("our API is great", T0)).toEqual([]);
+  });
+});
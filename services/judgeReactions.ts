@@ -0,0 +1,125 @@
+import { Judge } from "../types";
+
+// "Hot seat" engine: matches the live transcript against each judge's
+// redFlags and recommendedTalkingPoints and emits reactions (objections and
+// nods). Purely local keyword matching so reactions land instantly and work
+// offline; each item fires at most once per run.
+//
+// Keywords drop negations, so a red flag that names an absence ("No clear
+// problem statement") would object to the presenter doing exactly the right
+// thing. Those flags are matched on their positive counterpart instead, and
+// hearing it earns a nod.
+
+export type JudgeReactionKind = 'objection' | 'nod';
+
+export interface JudgeReaction {
+  judgeName: string;
+  kind: JudgeReactionKind;
+  // The redFlag / talking point that fired
+  trigger: string;
+  // What the judge says (objections) or shows (nods)
+  line: string;
+  timestamp: number;
+}
+
+export interface JudgePanelOptions {
+  // How many recent words are searched for a match
+  windowWords?: number;
+  // Share of an item's keywords that must appear in the window
+  matchRatio?: number;
+  // Minimum gap between two reactions from the same judge
+  cooldownMs?: number;
+}
+
+const DEFAULTS = {
+  windowWords: 40,
+  matchRatio: 0.6,
+  cooldownMs: 8000
+};
+
+const STOP_WORDS = new Set(['the', 'a', 'an', 'and', 'or', 'to', 'of', 'in', 'on', 'for', 'with', 'is', 'are', 'was', 'your', 'you', 'it', 'this', 'that', 'how', 'what', 'why', 'about', 'no', 'not', 'we', 'our', 'its', 'be', 'mention', 'explain', 'show']);
+
+// Crude stemming is enough to match "scaling" with "scales"
+export const stem = (word: string) => word.replace(/(ing|ed|es|s)$/, '');
+
+const NEGATION = /\b(?:no|not|never|without|lack of|lacks?|lacking|missing|absence of)\b|n't\b/gi;
+
+// "No clear problem statement" -> "clear problem statement"; null for flags
+// that describe something the presenter does ("Spaghetti code")
+export const positiveCounterpart = (flag: string): string | null => {
+  const positive = flag.replace(NEGATION, ' ').replace(/\s+/g, ' ').trim();
+  return positive !== flag.trim() && positive ? positive : null;
+};
+
+export const keywords = (text: string): string[] =>
+  text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/)
+    .filter(w => w.length > 2 && !STOP_WORDS.has(w))
+    .map(stem);
+
+const OBJECTIONS = [
+  (flag: string) => `Hold on. ${flag}? That's a red flag for me.`,
+  (flag: string) => `I have to stop you there. I'm worried about ${flag.toLowerCase()}.`,
+  (flag: string) => `Wait, that sounds like ${flag.toLowerCase()}. Convince me otherwise.`
+];
+
+interface Item {
+  judgeName: string;
+  kind: JudgeReactionKind;
+  text: string;
+  keys: string[];
+  fired: boolean;
+}
+
+export const createJudgePanel = (judges: Judge[], options: JudgePanelOptions = {}) => {
+  const windowWords = options.windowWords ?? DEFAULTS.windowWords;
+  const matchRatio = options.matchRatio ?? DEFAULTS.matchRatio;
+  const cooldownMs = options.cooldownMs ?? DEFAULTS.cooldownMs;
+
+  // A lone short keyword ("now", "API") would fire on almost anything, so such items are dropped
+  const items: Item[] = judges.flatMap(j => [
+    ...j.redFlags.map((flag): Item => {
+      const positive = positiveCounterpart(flag);
+      return positive
+        ? { judgeName: j.name, kind: 'nod', text: positive, keys: keywords(positive), fired: false }
+        : { judgeName: j.name, kind: 'objection', text: flag, keys: keywords(flag), fired: false };
+    }),
+    ...j.recommendedTalkingPoints.map(text => ({ judgeName: j.name, kind: 'nod' as const, text, keys: keywords(text), fired: false }))
+  ]).filter(item => item.keys.length > 1 || (item.keys.length === 1 && item.keys[0].length >= 5));
+
+  let recent: string[] = [];
+  let lastReaction: Record<string, number> = {};
+  let objectionCount = 0;
+
+  return {
+    reset: () => {
+      recent = [];
+      lastReaction = {};
+      objectionCount = 0;
+      items.forEach(item => { item.fired = false; });
+    },
+
+    // Feed finalized transcript chunks; returns the reactions they caused
+    pushTranscript: (text: string, timestamp: number): JudgeReaction[] => {
+      recent = [...recent, ...keywords(text)].slice(-windowWords);
+      const window = new Set(recent);
+      const reactions: JudgeReaction[] = [];
+
+      for (const item of items) {
+        if (item.fired) continue;
+        if (timestamp - (lastReaction[item.judgeName] ?? -Infinity) < cooldownMs) continue;
+        const hits = item.keys.filter(k => window.has(k)).length;
+        if (hits / item.keys.length < matchRatio) continue;
+
+        item.fired = true;
+        lastReaction[item.judgeName] = timestamp;
+        const line = item.kind === 'objection'
+          ? OBJECTIONS[objectionCount++ % OBJECTIONS.length](item.text)
+          : item.text;
+        reactions.push({ judgeName: item.judgeName, kind: item.kind, trigger: item.text, line, timestamp });
+      }
+      return reactions;
+    }
+  };
+};
+
+export type JudgePanel = ReturnType<typeof createJudgePanel>;
@@ -0,0 +1,130 @@
+import { AnalysisResult, HackathonData } from "../types";
+import { computeRubricBreakdown, rubricOrDefault, weightShares } from "./rubric";
+
+// One-page "judging brief" for the team: who is judging, what they care about,
+// how we're scored and the script. Built once as sections, then rendered to
+// Markdown (for chat/docs) or HTML (for printing to PDF).
+
+interface BriefSection {
+  heading: string;
+  paragraphs?: string[];
+  // Bulleted items; `label` is rendered bold before the text
+  items?: { label?: string; text: string }[];
+}
+
+export interface JudgingBrief {
+  title: string;
+  subtitle: string;
+  sections: BriefSection[];
+}
+
+export const buildJudgingBrief = (hackathon: HackathonData, latest?: AnalysisResult | null): JudgingBrief => {
+  const rubric = rubricOrDefault(hackathon.criteria);
+  const shares = weightShares(rubric);
+  const sections: BriefSection[] = [];
+
+  if (hackathon.projectDescription?.trim()) {
+    sections.push({ heading: "Our Project", paragraphs: [hackathon.projectDescription.trim()] });
+  }
+
+  sections.push({
+    heading: "The Panel",
+    items: hackathon.judges.map(j => ({
+      label: `${j.name}${j.role ? `, ${j.role}` : ''}${j.company ? ` @ ${j.company}` : ''}`,
+      text: [
+        j.provenance?.origin === 'archetype' ? 'Archetype (no real judge found).' : '',
+        j.values.length ? `Values: ${j.values.join(', ')}.` : '',
+        j.redFlags.length ? `Red flags: ${j.redFlags.join(', ')}.` : '',
+        j.recommendedTalkingPoints.length ? `Say: ${j.recommendedTalkingPoints.join('; ')}.` : ''
+      ].filter(Boolean).join(' ')
+    }))
+  });
+
+  sections.push({
+    heading: "Rubric",
+    items: rubric.map((c, i) => ({
+      label: `${c.name} (${Math.round(shares[i])}%, /${c.scale})`,
+      text: c.description
+    }))
+  });
+
+  const { structure, keyPhrases, featuresToEmphasize, generatedScript } = hackathon.strategy;
+  if (structure.length > 0) {
+    sections.push({ heading: "Run of Show", items: structure.map(s => ({ label: s.time, text: s.action })) });
+  }
+  if (keyPhrases.length > 0 || featuresToEmphasize.length > 0) {
+    sections.push({
+      heading: "Hit These",
+      items: [
+        ...featuresToEmphasize.map(f => ({ label: 'Feature', text: f })),
+        ...keyPhrases.map(p => ({ label: 'Phrase', text: p }))
+      ]
+    });
+  }
+  sections.push({ heading: "Script", paragraphs: generatedScript.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean) });
+
+  if (latest) {
+    const breakdown = computeRubricBreakdown(hackathon.criteria, latest.rubricScores);
+    sections.push({
+      heading: `Latest Verdict: ${latest.overallScore}/100`,
+      items: [
+        ...breakdown.criteria
+          .filter(c => c.averageScore !== null)
+          .map(c => ({ label: c.criterion.name, text: `${c.averageScore!.toFixed(1)}/${c.criterion.scale}` })),
+        ...latest.improvements.map(text => ({ label: 'Fix', text }))
+      ]
+    });
+    if (latest.qaQuestions.length > 0) {
+      sections.push({
+        heading: "Expected Questions",
+        items: latest.qaQuestions.map(q => ({ label: q.judgeName, text: q.question }))
+      });
+    }
+  }
+
+  return {
+    title: `${hackathon.title}: Judging Brief`,
+    subtitle: hackathon.url,
+    sections
+  };
+};
+
+export const renderBriefMarkdown = (brief: JudgingBrief): string => {
+  const lines = [`# ${brief.title}`, ''];
+  if (brief.subtitle) lines.push(brief.subtitle, '');
+  for (const section of brief.sections) {
+    lines.push(`## ${section.heading}`, '');
+    for (const p of section.paragraphs ?? []) lines.push(p, '');
+    for (const item of section.items ?? []) {
+      lines.push(`- ${item.label ? `**${item.label}**${item.text ? ': ' : ''}` : ''}${item.text}`);
+    }
+    if (section.items?.length) lines.push('');
+  }
+  return lines.join('\n');
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const renderBriefHtml = (brief: JudgingBrief): string => {
+  const body = brief.sections.map(section => {
+    const paragraphs = (section.paragraphs ?? []).map(p => `<p>${escapeHtml(p)}</p>`).join('');
+    const items = section.items?.length
+      ? `<ul>${section.items.map(item => `<li>${item.label ? `<strong>${escapeHtml(item.label)}</strong>${item.text ? ': ' : ''}` : ''}${escapeHtml(item.text)}</li>`).join('')}</ul>`
+      : '';
+    return `<h2>${escapeHtml(section.heading)}</h2>${paragraphs}${items}`;
+  }).join('');
+
+  return `<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(brief.title)}</title>
+<style>
+  body { font-family: Georgia, serif; max-width: 720px; margin: 40px auto; color: #1c1917; line-height: 1.5; }
+  h1 { font-size: 28px; margin-bottom: 4px; }
+  h2 { font-size: 18px; border-bottom: 1px solid #e7e5e4; padding-bottom: 4px; margin-top: 28px; }
+  .subtitle { color: #78716c; font-size: 13px; }
+  li { margin-bottom: 6px; }
+  p { white-space: pre-wrap; }
+</style></head><body>
+<h1>${escapeHtml(brief.title)}</h1>${brief.subtitle ? `<div class="subtitle">${escapeHtml(brief.subtitle)}</div>` : ''}
+${body}
+</body></html>`;
+};
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { CoachTick, createCoachScheduler, tipSimilarity, topicOf } from "./liveCoach";
+import { LiveSpeechMetrics } from "./speechMetrics";
+
+const T0 = 1_000_000;
+
+const live = (patch: Partial<LiveSpeechMetrics> = {}): LiveSpeechMetrics => ({
+  rollingWpm: 140,
+  sessionWpm: 140,
+  fillerWords: 0,
+  fillerBreakdown: {},
+  pauses: 0,
+  energyLevel: 50,
+  silenceMs: 0,
+  ...patch
+});
+
+const tick = (seconds: number, patch: Partial<CoachTick> = {}): CoachTick => ({
+  now: T0 + seconds * 1000,
+  live: live(),
+  segment: null,
+  segmentAction: null,
+  overtime: -60,
+  ...patch
+});
+
+const started = (focusAreas: string[] = []) => {
+  const coach = createCoachScheduler(focusAreas);
+  coach.start(T0);
+  return coach;
+};
+
+const speak = (coach: ReturnType<typeof createCoachScheduler>, words: number) =>
+  coach.pushTranscript(Array.from({ length: words }, (_, i) => `word${i}`).join(' '));
+
+describe("rules", () => {
+  it("stays quiet while the take is on track", () => {
+    expect(started().tick(tick(30))).toBeNull();
+  });
+
+  it("puts overtime ahead of pace", () => {
+    const tip = started().tick(tick(30, { overtime: 4, live: live({ rollingWpm: 190 }) }));
+    expect(tip).toMatchObject({ topic: 'timing', source: 'rule' });
+  });
+
+  it("keeps a gap between tips and a cooldown per topic", () => {
+    const coach = started();
+    const fast = { live: live({ rollingWpm: 190 }) };
+    expect(coach.tick(tick(20, fast))?.topic).toBe('pace');
+    expect(coach.tick(tick(24, { live: live({ silenceMs: 8_000 }) }))).toBeNull();
+    expect(coach.tick(tick(35, fast))).toBeNull();
+    expect(coach.tick(tick(40, { live: live({ silenceMs: 8_000 }) }))?.topic).toBe('silence');
+  });
+
+  it("counts fillers over the last 20 seconds only", () => {
+    const coach = started();
+    coach.tick(tick(10, { live: live({ fillerWords: 0 }) }));
+    expect(coach.tick(tick(15, { live: live({ fillerWords: 3 }) }))?.topic).toBe('fillers');
+  });
+});
+
+describe("model tips", () => {
+  it("waits for new speech and the request interval", () => {
+    const coach = started(["Scale"]);
+    expect(coach.requestModelTip(tick(25))).toBeNull();
+    speak(coach, 20);
+    expect(coach.requestModelTip(tick(10))).toBeNull();
+    const request = coach.requestModelTip(tick(25));
+    expect(request?.context.focusAreas).toEqual(["Scale"]);
+    expect(coach.requestModelTip(tick(26))).toBeNull();
+  });
+
+  it("drops stale and superseded answers", () => {
+    const coach = started();
+    speak(coach, 20);
+    const request = coach.requestModelTip(tick(25))!;
+    expect(coach.acceptModelTip(request.id, "Show the dashboard now.", T0 + 40_000)).toBeNull();
+
+    speak(coach, 20);
+    const next = coach.requestModelTip(tick(50))!;
+    expect(coach.acceptModelTip(request.id, "Show the dashboard now.", T0 + 51_000)).toBeNull();
+    expect(coach.acceptModelTip(next.id, "Show the dashboard now.", T0 + 51_000)).toMatchObject({ source: 'model', topic: 'content' });
+  });
+
+  it("drops an answer when a rule spoke first", () => {
+    const coach = started();
+    speak(coach, 20);
+    const request = coach.requestModelTip(tick(25))!;
+    coach.tick(tick(26, { overtime: 2 }));
+    expect(coach.acceptModelTip(request.id, "Show the dashboard now.", T0 + 27_000)).toBeNull();
+  });
+});
+
+describe("helpers", () => {
+  it("tags model tips with a topic", () => {
+    expect(topicOf("Slow down a bit")).toBe('pace');
+    expect(topicOf("Mention the API")).toBe('content');
+  });
+
+  it("scores word overlap", () => {
+    expect(tipSimilarity("Slow down", "slow down!")).toBe(1);
+    expect(tipSimilarity("Slow down", "Show the demo")).toBe(0);
+  });
+});
@@ -0,0 +1,228 @@
+import { CoachingContext } from "../types";
+import { LiveSpeechMetrics, countWords } from "./speechMetrics";
+import { SegmentStatus } from "./segmentPacing";
+
+// Decides what the live coach says and when. Cheap local rules (pace, filler
+// bursts, silence, overtime) run on every tick; model tips are rate limited,
+// tagged with a request id so late or out-of-order answers are dropped, and
+// everything goes through one gap/cooldown/dedupe gate so the presenter never
+// hears "slow down" three times in a row. Pure: SmartMirror owns the clock,
+// the network call and the voice.
+
+export type CoachTopic = 'pace' | 'fillers' | 'silence' | 'timing' | 'content';
+
+export interface CoachTip {
+  text: string;
+  source: 'rule' | 'model';
+  topic: CoachTopic;
+  at: number;
+}
+
+export interface CoachTick {
+  now: number;
+  live: LiveSpeechMetrics;
+  segment: SegmentStatus | null;
+  // Planned action of the segment in `segment.actualIndex`
+  segmentAction: string | null;
+  // Seconds over the whole planned run time; <= 0 while within it
+  overtime: number;
+}
+
+export interface CoachOptions {
+  // Minimum time between any two tips
+  minGapMs: number;
+  // Minimum time between model requests
+  modelIntervalMs: number;
+  // Model answers older than this are dropped; the moment has passed
+  staleMs: number;
+  // Same topic again only after this long
+  topicCooldownMs: number;
+  // Words of new speech needed before asking the model again
+  minNewWords: number;
+}
+
+export const DEFAULT_COACH_OPTIONS: CoachOptions = {
+  minGapMs: 8_000,
+  modelIntervalMs: 20_000,
+  staleMs: 6_000,
+  topicCooldownMs: 30_000,
+  minNewWords: 15
+};
+
+interface Rule {
+  topic: CoachTopic;
+  check: (tick: CoachTick, history: RuleHistory) => string | null;
+}
+
+interface RuleHistory {
+  elapsedMs: number;
+  fillersInLast20s: number;
+}
+
+// Ordered by urgency: the first rule that fires wins the tick
+const RULES: Rule[] = [
+  {
+    topic: 'timing',
+    check: ({ overtime }) => overtime > 0 ? `You're ${Math.round(overtime)}s over time. Wrap up now.` : null
+  },
+  {
+    topic: 'timing',
+    check: ({ segment, segmentAction }) => segment?.pace === 'behind' && segmentAction
+      ? `Running long on "${segmentAction}". Move on.`
+      : null
+  },
+  {
+    topic: 'pace',
+    check: ({ live }, { elapsedMs }) => elapsedMs > 15_000 && live.rollingWpm > 165 ? "Slow down, let the demo breathe." : null
+  },
+  {
+    topic: 'pace',
+    check: ({ live }, { elapsedMs }) => elapsedMs > 20_000 && live.rollingWpm > 0 && live.rollingWpm < 105 ? "Pick up the pace a little." : null
+  },
+  {
+    topic: 'fillers',
+    check: (_, { fillersInLast20s }) => fillersInLast20s >= 3 ? "Too many fillers. Pause instead of saying um." : null
+  },
+  {
+    topic: 'silence',
+    check: ({ live }, { elapsedMs }) => elapsedMs > 10_000 && live.silenceMs > 6_000 ? "Say what's happening on screen while it loads." : null
+  }
+];
+
+// Model tips get a topic too, so a model "slow down" respects the pace cooldown
+const TOPIC_PATTERNS: [CoachTopic, RegExp][] = [
+  ['pace', /\b(slow|speed|pace|fast|faster|rush)/i],
+  ['fillers', /\b(um+|uh+|fillers?)\b/i],
+  ['silence', /\b(silence|dead air|pause)/i],
+  ['timing', /\b(time|wrap|over|move on)\b/i]
+];
+
+export const topicOf = (text: string): CoachTopic =>
+  TOPIC_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? 'content';
+
+const words = (text: string) => new Set(text.toLowerCase().replace(/[^a-z0-9\s']/g, ' ').split(/\s+/).filter(Boolean));
+
+// Jaccard overlap of the word sets; 1 = same words
+export const tipSimilarity = (a: string, b: string): number => {
+  const wa = words(a);
+  const wb = words(b);
+  if (wa.size === 0 || wb.size === 0) return 0;
+  let shared = 0;
+  wa.forEach(w => { if (wb.has(w)) shared++; });
+  return shared / (wa.size + wb.size - shared);
+};
+
+const TRANSCRIPT_WORDS = 150;
+const REPEAT_AFTER_MS = 90_000;
+
+export const createCoachScheduler = (focusAreas: string[], options: Partial<CoachOptions> = {}) => {
+  const opts = { ...DEFAULT_COACH_OPTIONS, ...options };
+  let startedAt = 0;
+  let transcript: string[] = [];
+  let wordsAtLastRequest = 0;
+  let given: CoachTip[] = [];
+  let lastTipAt = -Infinity;
+  let lastRequestAt = -Infinity;
+  let pending: { id: number; at: number } | null = null;
+  let nextRequestId = 1;
+  let fillerSamples: { at: number; count: number }[] = [];
+
+  const lastOfTopic = (topic: CoachTopic) => {
+    for (let i = given.length - 1; i >= 0; i--) if (given[i].topic === topic) return given[i].at;
+    return -Infinity;
+  };
+
+  // The single gate every tip passes through
+  const admit = (text: string, source: CoachTip['source'], topic: CoachTopic, now: number): CoachTip | null => {
+    if (now - lastTipAt < opts.minGapMs) return null;
+    if (now - lastOfTopic(topic) < opts.topicCooldownMs) return null;
+    // Model tips never repeat; a rule may come back once the earlier one is stale
+    if (given.some(t => (source === 'model' || now - t.at < REPEAT_AFTER_MS) && tipSimilarity(t.text, text) >= 0.6)) return null;
+    const tip: CoachTip = { text, source, topic, at: now };
+    given.push(tip);
+    lastTipAt = now;
+    return tip;
+  };
+
+  return {
+    start: (now: number) => {
+      startedAt = now;
+      transcript = [];
+      wordsAtLastRequest = 0;
+      given = [];
+      lastTipAt = -Infinity;
+      lastRequestAt = now;
+      pending = null;
+      fillerSamples = [];
+    },
+
+    pushTranscript: (finalText: string) => {
+      transcript.push(...finalText.trim().split(/\s+/).filter(Boolean));
+    },
+
+    // Local rules; call about once a second
+    tick: (tick: CoachTick): CoachTip | null => {
+      fillerSamples.push({ at: tick.now, count: tick.live.fillerWords });
+      fillerSamples = fillerSamples.filter(s => tick.now - s.at <= 20_000);
+      const history: RuleHistory = {
+        elapsedMs: tick.now - startedAt,
+        fillersInLast20s: tick.live.fillerWords - fillerSamples[0].count
+      };
+      for (const rule of RULES) {
+        const text = rule.check(tick, history);
+        if (!text) continue;
+        const tip = admit(text, 'rule', rule.topic, tick.now);
+        if (tip) return tip;
+      }
+      return null;
+    },
+
+    // Returns a request to send, or null when it isn't time to ask the model
+    requestModelTip: (tick: CoachTick): { id: number; context: CoachingContext } | null => {
+      if (pending && tick.now - pending.at < opts.staleMs) return null;
+      if (tick.now - lastRequestAt < opts.modelIntervalMs) return null;
+      if (tick.now - lastTipAt < opts.minGapMs) return null;
+      if (transcript.length - wordsAtLastRequest < opts.minNewWords) return null;
+      pending = { id: nextRequestId++, at: tick.now };
+      lastRequestAt = tick.now;
+      wordsAtLastRequest = transcript.length;
+      return {
+        id: pending.id,
+        context: {
+          recentTranscript: transcript.slice(-TRANSCRIPT_WORDS).join(' '),
+          wpm: tick.live.rollingWpm,
+          segment: tick.segmentAction,
+          focusAreas,
+          previousTips: given.map(t => t.text)
+        }
+      };
+    },
+
+    // Drops answers that are stale, superseded or repeat an earlier tip
+    acceptModelTip: (id: number, text: string, now: number): CoachTip | null => {
+      if (!pending || pending.id !== id) return null;
+      const requestedAt = pending.at;
+      pending = null;
+      if (now - requestedAt > opts.staleMs) return null;
+      // A rule spoke while we waited; it was more urgent
+      if (lastTipAt > requestedAt) return null;
+      const trimmed = text.trim();
+      if (!trimmed || countWords(trimmed) > 25) return null;
+      return admit(trimmed, 'model', topicOf(trimmed), now);
+    },
+
+    // Failed or cancelled request: free the slot
+    abandonModelTip: (id: number) => {
+      if (pending?.id === id) pending = null;
+    },
+
+    // e.g. after auth/quota errors
+    pauseModelTips: (until: number) => {
+      lastRequestAt = until - opts.modelIntervalMs;
+    },
+
+    tips: (): CoachTip[] => [...given]
+  };
+};
+
+export type CoachScheduler = ReturnType<typeof createCoachScheduler>;
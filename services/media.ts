@@ -0,0 +1,217 @@
+// Recording formats and the path a take takes to the model. Small takes go
+// inline; large ones are uploaded in chunks when the provider has a file API;
+// anything still too big (or a failed upload) is reduced to its audio track
+// plus keyframes so long rehearsals can still be judged.
+
+import { TakeContext } from "../types";
+
+export interface InlineMedia {
+  mimeType: string;
+  data: string; // base64
+}
+
+export interface Keyframe extends InlineMedia {
+  time: number; // seconds into the original recording
+}
+
+// TakeContext (screen layout, transcript, team) rides along so the prompt can use it
+export type VideoInput = TakeContext & (
+  | { kind: 'inline'; mimeType: string; sizeBytes: number; media: InlineMedia }
+  // name is the provider's handle for deleting the upload afterwards
+  | { kind: 'file'; mimeType: string; sizeBytes: number; uri: string; name: string }
+  | { kind: 'reduced'; mimeType: string; sizeBytes: number; duration: number; audio: InlineMedia | null; frames: Keyframe[] }
+  // Providers that can't watch video only get told what it was
+  | { kind: 'metadata'; mimeType: string; sizeBytes: number }
+);
+
+export type VideoPrepStage = 'encoding' | 'uploading' | 'processing' | 'reducing' | 'analyzing';
+
+export interface VideoPrepProgress {
+  stage: VideoPrepStage;
+  message: string;
+  // 0..1 when the stage can measure it
+  fraction?: number;
+}
+
+// Most specific first; Safari only records mp4
+const RECORDING_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm;codecs=vp9',
+  'video/webm',
+  'video/mp4;codecs=avc1,mp4a',
+  'video/mp4'
+];
+
+// '' lets the browser pick its default
+export const pickRecordingMimeType = (): string => {
+  if (typeof MediaRecorder === 'undefined' || typeof MediaRecorder.isTypeSupported !== 'function') return '';
+  return RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+};
+
+// Model APIs want the container only: "video/webm;codecs=vp9" -> "video/webm"
+export const containerType = (mimeType: string): string =>
+  mimeType.split(';')[0].trim().toLowerCase() || 'video/webm';
+
+// Gemini caps a whole request at 20 MB and base64 adds a third
+export const INLINE_VIDEO_BYTES = 14 * 1024 * 1024;
+
+// Budget for the reduced form, which is always sent inline
+const REDUCED_AUDIO_BYTES = 8 * 1024 * 1024;
+const MAX_KEYFRAMES = 40;
+const KEYFRAME_WIDTH = 640;
+
+export const blobToBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve((reader.result as string).split(',')[1] ?? '');
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// --- Audio ---
+
+const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+const aborted = () => new DOMException('Aborted', 'AbortError');
+
+// Mono 16-bit WAV, resampled down (and as a last resort truncated) to fit maxBytes.
+// Decoding and rendering can't be interrupted, so cancellation takes effect between them.
+const extractAudio = async (
+  blob: Blob,
+  maxBytes: number,
+  onStep: (message: string) => void,
+  signal?: AbortSignal
+): Promise<InlineMedia | null> => {
+  const context = new AudioContext();
+  try {
+    onStep('Decoding the audio track');
+    const decoded = await context.decodeAudioData(await blob.arrayBuffer());
+    if (signal?.aborted) throw aborted();
+    // Speech stays intelligible down to 8 kHz
+    const sampleRate = Math.max(8_000, Math.min(16_000, Math.floor(maxBytes / 2 / decoded.duration)));
+    const length = Math.min(Math.ceil(decoded.duration * sampleRate), Math.floor(maxBytes / 2));
+    const offline = new OfflineAudioContext(1, length, sampleRate);
+    const source = offline.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offline.destination);
+    source.start();
+    onStep('Resampling the audio track');
+    const rendered = await offline.startRendering();
+    if (signal?.aborted) throw aborted();
+    return { mimeType: 'audio/wav', data: await blobToBase64(encodeWav(rendered.getChannelData(0), sampleRate)) };
+  } catch (e) {
+    if (signal?.aborted) throw aborted();
+    // Recordings without an audio track, or codecs the browser can't decode
+    console.warn("Could not extract audio from recording", e);
+    return null;
+  } finally {
+    context.close().catch(() => {});
+  }
+};
+
+// --- Keyframes ---
+
+const waitForEvent = (target: HTMLMediaElement, event: string): Promise<void> => new Promise((resolve, reject) => {
+  const onEvent = () => { cleanup(); resolve(); };
+  const onError = () => { cleanup(); reject(target.error ?? new Error(`Video failed while waiting for ${event}`)); };
+  const cleanup = () => {
+    target.removeEventListener(event, onEvent);
+    target.removeEventListener('error', onError);
+  };
+  target.addEventListener(event, onEvent);
+  target.addEventListener('error', onError);
+});
+
+// MediaRecorder webm files report Infinity until the browser has seen the end
+const resolveDuration = async (video: HTMLVideoElement, hint?: number): Promise<number> => {
+  if (Number.isFinite(video.duration) && video.duration > 0) return video.duration;
+  video.currentTime = 1e101;
+  await waitForEvent(video, 'timeupdate');
+  const duration = Number.isFinite(video.duration) && video.duration > 0 ? video.duration : hint ?? 0;
+  // Keyframe seeks must not race the seek back to the start
+  video.currentTime = 0;
+  await waitForEvent(video, 'seeked');
+  return duration;
+};
+
+const extractKeyframes = async (
+  blob: Blob,
+  durationHint: number | undefined,
+  onFrame: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<{ duration: number; frames: Keyframe[] }> => {
+  const url = URL.createObjectURL(blob);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = url;
+  try {
+    await waitForEvent(video, 'loadedmetadata');
+    const duration = await resolveDuration(video, durationHint);
+    if (duration <= 0) return { duration, frames: [] };
+
+    const count = Math.min(MAX_KEYFRAMES, Math.max(1, Math.ceil(duration / 5)));
+    const scale = Math.min(1, KEYFRAME_WIDTH / (video.videoWidth || KEYFRAME_WIDTH));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round((video.videoWidth || KEYFRAME_WIDTH) * scale);
+    canvas.height = Math.round((video.videoHeight || KEYFRAME_WIDTH * 0.5625) * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return { duration, frames: [] };
+
+    const frames: Keyframe[] = [];
+    for (let i = 0; i < count; i++) {
+      if (signal?.aborted) throw aborted();
+      // Middle of each slice, so the first frame isn't a black fade-in
+      const time = ((i + 0.5) / count) * duration;
+      video.currentTime = time;
+      await waitForEvent(video, 'seeked');
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      frames.push({ time, mimeType: 'image/jpeg', data: canvas.toDataURL('image/jpeg', 0.7).split(',')[1] ?? '' });
+      onFrame(i + 1, count);
+    }
+    return { duration, frames };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const reduceVideo = async (
+  blob: Blob,
+  options: { durationHint?: number; signal?: AbortSignal; onProgress?: (progress: VideoPrepProgress) => void } = {}
+): Promise<VideoInput> => {
+  const report = options.onProgress ?? (() => {});
+  const audio = await extractAudio(blob, REDUCED_AUDIO_BYTES, message => report({ stage: 'reducing', message }), options.signal);
+  const { duration, frames } = await extractKeyframes(
+    blob,
+    options.durationHint,
+    (done, total) => report({ stage: 'reducing', message: `Capturing keyframe ${done} of ${total}`, fraction: done / total }),
+    options.signal
+  );
+  return { kind: 'reduced', mimeType: containerType(blob.type), sizeBytes: blob.size, duration, audio, frames };
+};
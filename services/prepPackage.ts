@@ -0,0 +1,124 @@
+import { HackathonData, PracticeSession, RecordingMetrics, TranscriptLine } from "../types";
+import { validateStoredAnalysisResult, validateHackathonData, validateRecordingMetrics, validateTranscript } from "./validation";
+
+// Portable prep package: one JSON file with the corrected profile, the script
+// and every practice take for the event, so a teammate can pick up the same
+// panel on another laptop without re-running analysis.
+//
+// Bump PREP_PACKAGE_VERSION when the file layout changes and teach
+// parsePrepPackage to read the old layout.
+
+export const PREP_PACKAGE_FORMAT = 'hackjudge-prep';
+export const PREP_PACKAGE_VERSION = 1;
+
+interface ExportedVideo {
+  mimeType: string;
+  data: string; // base64
+}
+
+interface ExportedSession {
+  id: string;
+  createdAt: number;
+  metrics: RecordingMetrics | null;
+  transcript?: TranscriptLine[];
+  result: PracticeSession['result'];
+  video?: ExportedVideo;
+}
+
+export interface PrepPackage {
+  format: typeof PREP_PACKAGE_FORMAT;
+  version: number;
+  exportedAt: number;
+  hackathon: HackathonData;
+  sessions: ExportedSession[];
+}
+
+export interface ImportedPrep {
+  hackathon: HackathonData;
+  // Sessions exported without video come back with an empty blob
+  sessions: PracticeSession[];
+}
+
+const toBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Chunked so large videos don't blow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (data: string, mimeType: string): Blob => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const buildPrepPackage = async (
+  hackathon: HackathonData,
+  sessions: PracticeSession[],
+  options: { includeVideo: boolean }
+): Promise<PrepPackage> => ({
+  format: PREP_PACKAGE_FORMAT,
+  version: PREP_PACKAGE_VERSION,
+  exportedAt: Date.now(),
+  hackathon,
+  sessions: await Promise.all(sessions.map(async (s): Promise<ExportedSession> => ({
+    id: s.id,
+    createdAt: s.createdAt,
+    metrics: s.metrics,
+    transcript: s.transcript,
+    result: s.result,
+    ...(options.includeVideo && s.videoBlob.size > 0
+      ? { video: { mimeType: s.videoBlob.type || 'video/webm', data: await toBase64(s.videoBlob) } }
+      : {})
+  })))
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readVideo = (input: unknown): ExportedVideo | null =>
+  isRecord(input) && typeof input.data === 'string'
+    ? { data: input.data, mimeType: typeof input.mimeType === 'string' ? input.mimeType : 'video/webm' }
+    : null;
+
+export const parsePrepPackage = (text: string): ImportedPrep => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Not a JSON file");
+  }
+  if (!isRecord(raw) || raw.format !== PREP_PACKAGE_FORMAT) {
+    throw new Error("Not a HackJudge prep package");
+  }
+  if (typeof raw.version !== 'number' || raw.version > PREP_PACKAGE_VERSION) {
+    throw new Error(`Package version ${String(raw.version)} is newer than this app supports (${PREP_PACKAGE_VERSION}). Update HackJudge and try again.`);
+  }
+
+  // Same validators as model output: hand-edited files get the same repairs
+  const hackathon = validateHackathonData(raw.hackathon).value;
+  const sessions = (Array.isArray(raw.sessions) ? raw.sessions : [])
+    .filter(isRecord)
+    .flatMap((s): PracticeSession[] => {
+      if (typeof s.id !== 'string') return [];
+      const video = readVideo(s.video);
+      return [{
+        id: s.id,
+        createdAt: typeof s.createdAt === 'number' ? s.createdAt : Date.now(),
+        hackathon,
+        videoBlob: video ? fromBase64(video.data, video.mimeType) : new Blob([], { type: 'video/webm' }),
+        metrics: isRecord(s.metrics) ? validateRecordingMetrics(s.metrics).value : null,
+        transcript: Array.isArray(s.transcript) ? validateTranscript(s.transcript).value : undefined,
+        result: s.result ? validateStoredAnalysisResult(s.result).value : null
+      }];
+    });
+
+  return { hackathon, sessions };
+};
+
+export const prepPackageFileName = (hackathon: HackathonData): string =>
+  `${hackathon.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'hackathon'}.hackjudge.json`;
@@ -0,0 +1,263 @@
+import { CaptureLayout, CoachingContext, DemoFormat, FrameRegion, HackathonData, HackathonSource, Judge, ScriptRewriteRequest, TakeContext, TeamTake, TranscriptLine } from "../types";
+import { describeRubric } from "./rubric";
+import { describeLength, formatOf, overtimePenalty, qaQuestionCount } from "./demoFormat";
+
+// Prompts are shared by every provider so switching backends doesn't change
+// what we ask for.
+
+const withCorrection = (prompt: string, correction?: string): string => correction ? `${prompt}
+      Your previous response failed validation:
+${correction}
+      Return the complete JSON again with these fields filled in correctly.
+    ` : prompt;
+
+// Long pastes are trimmed so a whole scraped page doesn't crowd out the instructions
+const MAX_CONTEXT_CHARS = 20000;
+
+const clip = (text: string, max = MAX_CONTEXT_CHARS): string => text.length > max ? `${text.slice(0, max)}\n[...truncated]` : text;
+
+const projectSection = (projectDescription?: string): string => projectDescription?.trim() ? `
+      OUR PROJECT (what the team actually built; the script and features must be about this, not a generic product):
+      """
+${clip(projectDescription.trim())}
+      """
+` : '';
+
+const AUDIENCE_NOTES: Record<DemoFormat['audience'], string> = {
+  panel: 'a judging panel at a table, close enough to read the screen',
+  stage: 'an audience in a hall with the judges among them; the screen is far away and the room is noisy',
+  booth: 'judges walking up to a science-fair style booth one or two at a time; they may arrive mid-walkthrough or interrupt with questions'
+};
+
+// Time limit and setting, shared by everything that writes or judges the demo
+const formatSection = (format: DemoFormat): string => `
+      FORMAT: ${format.delivery === 'recorded'
+        ? `a recorded submission video of at most ${describeLength(format.demoSeconds)}, watched later by the judges`
+        : `a live demo of at most ${describeLength(format.demoSeconds)} for ${AUDIENCE_NOTES[format.audience]}`}.
+      ${format.qaSeconds > 0 ? `${describeLength(format.qaSeconds)} of Q&A follow.` : 'There is no Q&A, so the demo has to answer the obvious questions itself.'}
+`;
+
+export const buildHackathonPrompt = (source: HackathonSource, correction?: string): string => {
+  const url = source.url.trim();
+  const eventText = source.eventText.trim();
+  const fileNames = source.files.map(f => f.name);
+  const hasProject = source.projectDescription.trim() !== '';
+
+  const context = [
+    url ? `      Event URL: ${url}.` : '',
+    eventText ? `      Event page text, pasted by the team:
+      """
+${clip(eventText)}
+      """` : '',
+    fileNames.length > 0 ? `      Attached judging documents: ${fileNames.join(', ')}. Treat them as the most authoritative source for judges and criteria.` : ''
+  ].filter(Boolean).join('\n');
+
+  return withCorrection(`
+      I need to analyze a hackathon.
+${context}
+${projectSection(source.projectDescription)}${formatSection(source.format)}
+      TASK:
+      1. ${url ? 'Use Google Search to find the specific Hackathon event details, alongside any text or documents provided above.' : 'Use only the text and documents provided above; the event may be private or unlisted.'}
+      2. IF the URL is a Luma/Devpost link or the text has a "Judges" section, use it to identify the judges.
+      3. CRITICAL: IF specific judges are NOT listed on the page or found via search, you MUST create 3 "Archetype Judges" based on the hackathon theme.
+         - Example Archetypes: "The Technical Lead", "The VC Investor", "The Product Designer".
+         - Do NOT return an empty judges list. I need exactly 3 profiles if none are found.
+      4. For each judge (real or inferred):
+         - Search/Predict their professional background.
+         - Identify values, red flags, and talking points.
+         - Record provenance: origin is "listed" (named on the event page or documents), "researched" (found only via search)
+           or "archetype" (invented). List the pages you actually used as sources [{title, uri}]; never make up a URL.
+           Rate confidence (high/medium/low) separately for identity, values, focusAreas and redFlags.
+      
+      5. Extract the judging criteria as a rubric. For each criterion give a name, a weight (the published percentage or points if the
+         event lists them, otherwise equal weights), a one-sentence description and a scale (max points per judge, default 10).
+
+      6. Generate a "Winning Demo Strategy" containing:
+         - A generatedScript that fits in ${describeLength(source.format.demoSeconds)}${hasProject ? ' presenting OUR PROJECT' : ''}.
+         - Key phrases to use.
+         - featuresToEmphasize${hasProject ? ': real features of OUR PROJECT that match what these judges value' : ''}.
+         - A structure (timeline) whose times add up to the time limit.
+
+      OUTPUT:
+      Return strictly valid JSON matching the schema. Use the event's real name as the title and ${url ? `"${url}"` : 'an empty string'} as the url.
+    `, correction);
+};
+
+// Re-plans the demo against a profile the team has corrected by hand, so the
+// judges and rubric here are taken as fact rather than re-researched.
+export const buildStrategyPrompt = (hackathonData: HackathonData, correction?: string): string => {
+  const judges = hackathonData.judges.map(j => `
+      - ${j.name}, ${j.role}${j.company ? ` at ${j.company}` : ''}
+        Values: ${j.values.join(', ') || 'unknown'}
+        Focus areas: ${j.focusAreas.join(', ') || 'unknown'}
+        Red flags: ${j.redFlags.join(', ') || 'unknown'}`).join('');
+  const keep = hackathonData.strategy.keyPhrases.filter(p => p.trim());
+  const format = formatOf(hackathonData);
+
+  return withCorrection(`
+      We are preparing a demo for ${hackathonData.title}.
+      The team has confirmed the judging panel and rubric below. Treat them as accurate; do not search for or invent other judges.
+
+      Judges:${judges}
+${projectSection(hackathonData.projectDescription)}
+      Judging rubric:
+${describeRubric(hackathonData.criteria || [])}
+${formatSection(format)}${keep.length > 0 ? `
+      The team wants to use these key phrases; keep them and add others if useful: ${keep.join(', ')}.
+` : ''}
+      Generate a "Winning Demo Strategy" for this exact panel containing:
+         - A generatedScript that fits in ${describeLength(format.demoSeconds)}, speaks to each judge's values and avoids their red flags.
+         - Key phrases to use.
+         - Features to emphasize.
+         - A structure (timeline) of {time, action} steps that adds up to the time limit.
+
+      Return strictly valid JSON: {"structure": [{"time": string, "action": string}], "keyPhrases": string[], "featuresToEmphasize": string[], "generatedScript": string}.
+    `, correction);
+};
+
+// Script workshop: one targeted change to the team's current script, leaving
+// everything the instruction doesn't touch alone.
+export const buildScriptRewritePrompt = (hackathonData: HackathonData, request: ScriptRewriteRequest, correction?: string): string => {
+  const judges = hackathonData.judges.map(j => `
+      - ${j.name}, ${j.role}${j.company ? ` at ${j.company}` : ''}. Values: ${j.values.join(', ') || 'unknown'}. Red flags: ${j.redFlags.join(', ') || 'unknown'}`).join('');
+  const keyPhrases = hackathonData.strategy.keyPhrases.filter(p => p.trim());
+
+  return withCorrection(`
+      You are editing the demo script for our ${hackathonData.title} presentation.
+
+      Judges:${judges}
+${projectSection(hackathonData.projectDescription)}${keyPhrases.length > 0 ? `
+      Key phrases the script should keep: ${keyPhrases.join(', ')}.
+` : ''}
+${formatSection(formatOf(hackathonData))}
+      The presenter speaks at about ${Math.round(request.wpm)} words per minute, so 10 seconds is about ${Math.round(request.wpm / 6)} words.
+      Unless the instruction says otherwise, keep the script within the time limit.
+
+      Current script:
+      """
+${clip(request.script)}
+      """
+
+      Instruction from the team:
+      """
+${clip(request.instruction, 4000)}
+      """
+
+      Apply the instruction and change nothing else: keep the wording, order and paragraph breaks (blank lines) of every part it doesn't touch.
+      Write only what the presenter says out loud, as plain text.
+
+      Return strictly valid JSON: {"script": string, "summary": string}, where summary says in one or two sentences what you changed.
+    `, correction);
+};
+
+const describeRegion = (region: FrameRegion): string =>
+  `x ${Math.round(region.x * 100)}-${Math.round((region.x + region.width) * 100)}%, y ${Math.round(region.y * 100)}-${Math.round((region.y + region.height) * 100)}% of the frame`;
+
+// Screen-share takes: point the model at the product instead of the presenter
+const screenShareSection = (layout: CaptureLayout): string => `
+      This is a screen-share recording. The product being demoed fills ${describeRegion(layout.screen)}${layout.camera && layout.cameraCorner
+        ? `; the presenter's camera is a picture-in-picture in the ${layout.cameraCorner.replace('-', ' ')} corner (${describeRegion(layout.camera)}), ignore what it covers`
+        : ''}.
+      Judge the demo flow itself as well as the pitch: dead time with nothing happening on screen, loading spinners and waits,
+      text or UI too small to read on a projector, errors, and clicking around without narrating. Anchor each of these as a "demo" moment.
+`;
+
+const MAX_TRANSCRIPT_CHARS = 12_000;
+
+const formatSeconds = (seconds: number) => `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+// Browser speech recognition: good timestamps, imperfect words. Team takes
+// label each line with whoever held the floor.
+const transcriptSection = (transcript: TranscriptLine[], speakers: string[] = []): string => `
+      Live transcript of the take (speech recognition, may mishear words; timestamps are accurate):
+${clip(transcript.map(l => `      [${formatSeconds(l.start)}]${l.speaker !== undefined && speakers[l.speaker] ? ` ${speakers[l.speaker]}:` : ''} ${l.text.trim()}`).join('\n'), MAX_TRANSCRIPT_CHARS)}
+      Use it for what was said and when, and to anchor moments; trust the video where they disagree.
+`;
+
+// Who was meant to present what, and what the hand-off tracking measured
+const teamSection = (team: TeamTake): string => `
+      This demo is split between ${team.presenters.length} presenters. Their assigned parts of the plan:
+${team.stats.map(s => `      - ${s.name}: ${s.segments.map(seg => `"${seg.action}"`).join(', ') || 'no assigned segments'}. Spoke ${Math.round(s.speakingTime)}s at ${s.wpm} wpm.`).join('\n')}
+      Hand-offs (${team.handoffs.length}):
+${team.handoffs.map(h => `      - ${formatSeconds(h.at)} ${team.presenters[h.from]} to ${team.presenters[h.to]}: ${h.note}`).join('\n') || '      - none'}
+      Give presenterFeedback for EACH presenter by name: their delivery, whether they covered their assigned talking points,
+      and how cleanly they took over and handed off.
+`;
+
+// Overtime costs points locally (services/demoFormat.ts); the model only weighs pacing
+const timeLimitSection = (format: DemoFormat, duration?: number): string => {
+  if (!duration) return `
+      Judge pacing against the ${describeLength(format.demoSeconds)} limit.
+`;
+  const penalty = overtimePenalty(format, duration);
+  return `
+      The take ran ${formatSeconds(duration)} against a ${formatSeconds(format.demoSeconds)} limit${penalty
+        ? `. An overtime penalty of ${penalty.points} points is applied separately, so don't lower rubric scores for the overrun itself;
+      do name what should have been cut as an improvement, anchored as a moment`
+        : ''}.
+`;
+};
+
+export const buildVideoPrompt = (hackathonData: HackathonData, correction?: string, take: TakeContext = {}): string => {
+  const format = formatOf(hackathonData);
+  // Fallback if judges is empty (shouldn't happen, validation fills a default panel)
+  const judgesList = hackathonData.judges && hackathonData.judges.length > 0 
+      ? hackathonData.judges.map(j => j.name).join(', ')
+      : "Standard Hackathon Judges";
+
+  return withCorrection(`
+      Analyze this hackathon demo video. 
+      Context: This is a submission for ${hackathonData.title}.
+      Judges are: ${judgesList}.
+      Judging rubric:
+${describeRubric(hackathonData.criteria || [])}
+${formatSection(format)}${timeLimitSection(format, take.duration)}${take.layout ? screenShareSection(take.layout) : ''}${take.team ? teamSection(take.team) : ''}${take.transcript?.length ? transcriptSection(take.transcript, take.team?.presenters) : ''}
+      Provide a strict judging analysis.
+      1. Give an overall score out of 100.
+      1b. For EACH judge and EACH rubric criterion, give a rubricScores entry: the judgeName, the criterion name exactly as written above,
+          a score on that criterion's scale, and a one-sentence justification in the judge's voice.
+      2. List 3-5 specific strengths.
+      3. List 3-5 specific areas for improvement.
+      4. Anchor each improvement (and any other notable moment) to the video as a moment: start and end in seconds from the start of the video,
+         a category (delivery, content, demo, technical, visual), a severity (minor, major, critical), the judgeName most bothered by it, and a short note.
+      5. For each judge listed above, predict exactly what they would say based on their background and this video.
+      6. Generate ${qaQuestionCount(format)} likely ${format.qaSeconds > 0 ? 'Q&A questions' : 'questions (there is no live Q&A; ask what they would still wonder about)'} these specific judges would ask, with the judgeName of the judge asking each.${take.team ? `
+      7. For each presenter, give presenterFeedback: the presenterName exactly as written above and 2-3 sentences of feedback.` : ''}
+
+      Return strictly valid JSON.
+    `, correction);
+};
+
+// Sent ahead of the frames when a take was too large for the model to watch
+export const buildReducedVideoNote = (duration: number, frameCount: number, hasAudio: boolean): string => `
+      The recording (${Math.round(duration)}s) was too large to send whole. You get ${hasAudio ? 'its full audio track and ' : ''}${frameCount} keyframes,
+      each labelled with its timestamp. Judge delivery from the ${hasAudio ? 'audio' : 'frames'} and visuals from the frames, and give
+      every timestamp relative to the original recording.${hasAudio ? '' : ' There is no audio; say so instead of guessing what was said.'}
+`;
+
+export const buildCoachPrompt = (context: CoachingContext): string => `
+        You are an intense but helpful hackathon coach named Jarvis, whispering to a presenter mid-demo.
+        They are speaking at ${context.wpm} words per minute.${context.segment ? `
+        Right now they should be on: "${context.segment}".` : ''}${context.focusAreas.length ? `
+        The judges care most about: ${context.focusAreas.join(', ')}.` : ''}
+        What they have said so far (most recent last): "${context.recentTranscript}".${context.previousTips.length ? `
+        Tips you already gave, do NOT repeat or rephrase them: ${context.previousTips.map(t => `"${t}"`).join('; ')}.` : ''}
+
+        Give ONE short, punchy coaching tip (under 15 words) about the content: what to show, say or connect to the judges next.
+        Pace, filler words and timing are handled separately; don't mention them.
+        Examples: "Explain the 'Why' before the 'How'!", "Show the live data, not the slide!", "Tie this back to scalability!".
+        `;
+
+export const buildQaGradingPrompt = (question: string, answer: string, judge: Judge | undefined, correction?: string): string => withCorrection(`
+      You are ${judge ? `${judge.name}, ${judge.role} at ${judge.company}` : 'a hackathon judge'}, grading a live Q&A answer.
+      ${judge ? `You value: ${judge.values.join(', ') || 'clear, honest answers'}.
+      Red flags for you: ${judge.redFlags.join(', ') || 'evasive or vague answers'}.` : ''}
+
+      Question: "${question}"
+      Presenter's answer (speech transcript): "${answer || '(no answer given)'}"
+
+      Grade the answer from 0 to 10 against your values and red flags.
+      Give 1-2 sentences of feedback in your own voice: what landed, what you still doubt, and how to answer better.
+
+      Return strictly valid JSON: {"score": number, "feedback": string}.
+    `, correction);
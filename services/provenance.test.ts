@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { HackathonData, Judge, JudgeProvenance } from "../types";
+import { DEFAULT_FORMAT } from "./demoFormat";
+import { attachProvenance, markEditedByTeam } from "./provenance";
+
+const researched: JudgeProvenance = {
+  origin: 'researched',
+  sources: [
+    { title: "Ada's talk", uri: "https://hackx.dev/speakers/ada", verified: false },
+    { title: "Other page", uri: "https://hackx.dev/blog/made-up", verified: false }
+  ],
+  confidence: { identity: 'high', values: 'high', focusAreas: 'high', redFlags: 'high' }
+};
+
+const judge: Judge = { name: "Ada", role: "CTO", company: "Acme", values: [], focusAreas: [], redFlags: [], recommendedTalkingPoints: [], provenance: researched };
+
+const data: HackathonData = {
+  title: "HackX",
+  url: "",
+  judges: [judge],
+  criteria: [],
+  strategy: { structure: [], keyPhrases: [], featuresToEmphasize: [], generatedScript: "" }
+};
+
+const source = { url: "", eventText: "", files: [], projectDescription: "", format: DEFAULT_FORMAT };
+
+describe("attachProvenance", () => {
+  it("verifies only the exact pages search returned", () => {
+    const result = attachProvenance(data, { source, grounding: [{ title: "hackx.dev", uri: "https://hackx.dev/speakers/ada/" }] });
+    expect(result.judges[0].provenance?.sources.map(s => s.verified)).toEqual([true, false]);
+    expect(result.judges[0].provenance?.confidence.identity).toBe('high');
+  });
+
+  it("caps a researched judge that no returned page backs up", () => {
+    const result = attachProvenance(data, { source, grounding: [{ title: "hackx.dev", uri: "https://hackx.dev/" }] });
+    expect(result.judges[0].provenance?.confidence.identity).toBe('medium');
+  });
+});
+
+describe("markEditedByTeam", () => {
+  it("keeps the origin for edits that don't change who the judge is", () => {
+    const provenance = markEditedByTeam(researched, ['redFlags']);
+    expect(provenance.origin).toBe('researched');
+    expect(provenance.confidence.redFlags).toBe('high');
+  });
+
+  it("makes the judge the team's when their identity is edited", () => {
+    expect(markEditedByTeam(researched, ['company']).origin).toBe('team');
+  });
+});
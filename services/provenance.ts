@@ -0,0 +1,92 @@
+import { CitedSource, Confidence, GroundingSource, HackathonData, HackathonSource, Judge, JudgeProvenance } from "../types";
+
+// Post-processing for the model's own claims about where each judge came from.
+// Cited URLs are checked against the pages the search tool really returned,
+// and confidence is capped when a "real" judge has nothing to back it up.
+
+const RANK: Record<Confidence, number> = { low: 0, medium: 1, high: 2 };
+
+const cap = (value: Confidence, max: Confidence): Confidence => RANK[value] > RANK[max] ? max : value;
+
+export const hostOf = (uri: string): string => {
+  try {
+    return new URL(uri).hostname.replace(/^www\./, '').toLowerCase();
+  } catch {
+    return '';
+  }
+};
+
+// Ignores only the differences that don't change the page
+const normalizeUri = (uri: string): string => uri.trim().replace(/#.*$/, '').replace(/\/+$/, '');
+
+const capAll = (confidence: JudgeProvenance['confidence'], max: Confidence): JudgeProvenance['confidence'] => ({
+  identity: cap(confidence.identity, max),
+  values: cap(confidence.values, max),
+  focusAreas: cap(confidence.focusAreas, max),
+  redFlags: cap(confidence.redFlags, max)
+});
+
+export const UNKNOWN_PROVENANCE: JudgeProvenance = {
+  origin: 'archetype',
+  sources: [],
+  confidence: { identity: 'low', values: 'low', focusAreas: 'low', redFlags: 'low' }
+};
+
+export const TEAM_PROVENANCE: JudgeProvenance = {
+  origin: 'team',
+  sources: [],
+  confidence: { identity: 'high', values: 'medium', focusAreas: 'medium', redFlags: 'medium' }
+};
+
+export const attachProvenance = (data: HackathonData, context: { source: HackathonSource; grounding: GroundingSource[] }): HackathonData => {
+  // Only a page the search tool returned (or the event page we were given)
+  // verifies a citation; a matching domain alone could be any page on it
+  const knownUris = new Set<string>([...context.grounding.map(g => g.uri), context.source.url].map(normalizeUri).filter(Boolean));
+  const hasEventContext = context.source.url.trim() !== '' || context.source.eventText.trim() !== '' || context.source.files.length > 0;
+
+  const judges = data.judges.map((judge): Judge => {
+    const claimed = judge.provenance ?? UNKNOWN_PROVENANCE;
+    const sources: CitedSource[] = claimed.sources
+      .filter(s => s.uri.trim())
+      .map(s => ({ title: s.title || hostOf(s.uri) || s.uri, uri: s.uri, verified: knownUris.has(normalizeUri(s.uri)) }));
+
+    let origin = claimed.origin;
+    // Can't be "on the event page" if we never gave it one
+    if (origin === 'listed' && !hasEventContext) origin = 'researched';
+
+    let confidence = claimed.confidence;
+    if (origin === 'archetype') {
+      confidence = { ...confidence, identity: 'low' };
+    } else if (origin === 'researched' && !sources.some(s => s.verified)) {
+      confidence = capAll(confidence, 'medium');
+    }
+
+    return { ...judge, provenance: { origin, sources, confidence } };
+  });
+
+  return { ...data, judges };
+};
+
+// Which confidence field a hand edit to a judge vouches for
+const EDITED_FIELD: Partial<Record<keyof Judge, keyof JudgeProvenance['confidence']>> = {
+  name: 'identity',
+  role: 'identity',
+  company: 'identity',
+  values: 'values',
+  focusAreas: 'focusAreas',
+  redFlags: 'redFlags'
+};
+
+// A teammate editing a field is the strongest evidence we get; cited sources are kept.
+// Only a change of who the judge is makes it the team's judge: tweaking a
+// researched judge's red flags doesn't make the research any less real.
+export const markEditedByTeam = (provenance: JudgeProvenance | undefined, edited: (keyof Judge)[]): JudgeProvenance => {
+  const base = provenance ?? UNKNOWN_PROVENANCE;
+  const confidence = { ...base.confidence };
+  for (const key of edited) {
+    const field = EDITED_FIELD[key];
+    if (field) confidence[field] = 'high';
+  }
+  const identityEdited = edited.some(key => EDITED_FIELD[key] === 'identity');
+  return { ...base, origin: identityEdited ? 'team' : base.origin, confidence };
+};
@@ -0,0 +1,433 @@
+import { GoogleGenAI, GenerateContentResponse, Part, Type } from "@google/genai";
+import { buildHackathonPrompt, buildStrategyPrompt, buildScriptRewritePrompt, buildVideoPrompt, buildReducedVideoNote, buildCoachPrompt, buildQaGradingPrompt } from "../prompts";
+import { AIProvider } from "./types";
+import { GroundingSource } from "../../types";
+import { createAIError, toAIError } from "../aiErrors";
+import { sleep } from "../aiRequest";
+import { VideoInput } from "../media";
+
+// Models
+// Using gemini-2.0-flash-exp as requested by user. 
+// If this fails in your specific environment, try 'gemini-1.5-flash' or 'gemini-1.5-pro'.
+const MODEL_FAST = 'gemini-2.0-flash-exp'; 
+const MODEL_REASONING = 'gemini-2.0-flash-exp';
+
+const strategySchema = {
+  type: Type.OBJECT,
+  properties: {
+    structure: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          time: { type: Type.STRING },
+          action: { type: Type.STRING }
+        }
+      }
+    },
+    keyPhrases: { type: Type.ARRAY, items: { type: Type.STRING } },
+    featuresToEmphasize: { type: Type.ARRAY, items: { type: Type.STRING } },
+    generatedScript: { type: Type.STRING }
+  }
+};
+
+const confidenceSchema = { type: Type.STRING, enum: ["high", "medium", "low"] };
+
+// Sources here are what the model says it used; services/provenance.ts checks
+// them against the grounding metadata.
+const provenanceSchema = {
+  type: Type.OBJECT,
+  properties: {
+    origin: { type: Type.STRING, enum: ["listed", "researched", "archetype"] },
+    sources: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          uri: { type: Type.STRING }
+        }
+      }
+    },
+    confidence: {
+      type: Type.OBJECT,
+      properties: {
+        identity: confidenceSchema,
+        values: confidenceSchema,
+        focusAreas: confidenceSchema,
+        redFlags: confidenceSchema
+      }
+    }
+  }
+};
+
+// propertyOrdering keeps the streamed JSON in the order the progress tracker
+// (services/analysisProgress.ts) expects: rubric, then judges, then strategy.
+const hackathonSchema = {
+  type: Type.OBJECT,
+  propertyOrdering: ["title", "url", "criteria", "judges", "strategy"],
+  properties: {
+    title: { type: Type.STRING },
+    url: { type: Type.STRING },
+    criteria: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          weight: { type: Type.NUMBER },
+          description: { type: Type.STRING },
+          scale: { type: Type.NUMBER }
+        }
+      }
+    },
+    judges: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        propertyOrdering: ["name", "role", "company", "values", "focusAreas", "redFlags", "recommendedTalkingPoints", "provenance"],
+        properties: {
+          name: { type: Type.STRING },
+          role: { type: Type.STRING },
+          company: { type: Type.STRING },
+          values: { type: Type.ARRAY, items: { type: Type.STRING } },
+          focusAreas: { type: Type.ARRAY, items: { type: Type.STRING } },
+          redFlags: { type: Type.ARRAY, items: { type: Type.STRING } },
+          recommendedTalkingPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
+          provenance: provenanceSchema,
+        }
+      }
+    },
+    strategy: strategySchema
+  }
+};
+
+const analysisSchema = {
+  type: Type.OBJECT,
+  properties: {
+    overallScore: { type: Type.NUMBER },
+    strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
+    improvements: { type: Type.ARRAY, items: { type: Type.STRING } },
+    moments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          start: { type: Type.NUMBER },
+          end: { type: Type.NUMBER },
+          category: { type: Type.STRING, enum: ['delivery', 'content', 'demo', 'technical', 'visual'] },
+          severity: { type: Type.STRING, enum: ['minor', 'major', 'critical'] },
+          judgeName: { type: Type.STRING },
+          note: { type: Type.STRING }
+        }
+      }
+    },
+    rubricScores: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          judgeName: { type: Type.STRING },
+          criterion: { type: Type.STRING },
+          score: { type: Type.NUMBER },
+          justification: { type: Type.STRING }
+        }
+      }
+    },
+    judgeSpecificFeedback: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          judgeName: { type: Type.STRING },
+          feedback: { type: Type.STRING }
+        }
+      }
+    },
+    qaQuestions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          question: { type: Type.STRING },
+          judgeName: { type: Type.STRING }
+        }
+      }
+    },
+    // Only asked for on team takes
+    presenterFeedback: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          presenterName: { type: Type.STRING },
+          feedback: { type: Type.STRING }
+        }
+      }
+    }
+  }
+};
+
+const scriptRewriteSchema = {
+  type: Type.OBJECT,
+  properties: {
+    script: { type: Type.STRING },
+    summary: { type: Type.STRING }
+  }
+};
+
+const qaGradeSchema = {
+  type: Type.OBJECT,
+  properties: {
+    score: { type: Type.NUMBER },
+    feedback: { type: Type.STRING }
+  }
+};
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'RECITATION'];
+
+// An empty response is usually a safety block; say so instead of "no data".
+// For streams, `response` is the last chunk, which carries the finish reason.
+const readJson = (text: string | undefined, response: GenerateContentResponse | undefined, emptyMessage: string): unknown => {
+  if (!text) {
+    const blockReason = response?.promptFeedback?.blockReason;
+    const finishReason = response?.candidates?.[0]?.finishReason;
+    if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+      throw createAIError('safety', `Response blocked (${blockReason || finishReason})`);
+    }
+    throw new Error(emptyMessage);
+  }
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    console.error("Failed to parse JSON", e);
+    throw createAIError('invalid-json', "Invalid JSON response from AI", { cause: e });
+  }
+};
+
+// Web pages Google Search grounding pulled in for this chunk
+const groundingSources = (chunk: GenerateContentResponse): GroundingSource[] =>
+  (chunk.candidates?.[0]?.groundingMetadata?.groundingChunks ?? [])
+    .filter(c => c.web?.uri)
+    .map(c => ({ title: c.web!.title || '', uri: c.web!.uri! }));
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+const videoParts = (video: VideoInput): Part[] => {
+  switch (video.kind) {
+    case 'inline':
+      return [{ inlineData: video.media }];
+    case 'file':
+      return [{ fileData: { fileUri: video.uri, mimeType: video.mimeType } }];
+    case 'reduced':
+      return [
+        { text: buildReducedVideoNote(video.duration, video.frames.length, video.audio !== null) },
+        ...(video.audio ? [{ inlineData: video.audio }] : []),
+        ...video.frames.flatMap((f): Part[] => [{ text: `Keyframe at ${formatTime(f.time)}` }, { inlineData: { mimeType: f.mimeType, data: f.data } }])
+      ];
+    case 'metadata':
+      return [{ text: `The video itself is unavailable (${video.mimeType}, ${(video.sizeBytes / 1024 / 1024).toFixed(1)} MB).` }];
+  }
+};
+
+// Resumable upload to the Files API, sent in chunks so large rehearsals report
+// progress. When a chunk fails the server is asked how much it already has and
+// the upload continues from there instead of starting over. Chunk size must be
+// a multiple of 256 KiB.
+const UPLOAD_URL = 'https://generativelanguage.googleapis.com/upload/v1beta/files';
+const UPLOAD_CHUNK_BYTES = 8 * 1024 * 1024;
+const UPLOAD_MAX_RESUMES = 3;
+const FILE_POLL_MS = 2_000;
+
+// status lets toAIError tell auth, rate limit and server errors apart
+const uploadError = async (response: Response, what: string) =>
+  Object.assign(new Error(`${what} failed (${response.status}): ${await response.text().catch(() => '')}`), { status: response.status });
+
+export const createGeminiProvider = (apiKey: string | undefined): AIProvider => {
+  // Created lazily so a missing key only fails the call that needs it
+  let client: GoogleGenAI | null = null;
+  const getClient = () => {
+    if (!client) {
+      if (!apiKey) throw createAIError('auth', "GEMINI_API_KEY is not set");
+      client = new GoogleGenAI({ apiKey });
+    }
+    return client;
+  };
+
+  return {
+    name: 'gemini',
+    videoCapability: 'upload',
+
+    analyzeHackathon: async (source, correction, signal, listener) => {
+      const stream = await getClient().models.generateContentStream({
+        model: MODEL_REASONING,
+        contents: {
+          parts: [
+            // Judging guides (PDFs) go in as documents next to the prompt
+            ...source.files.map(f => ({ inlineData: { mimeType: f.mimeType, data: f.data } })),
+            { text: buildHackathonPrompt(source, correction) }
+          ]
+        },
+        config: {
+          // Search only helps when there is a public page to find
+          ...(source.url.trim() ? { tools: [{ googleSearch: {} }] } : {}),
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: hackathonSchema
+        }
+      });
+
+      let text = '';
+      let last: GenerateContentResponse | undefined;
+      for await (const chunk of stream) {
+        last = chunk;
+        const delta = chunk.text;
+        if (delta) {
+          text += delta;
+          listener?.onText?.(delta);
+        }
+        const sources = groundingSources(chunk);
+        if (sources.length > 0) listener?.onSources?.(sources);
+      }
+      return readJson(text, last, "No data returned from Gemini");
+    },
+
+    generateStrategy: async (hackathonData, correction, signal) => {
+      const response = await getClient().models.generateContent({
+        model: MODEL_REASONING,
+        contents: buildStrategyPrompt(hackathonData, correction),
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: strategySchema
+        }
+      });
+
+      return readJson(response.text, response, "Strategy generation failed");
+    },
+
+    rewriteScript: async (hackathonData, request, correction, signal) => {
+      const response = await getClient().models.generateContent({
+        model: MODEL_REASONING,
+        contents: buildScriptRewritePrompt(hackathonData, request, correction),
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: scriptRewriteSchema
+        }
+      });
+
+      return readJson(response.text, response, "Script rewrite failed");
+    },
+
+    analyzeVideo: async (video, hackathonData, correction, signal) => {
+      const response = await getClient().models.generateContent({
+        model: MODEL_FAST,
+        contents: {
+          parts: [
+            ...videoParts(video),
+            { text: buildVideoPrompt(hackathonData, correction, video) }
+          ]
+        },
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: analysisSchema
+        }
+      });
+
+      return readJson(response.text, response, "Analysis failed");
+    },
+
+    gradeQaAnswer: async (question, answer, judge, correction, signal) => {
+      const response = await getClient().models.generateContent({
+        model: MODEL_FAST,
+        contents: buildQaGradingPrompt(question, answer, judge, correction),
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: qaGradeSchema
+        }
+      });
+
+      return readJson(response.text, response, "Grading failed");
+    },
+
+    uploadVideo: async (blob, mimeType, onProgress, signal) => {
+      if (!apiKey) throw createAIError('auth', "GEMINI_API_KEY is not set");
+      const start = await fetch(`${UPLOAD_URL}?key=${encodeURIComponent(apiKey)}`, {
+        method: 'POST',
+        signal,
+        headers: {
+          'X-Goog-Upload-Protocol': 'resumable',
+          'X-Goog-Upload-Command': 'start',
+          'X-Goog-Upload-Header-Content-Length': String(blob.size),
+          'X-Goog-Upload-Header-Content-Type': mimeType,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ file: { displayName: `demo-take-${Date.now()}` } })
+      });
+      const uploadUrl = start.headers.get('x-goog-upload-url');
+      if (!start.ok || !uploadUrl) throw await uploadError(start, "Starting the video upload");
+
+      let file: { name?: string; uri?: string; state?: string } | undefined;
+      let offset = 0;
+      let resumes = 0;
+      while (offset < blob.size) {
+        const end = Math.min(blob.size, offset + UPLOAD_CHUNK_BYTES);
+        try {
+          const response = await fetch(uploadUrl, {
+            method: 'POST',
+            signal,
+            headers: {
+              'X-Goog-Upload-Command': end === blob.size ? 'upload, finalize' : 'upload',
+              'X-Goog-Upload-Offset': String(offset)
+            },
+            body: blob.slice(offset, end)
+          });
+          if (!response.ok) throw await uploadError(response, "Video upload");
+          onProgress(end / blob.size);
+          if (end === blob.size) file = (await response.json()).file;
+          offset = end;
+        } catch (e) {
+          if (signal?.aborted || resumes >= UPLOAD_MAX_RESUMES || !toAIError(e).retryable) throw e;
+          resumes++;
+          await sleep(FILE_POLL_MS * resumes, signal);
+          const status = await fetch(uploadUrl, { method: 'POST', signal, headers: { 'X-Goog-Upload-Command': 'query' } });
+          if (!status.ok) throw await uploadError(status, "Resuming the video upload");
+          // The failed chunk may have been the last one and still arrived
+          if (status.headers.get('x-goog-upload-status') === 'final') {
+            file = (await status.json()).file;
+            break;
+          }
+          offset = Number(status.headers.get('x-goog-upload-size-received')) || 0;
+        }
+      }
+      if (!file?.name) throw createAIError('server', "Upload finished without a file reference");
+
+      // Video is transcoded server-side before it can be referenced
+      while (file.state === 'PROCESSING') {
+        await sleep(FILE_POLL_MS, signal);
+        file = await getClient().files.get({ name: file.name!, config: { abortSignal: signal } });
+      }
+      if (file.state === 'FAILED' || !file.uri) throw createAIError('server', "The uploaded video could not be processed");
+      return { uri: file.uri, name: file.name };
+    },
+
+    deleteVideo: async (name) => {
+      await getClient().files.delete({ name });
+    },
+
+    getCoachingTip: async (context, signal) => {
+      const response = await getClient().models.generateContent({
+        model: MODEL_FAST,
+        contents: buildCoachPrompt(context),
+        config: {
+          abortSignal: signal,
+          maxOutputTokens: 30,
+        }
+      });
+      return response.text || "Keep going!";
+    }
+  };
+};
@@ -0,0 +1,34 @@
+import { AIProvider, ProviderName } from "./types";
+import { createGeminiProvider } from "./gemini";
+import { createMockProvider } from "./mock";
+import { createOpenAIProvider } from "./openai";
+
+export type { AIProvider, ProviderName, StreamListener } from "./types";
+
+// AI_PROVIDER is resolved in vite.config.ts (explicit setting, else gemini when
+// a key is present, else mock).
+const createProvider = (): AIProvider => {
+  const name = (process.env.AI_PROVIDER || 'gemini') as ProviderName;
+  switch (name) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai':
+      return createOpenAIProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+        apiKey: process.env.OPENAI_API_KEY,
+        model: process.env.OPENAI_MODEL || 'llama3.1'
+      });
+    case 'gemini':
+      return createGeminiProvider(process.env.API_KEY);
+    default:
+      console.warn(`Unknown AI_PROVIDER "${name}", falling back to mock`);
+      return createMockProvider();
+  }
+};
+
+let provider: AIProvider | null = null;
+
+export const getProvider = (): AIProvider => {
+  if (!provider) provider = createProvider();
+  return provider;
+};
@@ -0,0 +1,114 @@
+import { AIProvider } from "./types";
+import { countWords } from "../speechMetrics";
+import { sleep } from "../aiRequest";
+import { MOCK_HACKATHON, MOCK_ANALYSIS, MOCK_COACH_TIPS } from "./mockFixtures";
+
+// Local stand-in used for offline demos and development without an API key.
+// Responses are deterministic copies of the fixtures after a short fake latency,
+// abortable like a real request so cancel buttons can be tried offline.
+const MOCK_LATENCY_MS = 800;
+
+export const createMockProvider = (): AIProvider => {
+  let tipIndex = 0;
+
+  return {
+    name: 'mock',
+    videoCapability: 'none',
+
+    // Streams the fixture in slices so the progress log behaves like a real call
+    analyzeHackathon: async (source, _correction, signal, listener) => {
+      const result = { ...structuredClone(MOCK_HACKATHON), url: source.url };
+      const text = JSON.stringify(result);
+      const slices = 12;
+      const size = Math.ceil(text.length / slices);
+      for (let i = 0; i < slices; i++) {
+        await sleep((MOCK_LATENCY_MS * 3) / slices, signal);
+        listener?.onText?.(text.slice(i * size, (i + 1) * size));
+      }
+      return result;
+    },
+
+    // Fixture strategy, nudged towards the corrected panel so edits visibly matter
+    generateStrategy: async (hackathonData, _correction, signal) => {
+      await sleep(MOCK_LATENCY_MS * 2, signal);
+      const strategy = structuredClone(MOCK_HACKATHON.strategy);
+      const focus = hackathonData.judges.flatMap(j => j.focusAreas).filter(Boolean);
+      const keyPhrases = hackathonData.strategy.keyPhrases.filter(p => p.trim());
+      return {
+        ...strategy,
+        keyPhrases: [...new Set([...keyPhrases, ...strategy.keyPhrases])],
+        featuresToEmphasize: focus.length > 0 ? [...new Set(focus)].slice(0, 4) : strategy.featuresToEmphasize
+      };
+    },
+
+    // Small visible edits so the script workshop's diffs and history can be tried offline
+    rewriteScript: async (hackathonData, request, _correction, signal) => {
+      await sleep(MOCK_LATENCY_MS * 2, signal);
+      const paragraphs = request.script.split('\n\n');
+      const asked = new Set(request.instruction.toLowerCase().match(/[a-z0-9]+/g) ?? []);
+      const judges = hackathonData.judges.filter(j => j.name.toLowerCase().split(/\s+/).some(w => w !== 'the' && asked.has(w)));
+      if (judges.length > 0) {
+        const lines = judges.map(j => `${j.name}, if ${(j.values[0] ?? 'results').toLowerCase()} matters to you, watch this next part.`);
+        paragraphs.splice(1, 0, lines.join(' '));
+        return { script: paragraphs.join('\n\n'), summary: `Added a line for ${judges.map(j => j.name).join(' and ')} after the opening.` };
+      }
+      if (/\b(tighten|shorten|shorter|cut|trim|seconds?)\b/i.test(request.instruction) && paragraphs.length > 2) {
+        const middle = paragraphs.slice(1, -1);
+        const longest = middle.reduce((a, b) => countWords(b) > countWords(a) ? b : a);
+        return { script: paragraphs.filter(p => p !== longest).join('\n\n'), summary: "Cut the longest middle paragraph." };
+      }
+      return { script: `${request.script.trim()}\n\nWe'd love your questions.`, summary: "Added a closing line inviting questions." };
+    },
+
+    // Team takes get per-presenter notes built from the measured hand-offs and segments
+    analyzeVideo: async (video, _hackathonData, _correction, signal) => {
+      await sleep(MOCK_LATENCY_MS * 2, signal);
+      const analysis = structuredClone(MOCK_ANALYSIS);
+      if (!video.team) return analysis;
+      const team = video.team;
+      return {
+        ...analysis,
+        presenterFeedback: team.stats.map((s, i) => {
+          const missed = s.segments.filter(seg => !seg.covered).map(seg => `"${seg.action}"`);
+          const rough = team.handoffs.filter(h => h.to === i && !h.smooth);
+          return {
+            presenterName: s.name,
+            feedback: [
+              missed.length > 0 ? `You didn't deliver ${missed.join(' or ')}.` : "You covered your part of the plan.",
+              rough.length > 0 ? `Your takeover at ${Math.round(rough[0].at)}s was rough: ${rough[0].note.toLowerCase()}.` : "Your takeovers were clean.",
+              s.wpm > 165 ? "Slow down a little." : ''
+            ].filter(Boolean).join(' ')
+          };
+        })
+      };
+    },
+
+    // Rough stand-in for a real grade: rewards substance and touching the judge's values
+    gradeQaAnswer: async (_question, answer, judge, _correction, signal) => {
+      await sleep(MOCK_LATENCY_MS, signal);
+      const words = countWords(answer);
+      const lower = answer.toLowerCase();
+      const hits = (judge?.values ?? []).filter(v => v.toLowerCase().split(/\s+/).some(w => w.length > 3 && lower.includes(w)));
+      const score = Math.min(10, Math.round(Math.min(words, 60) / 10) + hits.length * 2);
+      const feedback = words === 0
+        ? "I didn't hear an answer. Take a breath and answer the question directly."
+        : hits.length > 0
+          ? `Good, you spoke to ${hits.join(' and ')}. Lead with that next time.`
+          : `You answered, but didn't connect it to what I care about: ${judge?.values.join(', ') || 'the core problem'}.`;
+      return { score, feedback };
+    },
+
+    // Content tips only, like the real prompt asks; pace is the local rules' job
+    getCoachingTip: async (context, signal) => {
+      await sleep(MOCK_LATENCY_MS / 4, signal);
+      const fresh = MOCK_COACH_TIPS.steady.filter(t => !context.previousTips.includes(t));
+      if (fresh.length === 0) {
+        const focus = context.focusAreas[tipIndex++ % Math.max(context.focusAreas.length, 1)];
+        return focus ? `Tie this back to ${focus.toLowerCase()}!` : "Keep going!";
+      }
+      const tip = fresh[tipIndex % fresh.length];
+      tipIndex++;
+      return tip;
+    }
+  };
+};
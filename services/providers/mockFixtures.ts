@@ -0,0 +1,111 @@
+import { HackathonData, AnalysisResult, JudgeProvenance } from "../../types";
+import { DEFAULT_RUBRIC } from "../rubric";
+
+// Canned responses for the mock provider. Shaped like real model output so the
+// whole flow (analyze -> practice -> verdict) can run without a network.
+
+// No event page offline, so every mock judge is an honest archetype
+const ARCHETYPE: JudgeProvenance = {
+  origin: 'archetype',
+  sources: [],
+  confidence: { identity: 'low', values: 'medium', focusAreas: 'medium', redFlags: 'low' }
+};
+
+export const MOCK_HACKATHON: HackathonData = {
+  title: "Offline Demo Hackathon",
+  url: "",
+  criteria: DEFAULT_RUBRIC,
+  judges: [
+    {
+      name: "The Technical Lead",
+      role: "Staff Engineer",
+      company: "Infra Labs",
+      values: ["Working demos", "Sound architecture"],
+      focusAreas: ["Tech stack", "Scalability"],
+      redFlags: ["Hard-coded data", "Hand-waving about AI"],
+      recommendedTalkingPoints: ["Show the real data flow", "Name the hardest bug you fixed"],
+      provenance: ARCHETYPE
+    },
+    {
+      name: "The VC Investor",
+      role: "Partner",
+      company: "Seed Fund",
+      values: ["Market size", "Clear user pain"],
+      focusAreas: ["Business model", "Traction"],
+      redFlags: ["No target user", "Feature lists without a story"],
+      recommendedTalkingPoints: ["Who pays for this", "Why now"],
+      provenance: ARCHETYPE
+    },
+    {
+      name: "The Product Designer",
+      role: "Design Lead",
+      company: "Studio North",
+      values: ["Simplicity", "Delight"],
+      focusAreas: ["User journey", "Onboarding"],
+      redFlags: ["Cluttered UI", "Skipping the first-run experience"],
+      recommendedTalkingPoints: ["Walk through one user end to end", "Explain a design trade-off"],
+      provenance: ARCHETYPE
+    }
+  ],
+  strategy: {
+    structure: [
+      { time: "0:00-0:30", action: "Hook: the problem in one sentence" },
+      { time: "0:30-1:00", action: "Who has this problem and why it matters" },
+      { time: "1:00-2:30", action: "Live demo of the core flow" },
+      { time: "2:30-3:00", action: "Tech highlights and what's next" }
+    ],
+    keyPhrases: ["in under a minute", "built from scratch this weekend", "real users"],
+    featuresToEmphasize: ["Core workflow", "Offline support", "Speed"],
+    generatedScript: "Every team here has lost points to a demo that ran long.\n\nWe built a coach that listens while you practice and tells you what the judges will think.\n\nLet me show you: I paste the event link, it finds the panel, and writes a plan.\n\nUnder the hood it's React and a pluggable model layer, so it even works offline. Thank you."
+  }
+};
+
+export const MOCK_ANALYSIS: AnalysisResult = {
+  overallScore: 78,
+  strengths: [
+    "Opened with a concrete problem statement",
+    "Demo showed a complete user flow",
+    "Confident delivery and steady pace"
+  ],
+  improvements: [
+    "Intro ran about 20 seconds long (0:00-0:45)",
+    "Technical architecture was mentioned but never shown",
+    "Ending lacked a clear ask or next step"
+  ],
+  moments: [
+    { start: 0, end: 45, category: 'content', severity: 'major', judgeName: "The VC Investor", note: "Intro runs long before the problem is stated" },
+    { start: 50, end: 70, category: 'demo', severity: 'minor', judgeName: "The Product Designer", note: "First screen is rushed, hard to follow" },
+    { start: 95, end: 120, category: 'technical', severity: 'major', judgeName: "The Technical Lead", note: "Architecture mentioned but never shown" },
+    { start: 165, end: 180, category: 'delivery', severity: 'minor', note: "Ending trails off without an ask" }
+  ],
+  rubricScores: [
+    { judgeName: "The Technical Lead", criterion: "Technical Complexity", score: 6, justification: "Works, but I never saw what's under the hood." },
+    { judgeName: "The Technical Lead", criterion: "Impact", score: 7, justification: "Every team has this problem." },
+    { judgeName: "The Technical Lead", criterion: "Design", score: 8, justification: "Clean and easy to follow." },
+    { judgeName: "The Technical Lead", criterion: "Presentation", score: 7, justification: "Confident, slightly long intro." },
+    { judgeName: "The VC Investor", criterion: "Technical Complexity", score: 7, justification: "Seems solid enough for a weekend." },
+    { judgeName: "The VC Investor", criterion: "Impact", score: 8, justification: "Clear pain, unclear buyer." },
+    { judgeName: "The VC Investor", criterion: "Design", score: 8, justification: "Looks like a product, not a prototype." },
+    { judgeName: "The VC Investor", criterion: "Presentation", score: 7, justification: "No ask at the end." },
+    { judgeName: "The Product Designer", criterion: "Technical Complexity", score: 7, justification: "Not my area, but it held up live." },
+    { judgeName: "The Product Designer", criterion: "Impact", score: 8, justification: "I'd use this before my own talks." },
+    { judgeName: "The Product Designer", criterion: "Design", score: 9, justification: "The flow is simple and obvious." },
+    { judgeName: "The Product Designer", criterion: "Presentation", score: 8, justification: "Good energy, rushed first screen." }
+  ],
+  judgeSpecificFeedback: [
+    { judgeName: "The Technical Lead", feedback: "I want to see what's behind the UI. Show me one real request." },
+    { judgeName: "The VC Investor", feedback: "Good pain point, but who pays? Give me a number." },
+    { judgeName: "The Product Designer", feedback: "The flow is clean. Slow down on the first screen." }
+  ],
+  qaQuestions: [
+    { question: "What happens when the model is unavailable?", judgeName: "The Technical Lead" },
+    { question: "How is this different from recording yourself on your phone?", judgeName: "The Product Designer" },
+    { question: "Who is your first paying customer?", judgeName: "The VC Investor" },
+    { question: "What would you build next with another week?", judgeName: "The VC Investor" },
+    { question: "How do you measure whether a user actually improved?", judgeName: "The Technical Lead" }
+  ]
+};
+
+export const MOCK_COACH_TIPS = {
+  steady: ["Great energy, keep it up!", "Explain the 'Why' before the 'How'!", "Point at the screen as you talk!"]
+};
@@ -0,0 +1,135 @@
+import { buildHackathonPrompt, buildStrategyPrompt, buildScriptRewritePrompt, buildVideoPrompt, buildCoachPrompt, buildQaGradingPrompt } from "../prompts";
+import { AIProvider } from "./types";
+import { createAIError } from "../aiErrors";
+
+// Adapter for any server speaking the OpenAI chat completions API
+// (LM Studio, Ollama, vLLM, llama.cpp server, ...). Handy at venues with bad
+// Wi-Fi: point OPENAI_BASE_URL at a model running on the laptop.
+
+export interface OpenAIProviderConfig {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}
+
+// Without Gemini's responseSchema we spell out the expected shape in the prompt.
+const HACKATHON_SHAPE = `{"title": string, "url": string, "criteria": [{"name": string, "weight": number, "description": string, "scale": number}], "judges": [{"name": string, "role": string, "company": string, "values": string[], "focusAreas": string[], "redFlags": string[], "recommendedTalkingPoints": string[], "provenance": {"origin": "listed" | "researched" | "archetype", "sources": [{"title": string, "uri": string}], "confidence": {"identity": Confidence, "values": Confidence, "focusAreas": Confidence, "redFlags": Confidence}}}], "strategy": {"structure": [{"time": string, "action": string}], "keyPhrases": string[], "featuresToEmphasize": string[], "generatedScript": string}} where Confidence is "high" | "medium" | "low"`;
+
+const ANALYSIS_SHAPE = `{"overallScore": number, "strengths": string[], "improvements": string[], "moments": [{"start": number, "end": number, "category": "delivery" | "content" | "demo" | "technical" | "visual", "severity": "minor" | "major" | "critical", "judgeName": string, "note": string}], "rubricScores": [{"judgeName": string, "criterion": string, "score": number, "justification": string}], "judgeSpecificFeedback": [{"judgeName": string, "feedback": string}], "qaQuestions": [{"question": string, "judgeName": string}], "presenterFeedback": [{"presenterName": string, "feedback": string}]}`;
+
+export const createOpenAIProvider = (config: OpenAIProviderConfig): AIProvider => {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  // With onText set the request is streamed (server-sent events) and each
+  // content delta is forwarded as it arrives; the full text is still returned.
+  const complete = async (prompt: string, options: { json?: boolean; maxTokens?: number; signal?: AbortSignal; onText?: (delta: string) => void } = {}): Promise<string> => {
+    const stream = !!options.onText;
+    const res = await fetch(endpoint, {
+      method: 'POST',
+      signal: options.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages: [{ role: 'user', content: prompt }],
+        ...(options.json ? { response_format: { type: 'json_object' } } : {}),
+        ...(options.maxTokens ? { max_tokens: options.maxTokens } : {}),
+        ...(stream ? { stream: true } : {})
+      })
+    });
+    if (!res.ok) {
+      // status lets toAIError tell auth, rate limit and server errors apart
+      throw Object.assign(new Error(`OpenAI-compatible request failed: ${res.status} ${res.statusText}`), { status: res.status });
+    }
+    if (!stream || !res.body) {
+      const body = await res.json();
+      const text = body?.choices?.[0]?.message?.content ?? '';
+      if (text) options.onText?.(text);
+      return text;
+    }
+
+    const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffered = '';
+    let text = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffered += value;
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+        try {
+          const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+          if (delta) {
+            text += delta;
+            options.onText?.(delta);
+          }
+        } catch {
+          // Keep-alives and vendor extensions; not every server sends pure JSON events
+        }
+      }
+    }
+    return text;
+  };
+
+  const parseJson = (text: string): unknown => {
+    // Local models like to wrap JSON in markdown fences
+    const cleaned = text.replace(/^\s*```(?:json)?/i, '').replace(/```\s*$/, '');
+    try {
+      return JSON.parse(cleaned);
+    } catch (e) {
+      console.error("Failed to parse JSON", e);
+      throw createAIError('invalid-json', "Invalid JSON response from AI", { cause: e });
+    }
+  };
+
+  return {
+    name: 'openai',
+    videoCapability: 'none',
+
+    analyzeHackathon: async (source, correction, signal, listener) => {
+      // Chat completions takes text only, so attached PDFs are named but not read
+      const note = source.files.length > 0 ? `\nThe attached documents (${source.files.map(f => f.name).join(', ')}) could not be included; rely on the text above.` : '';
+      const prompt = `${buildHackathonPrompt(source, correction)}${note}\nIf you cannot browse, infer what you can from the URL.\nJSON shape: ${HACKATHON_SHAPE}`;
+      const text = await complete(prompt, { json: true, signal, onText: delta => listener?.onText?.(delta) });
+      if (!text) throw new Error("No data returned from model");
+      return parseJson(text);
+    },
+
+    generateStrategy: async (hackathonData, correction, signal) => {
+      const text = await complete(buildStrategyPrompt(hackathonData, correction), { json: true, signal });
+      if (!text) throw new Error("Strategy generation failed");
+      return parseJson(text);
+    },
+
+    rewriteScript: async (hackathonData, request, correction, signal) => {
+      const text = await complete(buildScriptRewritePrompt(hackathonData, request, correction), { json: true, signal });
+      if (!text) throw new Error("Script rewrite failed");
+      return parseJson(text);
+    },
+
+    analyzeVideo: async (video, hackathonData, correction, signal) => {
+      // Chat completions has no video input, so the model judges from context only
+      const note = `You cannot see the video. It is ${(video.sizeBytes / 1024 / 1024).toFixed(1)} MB of ${video.mimeType}; base the analysis on the hackathon context and typical demo pitfalls.`;
+      const prompt = `${buildVideoPrompt(hackathonData, correction, video)}\n${note}\nJSON shape: ${ANALYSIS_SHAPE}`;
+      const text = await complete(prompt, { json: true, signal });
+      if (!text) throw new Error("Analysis failed");
+      return parseJson(text);
+    },
+
+    gradeQaAnswer: async (question, answer, judge, correction, signal) => {
+      const text = await complete(buildQaGradingPrompt(question, answer, judge, correction), { json: true, signal });
+      if (!text) throw new Error("Grading failed");
+      return parseJson(text);
+    },
+
+    getCoachingTip: async (context, signal) => {
+      const text = await complete(buildCoachPrompt(context), { maxTokens: 30, signal });
+      return text.trim() || "Keep going!";
+    }
+  };
+};
@@ -0,0 +1,39 @@
+
+import { CoachingContext, GroundingSource, HackathonData, HackathonSource, Judge, ScriptRewriteRequest } from "../../types";
+import { VideoInput } from "../media";
+
+export type ProviderName = 'gemini' | 'mock' | 'openai';
+
+// Optional callbacks for streamed responses. Adapters that can't stream call
+// onText once with the whole response.
+export interface StreamListener {
+  onText?: (delta: string) => void;
+  onSources?: (sources: GroundingSource[]) => void;
+}
+
+// What the backend can do with a recording, see services/media.ts:
+// 'none' gets metadata only, 'inline' takes small takes as base64 and needs
+// larger ones reduced, 'upload' also accepts large takes through uploadVideo.
+export type VideoCapability = 'none' | 'inline' | 'upload';
+
+// The jobs every AI backend has to cover. geminiService.ts talks to
+// whichever adapter is selected at build time through this interface.
+//
+// Structured jobs return the parsed but unvalidated JSON; geminiService runs it
+// through services/validation.ts. `correction` carries validation errors from a
+// previous attempt when the service re-asks the model. `signal` aborts the
+// request on timeout or cancellation; services/aiRequest.ts owns both.
+export interface AIProvider {
+  name: ProviderName;
+  videoCapability: VideoCapability;
+  analyzeHackathon: (source: HackathonSource, correction?: string, signal?: AbortSignal, listener?: StreamListener) => Promise<unknown>;
+  generateStrategy: (hackathonData: HackathonData, correction?: string, signal?: AbortSignal) => Promise<unknown>;
+  rewriteScript: (hackathonData: HackathonData, request: ScriptRewriteRequest, correction?: string, signal?: AbortSignal) => Promise<unknown>;
+  analyzeVideo: (video: VideoInput, hackathonData: HackathonData, correction?: string, signal?: AbortSignal) => Promise<unknown>;
+  gradeQaAnswer: (question: string, answer: string, judge: Judge | undefined, correction?: string, signal?: AbortSignal) => Promise<unknown>;
+  getCoachingTip: (context: CoachingContext, signal?: AbortSignal) => Promise<string>;
+  // Returns a file URI usable in analyzeVideo and the name that deletes it;
+  // onProgress gets the uploaded fraction
+  uploadVideo?: (blob: Blob, mimeType: string, onProgress: (fraction: number) => void, signal?: AbortSignal) => Promise<{ uri: string; name: string }>;
+  deleteVideo?: (name: string) => Promise<void>;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { AnalysisResult, CriterionScore, RubricCriterion } from "../types";
+import { DEFAULT_RUBRIC, applyRubricScore, computeRubricBreakdown, weightShares } from "./rubric";
+
+const criterion = (name: string, weight: number, scale = 10): RubricCriterion => ({ name, weight, description: "", scale });
+
+const score = (judgeName: string, criterion: string, value: number): CriterionScore => ({ judgeName, criterion, score: value, justification: "" });
+
+const result = (rubricScores: CriterionScore[]): AnalysisResult => ({
+  overallScore: 42,
+  strengths: [],
+  improvements: [],
+  moments: [],
+  rubricScores,
+  judgeSpecificFeedback: [],
+  qaQuestions: []
+});
+
+describe("weightShares", () => {
+  it("turns raw weights into percentages", () => {
+    expect(weightShares([criterion("A", 3), criterion("B", 1)])).toEqual([75, 25]);
+  });
+
+  it("splits evenly when no weights are given", () => {
+    expect(weightShares([criterion("A", 0), criterion("B", 0)])).toEqual([50, 50]);
+  });
+});
+
+describe("computeRubricBreakdown", () => {
+  it("normalises each criterion by its own scale", () => {
+    const breakdown = computeRubricBreakdown([criterion("Impact", 1), criterion("Design", 1, 5)], [score("Ada", "Impact", 8), score("Ada", "Design", 5)]);
+    expect(breakdown.criteria.map(c => c.earnedPoints)).toEqual([40, 50]);
+    expect(breakdown.total).toBe(90);
+  });
+
+  it("weights criteria by their share", () => {
+    const breakdown = computeRubricBreakdown([criterion("Impact", 3), criterion("Design", 1)], [score("Ada", "Impact", 10), score("Ada", "Design", 0)]);
+    expect(breakdown.criteria.map(c => c.maxPoints)).toEqual([75, 25]);
+    expect(breakdown.total).toBe(75);
+  });
+
+  it("averages judges and clamps scores to the scale", () => {
+    const breakdown = computeRubricBreakdown([criterion("Impact", 1, 5)], [score("Ada", "Impact", 3), score("Bo", "Impact", 9)]);
+    expect(breakdown.criteria[0].averageScore).toBe(4);
+    expect(breakdown.criteria[0].scores.map(s => s.score)).toEqual([3, 5]);
+    expect(breakdown.total).toBe(80);
+  });
+
+  it("averages only the judges who scored a criterion", () => {
+    const breakdown = computeRubricBreakdown(
+      [criterion("Impact", 1), criterion("Design", 1)],
+      [score("Ada", "Impact", 6), score("Bo", "Impact", 8), score("Ada", " design ", 4)]
+    );
+    expect(breakdown.criteria.map(c => c.averageScore)).toEqual([7, 4]);
+    expect(breakdown.criteria[1].scores).toHaveLength(1);
+    expect(breakdown.total).toBe(55);
+  });
+
+  it("leaves criteria nobody scored out of the total", () => {
+    const breakdown = computeRubricBreakdown([criterion("Impact", 1), criterion("Design", 1)], [score("Ada", "Impact", 10)]);
+    expect(breakdown.criteria[1]).toMatchObject({ averageScore: null, earnedPoints: 0, scores: [] });
+    expect(breakdown.total).toBe(100);
+  });
+
+  it("falls back to the default rubric", () => {
+    const breakdown = computeRubricBreakdown([], DEFAULT_RUBRIC.map(c => score("Ada", c.name, 5)));
+    expect(breakdown.criteria.map(c => c.criterion)).toEqual(DEFAULT_RUBRIC);
+    expect(breakdown.total).toBe(50);
+  });
+
+  it("scores zero when nothing was scored", () => {
+    expect(computeRubricBreakdown([criterion("Impact", 1)], []).total).toBe(0);
+  });
+});
+
+describe("applyRubricScore", () => {
+  const criteria = [criterion("Impact", 1), criterion("Design", 1)];
+
+  it("replaces the model's score with the weighted total", () => {
+    expect(applyRubricScore(result([score("Ada", "Impact", 9), score("Ada", "Design", 7)]), criteria).overallScore).toBe(80);
+  });
+
+  it("keeps the model's score without matching rubric scores", () => {
+    const withoutScores = result([]);
+    expect(applyRubricScore(withoutScores, criteria)).toBe(withoutScores);
+    const offRubric = result([score("Ada", "Originality", 9)]);
+    expect(applyRubricScore(offRubric, criteria)).toBe(offRubric);
+  });
+});
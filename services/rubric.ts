@@ -0,0 +1,82 @@
+import { AnalysisResult, CriterionScore, RubricCriterion } from "../types";
+
+// Weighted rubric scoring. The model scores each criterion per judge; the
+// overall score is computed here from those scores and the rubric weights so
+// it always matches the breakdown shown on the verdict page.
+
+export const DEFAULT_RUBRIC: RubricCriterion[] = [
+  { name: "Technical Complexity", weight: 25, description: "How hard was it to build, and does it actually work?", scale: 10 },
+  { name: "Impact", weight: 25, description: "Does it solve a real problem for real users?", scale: 10 },
+  { name: "Design", weight: 25, description: "Is it usable and polished?", scale: 10 },
+  { name: "Presentation", weight: 25, description: "Was the demo clear, compelling and on time?", scale: 10 }
+];
+
+export interface CriterionBreakdown {
+  criterion: RubricCriterion;
+  // Share of the 100-point total this criterion is worth
+  maxPoints: number;
+  earnedPoints: number;
+  // Average judge score on the criterion's own scale, null if nobody scored it
+  averageScore: number | null;
+  scores: CriterionScore[];
+}
+
+export interface RubricBreakdown {
+  criteria: CriterionBreakdown[];
+  total: number;
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const rubricOrDefault = (criteria: RubricCriterion[]) => criteria.length > 0 ? criteria : DEFAULT_RUBRIC;
+
+// Weight shares in percent, summing to 100
+export const weightShares = (criteria: RubricCriterion[]): number[] => {
+  const sum = criteria.reduce((s, c) => s + c.weight, 0);
+  return criteria.map(c => sum > 0 ? (c.weight / sum) * 100 : 100 / criteria.length);
+};
+
+export const computeRubricBreakdown = (criteria: RubricCriterion[], scores: CriterionScore[]): RubricBreakdown => {
+  const rubric = rubricOrDefault(criteria);
+  const shares = weightShares(rubric);
+
+  const rows = rubric.map((criterion, i) => {
+    const matching = scores
+      .filter(s => sameName(s.criterion, criterion.name))
+      .map(s => ({ ...s, score: Math.min(s.score, criterion.scale) }));
+    const averageScore = matching.length > 0 ? matching.reduce((sum, s) => sum + s.score, 0) / matching.length : null;
+    return {
+      criterion,
+      maxPoints: shares[i],
+      earnedPoints: averageScore === null ? 0 : (averageScore / criterion.scale) * shares[i],
+      averageScore,
+      scores: matching
+    };
+  });
+
+  // Unscored criteria are left out rather than counted as zero
+  const scored = rows.filter(r => r.averageScore !== null);
+  const possible = scored.reduce((sum, r) => sum + r.maxPoints, 0);
+  const earned = scored.reduce((sum, r) => sum + r.earnedPoints, 0);
+
+  return {
+    criteria: rows,
+    total: possible > 0 ? Math.round((earned / possible) * 100) : 0
+  };
+};
+
+// Replaces the model's free-form overallScore with the weighted rubric total
+// whenever rubric scores are available.
+export const applyRubricScore = (result: AnalysisResult, criteria: RubricCriterion[]): AnalysisResult => {
+  const breakdown = computeRubricBreakdown(criteria, result.rubricScores);
+  if (!breakdown.criteria.some(c => c.averageScore !== null)) return result;
+  return { ...result, overallScore: breakdown.total };
+};
+
+export const describeRubric = (criteria: RubricCriterion[]): string => {
+  const rubric = rubricOrDefault(criteria);
+  const shares = weightShares(rubric);
+  return rubric
+    .map((c, i) => `- ${c.name} (${Math.round(shares[i])}% of total, scored 0-${c.scale})${c.description ? `: ${c.description}` : ''}`)
+    .join('\n');
+};
@@ -0,0 +1,141 @@
+import { CaptureLayout, FrameRegion, PipCorner } from "../types";
+
+// Screen-share recording: the shared screen fills the frame and the camera sits
+// in a picture-in-picture corner, drawn onto one canvas so MediaRecorder gets
+// a single video track. The layout travels with the take so analysis knows
+// which part of the frame is the product.
+
+const OUTPUT_WIDTH = 1280;
+const OUTPUT_HEIGHT = 720;
+const FRAME_RATE = 30;
+const PIP_WIDTH = 0.24;
+const PIP_MARGIN = 0.02;
+
+export interface ScreenCompositor {
+  // Canvas video plus the microphone from the camera stream
+  stream: MediaStream;
+  layout: CaptureLayout;
+  setCameraCorner: (corner: PipCorner | null) => void;
+  stop: () => void;
+}
+
+export const PIP_CORNERS: PipCorner[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+export const pipRegion = (corner: PipCorner): FrameRegion => {
+  const height = PIP_WIDTH * (OUTPUT_WIDTH / OUTPUT_HEIGHT) * (3 / 4);
+  const marginY = PIP_MARGIN * (OUTPUT_WIDTH / OUTPUT_HEIGHT);
+  return {
+    x: corner.endsWith('left') ? PIP_MARGIN : 1 - PIP_MARGIN - PIP_WIDTH,
+    y: corner.startsWith('top') ? marginY : 1 - marginY - height,
+    width: PIP_WIDTH,
+    height
+  };
+};
+
+export const layoutFor = (corner: PipCorner | null): CaptureLayout => ({
+  screen: { x: 0, y: 0, width: 1, height: 1 },
+  camera: corner ? pipRegion(corner) : null,
+  cameraCorner: corner
+});
+
+export const isScreenCaptureSupported = (): boolean =>
+  typeof navigator !== 'undefined' && typeof navigator.mediaDevices?.getDisplayMedia === 'function';
+
+export const requestScreenShare = (): Promise<MediaStream> =>
+  navigator.mediaDevices.getDisplayMedia({ video: { frameRate: FRAME_RATE }, audio: false });
+
+// Background tabs throttle requestAnimationFrame and timers to ~1/s, and the
+// presenter spends the demo on the product's tab. Worker timers keep running.
+const createTicker = (intervalMs: number, onTick: () => void): (() => void) => {
+  const url = URL.createObjectURL(new Blob([`setInterval(() => postMessage(0), ${intervalMs});`], { type: 'text/javascript' }));
+  const worker = new Worker(url);
+  worker.onmessage = onTick;
+  return () => {
+    worker.terminate();
+    URL.revokeObjectURL(url);
+  };
+};
+
+const playingVideo = (stream: MediaStream): HTMLVideoElement => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  video.play().catch(() => {});
+  return video;
+};
+
+// Scales source to fit (contain) or fill (cover) the target rectangle
+const drawFitted = (
+  ctx: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  region: FrameRegion,
+  fit: 'contain' | 'cover'
+) => {
+  if (!video.videoWidth || !video.videoHeight) return;
+  const target = { x: region.x * OUTPUT_WIDTH, y: region.y * OUTPUT_HEIGHT, w: region.width * OUTPUT_WIDTH, h: region.height * OUTPUT_HEIGHT };
+  const scale = fit === 'contain'
+    ? Math.min(target.w / video.videoWidth, target.h / video.videoHeight)
+    : Math.max(target.w / video.videoWidth, target.h / video.videoHeight);
+  const w = video.videoWidth * scale;
+  const h = video.videoHeight * scale;
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(target.x, target.y, target.w, target.h);
+  ctx.clip();
+  ctx.drawImage(video, target.x + (target.w - w) / 2, target.y + (target.h - h) / 2, w, h);
+  ctx.restore();
+};
+
+export const createScreenCompositor = (
+  screenStream: MediaStream,
+  cameraStream: MediaStream | null,
+  options: { cameraCorner: PipCorner | null; onScreenEnded?: () => void }
+): ScreenCompositor => {
+  const canvas = document.createElement('canvas');
+  canvas.width = OUTPUT_WIDTH;
+  canvas.height = OUTPUT_HEIGHT;
+  const ctx = canvas.getContext('2d')!;
+  const screenVideo = playingVideo(screenStream);
+  const cameraVideo = cameraStream && cameraStream.getVideoTracks().length > 0 ? playingVideo(new MediaStream(cameraStream.getVideoTracks())) : null;
+  let layout = layoutFor(cameraVideo ? options.cameraCorner : null);
+
+  const draw = () => {
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, OUTPUT_WIDTH, OUTPUT_HEIGHT);
+    drawFitted(ctx, screenVideo, layout.screen, 'contain');
+    if (cameraVideo && layout.camera) {
+      drawFitted(ctx, cameraVideo, layout.camera, 'cover');
+      ctx.strokeStyle = 'rgba(255,255,255,0.8)';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(layout.camera.x * OUTPUT_WIDTH, layout.camera.y * OUTPUT_HEIGHT, layout.camera.width * OUTPUT_WIDTH, layout.camera.height * OUTPUT_HEIGHT);
+    }
+  };
+  const stopTicker = createTicker(1000 / FRAME_RATE, draw);
+
+  // "Stop sharing" in the browser bar ends the screen track
+  const onEnded = () => options.onScreenEnded?.();
+  screenStream.getVideoTracks()[0]?.addEventListener('ended', onEnded);
+
+  const canvasTrack = canvas.captureStream(FRAME_RATE).getVideoTracks()[0];
+  const stream = new MediaStream([canvasTrack, ...(cameraStream?.getAudioTracks() ?? [])]);
+
+  return {
+    stream,
+    get layout() {
+      return layout;
+    },
+    setCameraCorner: (corner) => {
+      layout = layoutFor(cameraVideo ? corner : null);
+    },
+    stop: () => {
+      stopTicker();
+      screenStream.getVideoTracks()[0]?.removeEventListener('ended', onEnded);
+      canvasTrack.stop();
+      // The camera stream belongs to the mirror; only the screen share is ours
+      screenStream.getTracks().forEach(t => t.stop());
+      screenVideo.srcObject = null;
+      if (cameraVideo) cameraVideo.srcObject = null;
+    }
+  };
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { advance, currentSentenceIndex, initialAlignment, parseScript, skippedSentenceIndexes, summarizeCoverage, wordsMatch } from "./scriptAligner";
+
+const SCRIPT = [
+  "We built a mirror for practice. It listens while you speak.",
+  "Judges react to every claim. The scores come from a rubric.",
+  "Teams can rehearse together remotely."
+].join('\n\n');
+
+const script = parseScript(SCRIPT);
+const speak = (...chunks: string[]) => chunks.reduce((state, text) => advance(script, state, text), initialAlignment(script));
+
+describe("parseScript", () => {
+  it("splits paragraphs into sentences over one flat word list", () => {
+    expect(script.sentences.map(s => [s.paragraph, s.start, s.end])).toEqual([[0, 0, 6], [0, 6, 11], [1, 11, 16], [1, 16, 22], [2, 22, 27]]);
+    expect(script.words.slice(0, 3)).toEqual(['we', 'built', 'a']);
+  });
+});
+
+describe("wordsMatch", () => {
+  it("tolerates small recognizer slips on longer words only", () => {
+    expect(wordsMatch("mirrors", "mirror")).toBe(true);
+    expect(wordsMatch("rehearsing", "rehearse")).toBe(true);
+    expect(wordsMatch("it", "at")).toBe(false);
+  });
+});
+
+describe("advance", () => {
+  it("follows the script without mutating the previous state", () => {
+    const start = initialAlignment(script);
+    const state = advance(script, start, "We built a mirror for practice");
+    expect(state.cursor).toBe(6);
+    expect(start.cursor).toBe(0);
+    expect(start.covered.some(Boolean)).toBe(false);
+    expect(currentSentenceIndex(script, state)).toBe(1);
+  });
+
+  it("steps over ad-libbed words", () => {
+    const state = speak("We built um like a mirror", "for practice");
+    expect(state.cursor).toBe(6);
+    expect(state.covered.slice(0, 6).every(Boolean)).toBe(true);
+    expect(skippedSentenceIndexes(script, state)).toEqual([]);
+  });
+
+  it("marks a sentence skipped when the presenter jumps within the lookahead", () => {
+    const state = speak("We built a mirror for practice.", "Judges react to every claim.");
+    expect(skippedSentenceIndexes(script, state)).toEqual([1]);
+    expect(currentSentenceIndex(script, state)).toBe(3);
+  });
+
+  it("re-anchors on a run of words further ahead", () => {
+    const state = speak("We built a mirror for practice.", "Teams can rehearse together");
+    expect(state.cursor).toBe(26);
+    expect(state.unmatched).toEqual([]);
+    expect(skippedSentenceIndexes(script, state)).toEqual([1, 2, 3]);
+  });
+
+  it("doesn't re-anchor on off-script chatter", () => {
+    const state = speak("We built a mirror for practice.", "sorry let me grab some water");
+    expect(state.cursor).toBe(6);
+    expect(state.unmatched).toHaveLength(4);
+  });
+});
+
+describe("summarizeCoverage", () => {
+  it("counts covered words and names skipped sentences", () => {
+    const state = speak("We built a mirror for practice.", "Teams can rehearse together remotely.");
+    expect(summarizeCoverage(script, state)).toEqual({
+      coverage: 41,
+      sentencesCovered: 2,
+      totalSentences: 5,
+      skipped: ["It listens while you speak.", "Judges react to every claim.", "The scores come from a rubric."]
+    });
+  });
+
+  it("treats anything never reached as skipped", () => {
+    const summary = summarizeCoverage(script, speak("We built a mirror for practice. It listens while you speak."));
+    expect(summary.coverage).toBe(41);
+    expect(summary.sentencesCovered).toBe(2);
+    expect(summary.skipped).toHaveLength(3);
+  });
+
+  it("handles an empty script", () => {
+    const empty = parseScript("");
+    expect(summarizeCoverage(empty, initialAlignment(empty))).toEqual({ coverage: 0, sentencesCovered: 0, totalSentences: 0, skipped: [] });
+  });
+});
@@ -0,0 +1,147 @@
+import { ScriptCoverage } from "../types";
+
+// Aligns the live speech transcript against the generated script so the
+// teleprompter can follow the presenter. Spoken words are matched fuzzily
+// (recognizers mangle names and plurals) a short distance ahead of the
+// current position; if the presenter jumps further ahead, a run of recent
+// words is used to re-anchor. Words passed over are what "skipped" means.
+
+export interface ScriptSentence {
+  text: string;
+  paragraph: number;
+  // Range into the flat word list, end exclusive
+  start: number;
+  end: number;
+}
+
+export interface ParsedScript {
+  sentences: ScriptSentence[];
+  words: string[];
+}
+
+export interface AlignmentState {
+  // Index of the next script word we expect to hear
+  cursor: number;
+  covered: boolean[];
+  // Recent spoken words that didn't match near the cursor
+  unmatched: string[];
+}
+
+const LOOKAHEAD = 12;
+const ANCHOR_WORDS = 4;
+const ANCHOR_MIN_HITS = 3;
+// Sentences passed with less coverage than this count as skipped
+const SKIP_THRESHOLD = 0.3;
+
+export const normalizeWord = (word: string) => word.toLowerCase().replace(/[^a-z0-9']/g, '').replace(/'/g, '');
+
+const toWords = (text: string) => text.split(/\s+/).map(normalizeWord).filter(Boolean);
+
+export const parseScript = (script: string): ParsedScript => {
+  const sentences: ScriptSentence[] = [];
+  const words: string[] = [];
+  script.split('\n\n').forEach((paragraph, p) => {
+    paragraph.split(/(?<=[.!?])\s+/).map(s => s.trim()).filter(Boolean).forEach(text => {
+      const sentenceWords = toWords(text);
+      sentences.push({ text, paragraph: p, start: words.length, end: words.length + sentenceWords.length });
+      words.push(...sentenceWords);
+    });
+  });
+  return { sentences, words };
+};
+
+const editDistanceAtMostOne = (a: string, b: string): boolean => {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) { i++; j++; continue; }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else { i++; j++; }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+};
+
+export const wordsMatch = (spoken: string, scripted: string): boolean => {
+  if (spoken === scripted) return true;
+  const shorter = Math.min(spoken.length, scripted.length);
+  if (shorter >= 4 && editDistanceAtMostOne(spoken, scripted)) return true;
+  return shorter >= 5 && spoken.slice(0, 5) === scripted.slice(0, 5);
+};
+
+export const initialAlignment = (script: ParsedScript): AlignmentState => ({
+  cursor: 0,
+  covered: script.words.map(() => false),
+  unmatched: []
+});
+
+// Pure: returns a new state, so interim text can be previewed without committing
+export const advance = (script: ParsedScript, state: AlignmentState, text: string): AlignmentState => {
+  let { cursor, unmatched } = state;
+  const covered = [...state.covered];
+
+  for (const word of toWords(text)) {
+    let found = -1;
+    for (let k = cursor; k < Math.min(script.words.length, cursor + LOOKAHEAD); k++) {
+      if (wordsMatch(word, script.words[k])) { found = k; break; }
+    }
+
+    if (found >= 0) {
+      covered[found] = true;
+      cursor = found + 1;
+      unmatched = [];
+      continue;
+    }
+
+    // Off-script or jumped ahead: try to re-anchor on the last few words
+    unmatched = [...unmatched, word].slice(-ANCHOR_WORDS);
+    if (unmatched.length < ANCHOR_WORDS) continue;
+    for (let k = cursor + LOOKAHEAD; k <= script.words.length - ANCHOR_WORDS; k++) {
+      const hits = unmatched.filter((w, n) => wordsMatch(w, script.words[k + n])).length;
+      if (hits >= ANCHOR_MIN_HITS) {
+        unmatched.forEach((w, n) => { if (wordsMatch(w, script.words[k + n])) covered[k + n] = true; });
+        cursor = k + ANCHOR_WORDS;
+        unmatched = [];
+        break;
+      }
+    }
+  }
+
+  return { cursor, covered, unmatched };
+};
+
+export const currentSentenceIndex = (script: ParsedScript, state: AlignmentState): number => {
+  const index = script.sentences.findIndex(s => state.cursor < s.end);
+  return index === -1 ? script.sentences.length - 1 : index;
+};
+
+const sentenceCoverage = (sentence: ScriptSentence, state: AlignmentState) => {
+  const length = sentence.end - sentence.start;
+  if (length === 0) return 1;
+  let hit = 0;
+  for (let k = sentence.start; k < sentence.end; k++) if (state.covered[k]) hit++;
+  return hit / length;
+};
+
+// Sentences fully behind the cursor that were barely spoken
+export const skippedSentenceIndexes = (script: ParsedScript, state: AlignmentState): number[] =>
+  script.sentences
+    .map((s, i) => ({ s, i }))
+    .filter(({ s }) => s.end <= state.cursor && sentenceCoverage(s, state) < SKIP_THRESHOLD)
+    .map(({ i }) => i);
+
+export const summarizeCoverage = (script: ParsedScript, state: AlignmentState): ScriptCoverage => {
+  const coveredWords = state.covered.filter(Boolean).length;
+  // At the end of a take, anything never reached wasn't said either
+  const finalState = { ...state, cursor: script.words.length };
+  const skipped = skippedSentenceIndexes(script, finalState);
+  return {
+    coverage: script.words.length > 0 ? Math.round((coveredWords / script.words.length) * 100) : 0,
+    sentencesCovered: script.sentences.length - skipped.length,
+    totalSentences: script.sentences.length,
+    skipped: skipped.map(i => script.sentences[i].text)
+  };
+};
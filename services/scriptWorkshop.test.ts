@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { PracticeSession, RecordingMetrics } from "../types";
+import { MAX_SCRIPT_VERSIONS, addVersion, diffStats, diffWords, presenterWpm } from "./scriptWorkshop";
+
+describe("diffWords", () => {
+  it("marks added and removed words and keeps the spacing", () => {
+    const parts = diffWords("We built a fast tool.", "We built a really fast app.");
+    expect(parts).toEqual([
+      { op: 'same', text: "We built a " },
+      { op: 'added', text: "really " },
+      { op: 'same', text: "fast " },
+      { op: 'added', text: "app." },
+      { op: 'removed', text: "tool." }
+    ]);
+    expect(diffStats(parts)).toEqual({ added: 2, removed: 1 });
+  });
+
+  it("treats a change of spacing as no change", () => {
+    expect(diffWords("Hi  there", "Hi there").every(p => p.op === 'same')).toBe(true);
+  });
+
+  it("handles empty scripts", () => {
+    expect(diffWords("", "New script")).toEqual([{ op: 'added', text: "New script" }]);
+    expect(diffWords("Old", "")).toEqual([{ op: 'removed', text: "Old" }]);
+  });
+});
+
+describe("addVersion", () => {
+  it("skips a version identical to the latest", () => {
+    const history = addVersion([], "One", 'generated', "Original", 1);
+    expect(addVersion(history, "One", 'edited', "Again", 2)).toBe(history);
+    expect(addVersion(history, "Two", 'edited', "Edit", 2).map(v => v.script)).toEqual(["One", "Two"]);
+  });
+
+  it("keeps the original when trimming old versions", () => {
+    let history = addVersion([], "v0", 'generated', "Original", 0);
+    for (let i = 1; i <= MAX_SCRIPT_VERSIONS + 5; i++) history = addVersion(history, `v${i}`, 'edited', "Edit", i);
+    expect(history).toHaveLength(MAX_SCRIPT_VERSIONS);
+    expect(history[0].script).toBe("v0");
+    expect(history[history.length - 1].script).toBe(`v${MAX_SCRIPT_VERSIONS + 5}`);
+    expect(history[1].script).toBe("v7");
+  });
+});
+
+describe("presenterWpm", () => {
+  const take = (wpm: number | null): PracticeSession => ({
+    id: String(wpm),
+    createdAt: 0,
+    hackathon: { title: "HackX", url: "", judges: [], criteria: [], strategy: { structure: [], keyPhrases: [], featuresToEmphasize: [], generatedScript: "" } },
+    videoBlob: new Blob(),
+    metrics: wpm === null ? null : { wpm } as RecordingMetrics,
+    result: null
+  });
+
+  it("averages the latest takes that measured a pace", () => {
+    expect(presenterWpm([take(100), take(120), take(null), take(140), take(0), take(160)])).toBe(140);
+  });
+
+  it("is null without a measured take", () => {
+    expect(presenterWpm([take(null), take(0)])).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+import { AnalysisResult, HackathonData, PracticeSession, ScriptVersion, ScriptVersionSource } from "../types";
+import { parseScript } from "./scriptAligner";
+import { parseStructure, totalPlanned } from "./segmentPacing";
+import { newId } from "./ids";
+
+// Script workshop: version history, word diffs and read-time estimates for
+// strategy.generatedScript. Rewrites go through geminiService.rewriteScript;
+// everything here is local and pure.
+
+// The first version is always kept so the team can see how far they've come
+export const MAX_SCRIPT_VERSIONS = 30;
+// Until the presenter has a take with a measured pace
+export const DEFAULT_WPM = 140;
+// Takes averaged for the measured pace
+const WPM_TAKES = 3;
+// Above this many word pairs the diff falls back to replacing the changed middle
+const MAX_DIFF_CELLS = 2_000_000;
+
+export type DiffOp = 'same' | 'added' | 'removed';
+
+export interface DiffPart {
+  op: DiffOp;
+  text: string;
+}
+
+export const addVersion = (
+  history: ScriptVersion[],
+  script: string,
+  source: ScriptVersionSource,
+  note: string,
+  now = Date.now()
+): ScriptVersion[] => {
+  if (history.length > 0 && history[history.length - 1].script === script) return history;
+  const next = [...history, { id: newId(), createdAt: now, source, note, script }];
+  return next.length > MAX_SCRIPT_VERSIONS ? [next[0], ...next.slice(next.length - MAX_SCRIPT_VERSIONS + 1)] : next;
+};
+
+// Profiles from before the workshop have no history; the script they hold
+// counts as the generated one. A script edited outside the workshop since
+// the last version is recorded as an edit.
+export const scriptHistory = (data: HackathonData): ScriptVersion[] => {
+  const history = data.scriptHistory ?? [];
+  const script = data.strategy.generatedScript;
+  if (history.length === 0) return addVersion([], script, 'generated', 'Original script');
+  return addVersion(history, script, 'edited', 'Edited in the profile');
+};
+
+export const readTimeSeconds = (script: string, wpm: number): number =>
+  parseScript(script).words.length / Math.max(wpm, 1) * 60;
+
+// Planned run time from the strategy's timeline
+export const plannedSeconds = (data: HackathonData): number =>
+  totalPlanned(parseStructure(data.strategy.structure));
+
+// Average pace of the latest takes that measured one; sessions are oldest first
+export const presenterWpm = (sessions: PracticeSession[]): number | null => {
+  const paced = sessions.filter(s => (s.metrics?.wpm ?? 0) > 0).slice(-WPM_TAKES);
+  if (paced.length === 0) return null;
+  return Math.round(paced.reduce((sum, s) => sum + s.metrics!.wpm, 0) / paced.length);
+};
+
+// Rewrite instruction built from a verdict's improvements and per-judge notes
+export const feedbackInstruction = (result: AnalysisResult): string => {
+  const improvements = result.improvements.filter(i => i.trim());
+  const judges = result.judgeSpecificFeedback.filter(f => f.feedback.trim());
+  return [
+    "Revise the script to address this feedback from our last practice take. Only change what the feedback is about.",
+    ...(improvements.length > 0 ? ["", "Improvements:", ...improvements.map(i => `- ${i}`)] : []),
+    ...(judges.length > 0 ? ["", "Judges:", ...judges.map(f => `- ${f.judgeName}: ${f.feedback}`)] : [])
+  ].join('\n');
+};
+
+// Words keep their trailing whitespace so the diff renders with the original spacing
+const tokens = (text: string): string[] => text.match(/\S+\s*/g) ?? [];
+
+const push = (parts: DiffPart[], op: DiffOp, text: string) => {
+  const last = parts[parts.length - 1];
+  if (last && last.op === op) last.text += text;
+  else parts.push({ op, text });
+};
+
+// Word-level diff (longest common subsequence) from `before` to `after`
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokens(before);
+  const b = tokens(after);
+  const same = (i: number, j: number) => a[i].trimEnd() === b[j].trimEnd();
+
+  let start = 0;
+  while (start < a.length && start < b.length && same(start, start)) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && same(endA - 1, endB - 1)) { endA--; endB--; }
+
+  const parts: DiffPart[] = [];
+  b.slice(0, start).forEach(t => push(parts, 'same', t));
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n * m > MAX_DIFF_CELLS) {
+    a.slice(start, endA).forEach(t => push(parts, 'removed', t));
+    b.slice(start, endB).forEach(t => push(parts, 'added', t));
+  } else {
+    // lcs[i][j] = common words in a[start+i..endA) and b[start+j..endB)
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] = same(start + i, start + j)
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && same(start + i, start + j)) {
+        push(parts, 'same', b[start + j]);
+        i++;
+        j++;
+      } else if (j < m && (i === n || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+        push(parts, 'added', b[start + j++]);
+      } else {
+        push(parts, 'removed', a[start + i++]);
+      }
+    }
+  }
+
+  b.slice(endB).forEach(t => push(parts, 'same', t));
+  return parts;
+};
+
+// Words added and removed, for the history list
+export const diffStats = (parts: DiffPart[]): { added: number; removed: number } => {
+  const count = (op: DiffOp) => parts.filter(p => p.op === op).reduce((sum, p) => sum + tokens(p.text).length, 0);
+  return { added: count('added'), removed: count('removed') };
+};
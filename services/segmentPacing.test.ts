@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { createSegmentTracker, parseStructure, parseTime, totalPlanned } from "./segmentPacing";
+
+const T0 = 1_000_000;
+
+describe("parseTime", () => {
+  it("reads ranges, lengths and start times", () => {
+    expect(parseTime("0:00-0:30")).toEqual({ kind: 'range', start: 0, end: 30 });
+    expect(parseTime("1-2 min")).toEqual({ kind: 'range', start: 60, end: 120 });
+    expect(parseTime("30 to 45 seconds")).toEqual({ kind: 'range', start: 30, end: 45 });
+    expect(parseTime("30s")).toEqual({ kind: 'length', length: 30 });
+    expect(parseTime("1.5 mins")).toEqual({ kind: 'length', length: 90 });
+    expect(parseTime("Intro (0:45)")).toEqual({ kind: 'at', start: 45 });
+  });
+
+  it("doesn't mistake counted things for units", () => {
+    expect(parseTime("2 slides")).toBeNull();
+    expect(parseTime("3 steps")).toBeNull();
+    expect(parseTime("3 milestones")).toBeNull();
+    expect(parseTime("Walk through 2 slides (30s)")).toEqual({ kind: 'length', length: 30 });
+  });
+
+  it("returns null for rows without a usable time", () => {
+    expect(parseTime("")).toBeNull();
+    expect(parseTime("Demo")).toBeNull();
+    expect(parseTime("0:30-0:10")).toEqual({ kind: 'at', start: 30 });
+  });
+});
+
+describe("parseStructure", () => {
+  it("chains lengths and fills untimed rows", () => {
+    const segments = parseStructure([
+      { time: "0:00-0:30", action: "Hook" },
+      { time: "45s", action: "Demo" },
+      { time: "Closing at 1:30", action: "Ask" },
+      { time: "", action: "Q&A" }
+    ]);
+    expect(segments).toEqual([
+      { action: "Hook", start: 0, end: 30 },
+      { action: "Demo", start: 30, end: 75 },
+      { action: "Ask", start: 90, end: 135 },
+      { action: "Q&A", start: 135, end: 180 }
+    ]);
+    expect(totalPlanned(segments)).toBe(180);
+  });
+
+  it("ends an untimed row where the next timed row starts", () => {
+    const segments = parseStructure([{ time: "", action: "Hook" }, { time: "0:20", action: "Demo" }], 60);
+    expect(segments).toEqual([{ action: "Hook", start: 0, end: 20 }, { action: "Demo", start: 20, end: 60 }]);
+  });
+
+  it("splits evenly when nothing is timed", () => {
+    const segments = parseStructure([{ time: "", action: "A" }, { time: "", action: "B" }, { time: "", action: "C" }], 90);
+    expect(segments.map(s => [s.start, s.end])).toEqual([[0, 30], [30, 60], [60, 90]]);
+  });
+});
+
+describe("createSegmentTracker", () => {
+  const segments = [
+    { action: "Hook", start: 0, end: 30 },
+    { action: "Demo", start: 30, end: 60 },
+    { action: "Ask", start: 60, end: 90 }
+  ];
+
+  it("reports on-track, behind and ahead", () => {
+    const tracker = createSegmentTracker(segments);
+    tracker.start(T0);
+    expect(tracker.status(T0 + 10_000)).toEqual({ expectedIndex: 0, actualIndex: 0, remaining: 20, drift: 0, pace: 'on-track' });
+
+    expect(tracker.status(T0 + 40_000)).toMatchObject({ expectedIndex: 1, actualIndex: 0, drift: 10, pace: 'behind' });
+
+    tracker.next(T0 + 40_000);
+    expect(tracker.status(T0 + 45_000)).toMatchObject({ actualIndex: 1, drift: 0, pace: 'on-track' });
+
+    tracker.advanceTo(2, T0 + 50_000);
+    expect(tracker.status(T0 + 50_000)).toMatchObject({ expectedIndex: 1, actualIndex: 2, drift: -10, pace: 'ahead' });
+  });
+
+  it("only moves forward and records actual timings", () => {
+    const tracker = createSegmentTracker(segments);
+    tracker.start(T0);
+    tracker.advanceTo(2, T0 + 25_000);
+    tracker.advanceTo(1, T0 + 30_000);
+    tracker.next(T0 + 35_000);
+    expect(tracker.finish(T0 + 80_000)).toEqual([
+      { action: "Hook", plannedStart: 0, plannedEnd: 30, actualStart: 0, actualEnd: 25 },
+      { action: "Demo", plannedStart: 30, plannedEnd: 60, actualStart: null, actualEnd: null },
+      { action: "Ask", plannedStart: 60, plannedEnd: 90, actualStart: 25, actualEnd: 80 }
+    ]);
+  });
+
+  it("has no status without segments", () => {
+    const tracker = createSegmentTracker([]);
+    tracker.start(T0);
+    expect(tracker.status(T0)).toBeNull();
+  });
+});
@@ -0,0 +1,164 @@
+import { HackathonData, SegmentTiming } from "../types";
+
+// Turns strategy.structure into timed windows and tracks where the presenter
+// actually is against them. The model writes times loosely ("0:00-0:30",
+// "30s", "1-2 min", "Intro (0:45)"), so parsing is forgiving and falls back to
+// chaining/evenly splitting when a row has no usable time.
+
+export interface PlannedSegment {
+  action: string;
+  start: number; // seconds
+  end: number;
+}
+
+export type PaceState = 'on-track' | 'behind' | 'ahead';
+
+export interface SegmentStatus {
+  // Segment the clock says we should be in
+  expectedIndex: number;
+  // Segment the presenter is actually in
+  actualIndex: number;
+  // Seconds left in the actual segment's planned window (negative = overrunning)
+  remaining: number;
+  // Positive = behind schedule, negative = ahead
+  drift: number;
+  pace: PaceState;
+}
+
+const DEFAULT_TOTAL = 180;
+// Drift under this many seconds is still on track
+const TOLERANCE = 5;
+
+const TIME = String.raw`(\d+:\d{2}|\d+(?:\.\d+)?)\s*(?:(s|sec|secs|seconds?|m|min|mins|minutes?)\b)?`;
+const RANGE = new RegExp(`${TIME}\\s*(?:-|–|—|to)\\s*${TIME}`, 'i');
+const SINGLE = new RegExp(TIME, 'gi');
+
+const toSeconds = (value: string, unit?: string): number => {
+  if (value.includes(':')) {
+    const [m, s] = value.split(':').map(Number);
+    return m * 60 + s;
+  }
+  const n = parseFloat(value);
+  return unit && /^m/i.test(unit) ? n * 60 : n;
+};
+
+type ParsedTime = { kind: 'range'; start: number; end: number } | { kind: 'length'; length: number } | { kind: 'at'; start: number } | null;
+
+export const parseTime = (time: string): ParsedTime => {
+  const range = time.match(RANGE);
+  if (range) {
+    const [, a, unitA, b, unitB] = range;
+    // "1-2 min": the trailing unit applies to both ends
+    const start = toSeconds(a, unitA || unitB);
+    const end = toSeconds(b, unitB || unitA);
+    if (end > start) return { kind: 'range', start, end };
+  }
+  // Bare counts ("2 slides") aren't times, so keep looking past them
+  for (const [, value, unit] of time.matchAll(SINGLE)) {
+    // A clock time marks a start, a number with a unit is a length
+    if (value.includes(':')) return { kind: 'at', start: toSeconds(value) };
+    if (unit) return { kind: 'length', length: toSeconds(value, unit) };
+  }
+  return null;
+};
+
+export const parseStructure = (structure: HackathonData['strategy']['structure'], totalFallback = DEFAULT_TOTAL): PlannedSegment[] => {
+  const parsed = structure.map(s => parseTime(s.time));
+  const segments: PlannedSegment[] = [];
+  let cursor = 0;
+
+  structure.forEach((row, i) => {
+    const p = parsed[i];
+    let start = cursor;
+    let end: number | null = null;
+
+    if (p?.kind === 'range') {
+      start = p.start;
+      end = p.end;
+    } else if (p?.kind === 'length') {
+      end = start + p.length;
+    } else if (p?.kind === 'at') {
+      start = p.start;
+    }
+
+    if (end === null) {
+      // Ends where the next timed row starts, or gets an even share of what's left
+      const next = parsed.slice(i + 1).find(n => n && n.kind !== 'length') as { start: number } | undefined;
+      const remainingRows = structure.length - i;
+      end = next && next.start > start ? next.start : start + Math.max(10, (totalFallback - start) / remainingRows);
+    }
+
+    segments.push({ action: row.action, start, end });
+    cursor = end;
+  });
+  return segments;
+};
+
+export const totalPlanned = (segments: PlannedSegment[]) => segments.length ? segments[segments.length - 1].end : 0;
+
+export const createSegmentTracker = (segments: PlannedSegment[]) => {
+  let startedAt = 0;
+  let actualIndex = 0;
+  let actualStarts: (number | null)[] = [];
+
+  const elapsedAt = (now: number) => (now - startedAt) / 1000;
+
+  return {
+    start: (timestamp: number) => {
+      startedAt = timestamp;
+      actualIndex = 0;
+      actualStarts = segments.map((_, i) => i === 0 ? 0 : null);
+    },
+
+    // Only ever moves forward; skipped segments keep a null start
+    advanceTo: (index: number, timestamp: number) => {
+      const target = Math.min(index, segments.length - 1);
+      if (target <= actualIndex) return;
+      actualIndex = target;
+      actualStarts[target] = elapsedAt(timestamp);
+    },
+
+    next: (timestamp: number) => {
+      if (actualIndex >= segments.length - 1) return;
+      actualIndex++;
+      actualStarts[actualIndex] = elapsedAt(timestamp);
+    },
+
+    status: (now: number): SegmentStatus | null => {
+      if (segments.length === 0) return null;
+      const elapsed = elapsedAt(now);
+      let expectedIndex = segments.findIndex(s => elapsed < s.end);
+      if (expectedIndex === -1) expectedIndex = segments.length - 1;
+
+      const actual = segments[actualIndex];
+      let drift = 0;
+      if (elapsed > actual.end) drift = elapsed - actual.end;
+      else if (actualIndex > expectedIndex) drift = elapsed - actual.start;
+
+      return {
+        expectedIndex,
+        actualIndex,
+        remaining: actual.end - elapsed,
+        drift,
+        pace: drift > TOLERANCE ? 'behind' : drift < -TOLERANCE ? 'ahead' : 'on-track'
+      };
+    },
+
+    finish: (now: number): SegmentTiming[] => {
+      const elapsed = elapsedAt(now);
+      return segments.map((s, i) => {
+        const actualStart = actualStarts[i];
+        const nextStart = actualStarts.slice(i + 1).find((t): t is number => t !== null);
+        return {
+          action: s.action,
+          plannedStart: s.start,
+          plannedEnd: s.end,
+          actualStart,
+          actualEnd: actualStart === null ? null : (nextStart ?? elapsed)
+        };
+      });
+    }
+  };
+};
+
+export type SegmentTracker = ReturnType<typeof createSegmentTracker>;
@@ -0,0 +1,78 @@
+import { HackathonData, PracticeSession } from "../types";
+import { validateStoredAnalysisResult, validateHackathonData, validateRecordingMetrics, validateTranscript } from "./validation";
+
+// Local practice history in IndexedDB. Video blobs are stored as-is, so
+// everything survives a reload and works offline.
+
+const DB_NAME = 'hackjudge';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          const store = db.createObjectStore(STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Wraps a single-request transaction in a promise
+const run = async <T,>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Sessions saved by older versions may lack newer fields; running them
+// through the validators fills the defaults. Metrics or a transcript that
+// aren't even the right shape are dropped, as if the take never had them.
+const upgrade = (session: PracticeSession): PracticeSession => ({
+  ...session,
+  hackathon: validateHackathonData(session.hackathon).value,
+  metrics: session.metrics && typeof session.metrics === 'object' ? validateRecordingMetrics(session.metrics).value : null,
+  transcript: Array.isArray(session.transcript) ? validateTranscript(session.transcript).value : undefined,
+  result: session.result ? validateStoredAnalysisResult(session.result).value : null
+});
+
+export const saveSession = (session: PracticeSession): Promise<void> =>
+  run<IDBValidKey>('readwrite', store => store.put(session)).then(() => undefined);
+
+export const getSession = (id: string): Promise<PracticeSession | undefined> =>
+  run<PracticeSession | undefined>('readonly', store => store.get(id)).then(s => s && upgrade(s));
+
+export const updateSession = async (id: string, patch: Partial<Omit<PracticeSession, 'id'>>): Promise<void> => {
+  const existing = await getSession(id);
+  if (!existing) throw new Error(`Session ${id} not found`);
+  await saveSession({ ...existing, ...patch });
+};
+
+export const deleteSession = (id: string): Promise<void> =>
+  run<undefined>('readwrite', store => store.delete(id));
+
+// Oldest first, which is the order the progress charts want
+export const listSessions = (): Promise<PracticeSession[]> =>
+  run<PracticeSession[]>('readonly', store => store.index('createdAt').getAll()).then(sessions => sessions.map(upgrade));
+
+// Sessions belong to the same event when they share a URL (or title for pasted events)
+export const hackathonKey = (hackathon: HackathonData): string =>
+  hackathon.url || hackathon.title;
@@ -0,0 +1,47 @@
+import { SourceFile } from "../types";
+import { blobToBase64 } from "./media";
+
+// Reads files picked on the input view. Text formats come back as text so the
+// team can see and trim them; PDFs are passed to the model as documents.
+
+export type ReadSource =
+  | { kind: 'text'; name: string; text: string }
+  | { kind: 'document'; file: SourceFile };
+
+// Inline request payloads are capped around 20 MB; leave room for the prompt.
+// Every attached PDF goes into the same request, so this is a budget for all
+// of them together, not just each one.
+export const MAX_DOCUMENT_BYTES = 15 * 1024 * 1024;
+
+const MB = 1024 * 1024;
+
+const TEXT_EXTENSIONS = ['.md', '.markdown', '.txt', '.rst'];
+
+export const SOURCE_FILE_ACCEPT = [...TEXT_EXTENSIONS, '.pdf', 'text/*', 'application/pdf'].join(',');
+
+const isPdf = (file: File) => file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+const isText = (file: File) => file.type.startsWith('text/') || TEXT_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext));
+
+const decodedBytes = (base64: string) =>
+  Math.floor(base64.length * 3 / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+
+// Bytes already spent on attached documents
+export const attachedBytes = (files: SourceFile[]) => files.reduce((sum, f) => sum + decodedBytes(f.data), 0);
+
+export const readSourceFile = async (file: File, alreadyAttached = 0): Promise<ReadSource> => {
+  if (isPdf(file)) {
+    if (file.size > MAX_DOCUMENT_BYTES) {
+      throw new Error(`${file.name} is larger than ${MAX_DOCUMENT_BYTES / MB} MB`);
+    }
+    if (alreadyAttached + file.size > MAX_DOCUMENT_BYTES) {
+      const left = Math.max(0, MAX_DOCUMENT_BYTES - alreadyAttached) / MB;
+      throw new Error(`Attached PDFs can't add up to more than ${MAX_DOCUMENT_BYTES / MB} MB; ${file.name} doesn't fit in the ${left.toFixed(1)} MB left. Remove a PDF to make room.`);
+    }
+    return { kind: 'document', file: { name: file.name, mimeType: 'application/pdf', data: await blobToBase64(file) } };
+  }
+  if (isText(file)) {
+    return { kind: 'text', name: file.name, text: await file.text() };
+  }
+  throw new Error(`${file.name} is not a PDF, Markdown or text file`);
+};
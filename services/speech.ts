@@ -0,0 +1,70 @@
+// Thin wrappers around the browser speech APIs, shared by the live coach and
+// the Q&A round.
+
+export interface SpeakOptions {
+  // Substring of the preferred voice name, e.g. 'Google US English'
+  voiceName?: string;
+  voice?: SpeechSynthesisVoice;
+  rate?: number;
+  pitch?: number;
+  // Cancel whatever is currently being spoken first (default true)
+  interrupt?: boolean;
+}
+
+// Resolves when the utterance finishes (or fails), so callers can wait for a
+// question to be read out before listening for the answer.
+export const speak = (text: string, options: SpeakOptions = {}): Promise<void> => {
+  const synth = window.speechSynthesis;
+  if (!synth) return Promise.resolve();
+  if (options.interrupt !== false) synth.cancel();
+
+  return new Promise(resolve => {
+    const utterance = new SpeechSynthesisUtterance(text);
+    const voices = synth.getVoices();
+    const voice = options.voice
+      || (options.voiceName && voices.find(v => v.name.includes(options.voiceName!)))
+      || voices[0];
+    if (voice) utterance.voice = voice;
+    utterance.rate = options.rate ?? 1;
+    utterance.pitch = options.pitch ?? 1;
+    utterance.onend = () => resolve();
+    utterance.onerror = () => resolve();
+    synth.speak(utterance);
+  });
+};
+
+export const isSpeechRecognitionSupported = (): boolean =>
+  'webkitSpeechRecognition' in window || 'SpeechRecognition' in window;
+
+// Continuous en-US recognizer with interim results, or null when unsupported
+export const createSpeechRecognition = (): any | null => {
+  if (!isSpeechRecognitionSupported()) return null;
+  const SpeechRecognition = (window as any).webkitSpeechRecognition || (window as any).SpeechRecognition;
+  const recognition = new SpeechRecognition();
+  recognition.continuous = true;
+  recognition.interimResults = true;
+  recognition.lang = 'en-US';
+  return recognition;
+};
+
+export interface PersonaVoice {
+  voice?: SpeechSynthesisVoice;
+  pitch: number;
+  rate: number;
+}
+
+const PERSONA_PITCHES = [0.85, 1.15, 1.0, 0.7, 1.3];
+
+// Gives each of `count` speakers a recognisably different voice: distinct
+// English voices where the browser has them, and a different pitch either way.
+export const pickPersonaVoices = (count: number): PersonaVoice[] => {
+  const voices = window.speechSynthesis?.getVoices() ?? [];
+  // Leave the coach's voice to the coach
+  const english = voices.filter(v => v.lang.startsWith('en') && !v.name.includes('Google US English'));
+  const pool = english.length > 0 ? english : voices;
+  return Array.from({ length: count }, (_, i) => ({
+    voice: pool.length > 0 ? pool[i % pool.length] : undefined,
+    pitch: PERSONA_PITCHES[i % PERSONA_PITCHES.length],
+    rate: 1.0
+  }));
+};
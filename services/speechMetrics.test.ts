@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { countFillers, countWords, createSpeechMetricsEngine, rmsToEnergy } from "./speechMetrics";
+
+const T0 = 1_000_000;
+
+describe("helpers", () => {
+  it("counts words and fillers on word boundaries", () => {
+    expect(countWords("  so we   built it ")).toBe(4);
+    expect(countWords("")).toBe(0);
+    expect(countFillers("Um, I like it, you know, likely", ['um', 'like', 'you know'])).toEqual({ um: 1, like: 1, 'you know': 1 });
+  });
+
+  it("maps RMS onto 0-100", () => {
+    expect(rmsToEnergy(0)).toBe(0);
+    expect(rmsToEnergy(0.001)).toBe(0);
+    expect(rmsToEnergy(1)).toBe(100);
+  });
+});
+
+describe("createSpeechMetricsEngine", () => {
+  it("computes session WPM and fillers from final results", () => {
+    const engine = createSpeechMetricsEngine();
+    engine.start(T0);
+    engine.pushTranscript({ text: "um we built a tool", isFinal: true, timestamp: T0 + 10_000 });
+    engine.pushTranscript({ text: "that like saves time", isFinal: true, timestamp: T0 + 20_000 });
+    const metrics = engine.finish(T0 + 30_000);
+    expect(metrics.wpm).toBe(18);
+    expect(metrics.fillerWords).toBe(2);
+    expect(metrics.duration).toBe(30);
+  });
+
+  it("counts interim words until the final result replaces them", () => {
+    const engine = createSpeechMetricsEngine();
+    engine.start(T0);
+    engine.pushTranscript({ text: "one two three", isFinal: false, timestamp: T0 + 1_000 });
+    expect(engine.snapshot(T0 + 15_000).rollingWpm).toBe(12);
+    engine.pushTranscript({ text: "one two three", isFinal: true, timestamp: T0 + 2_000 });
+    expect(engine.snapshot(T0 + 15_000).rollingWpm).toBe(12);
+  });
+
+  it("records silences longer than the threshold as pauses", () => {
+    const engine = createSpeechMetricsEngine({ pauseThresholdMs: 2_000 });
+    engine.start(T0);
+    engine.pushTranscript({ text: "hello", isFinal: true, timestamp: T0 + 1_000 });
+    engine.pushTranscript({ text: "again", isFinal: true, timestamp: T0 + 6_000 });
+    const metrics = engine.finish(T0 + 7_000);
+    expect(metrics.pauseCount).toBe(1);
+    expect(metrics.longestPause).toBe(5);
+  });
+
+  it("doesn't let empty results hide a pause", () => {
+    const engine = createSpeechMetricsEngine({ pauseThresholdMs: 2_000 });
+    engine.start(T0);
+    engine.pushTranscript({ text: "hello", isFinal: true, timestamp: T0 + 1_000 });
+    engine.pushTranscript({ text: "", isFinal: false, timestamp: T0 + 2_500 });
+    engine.pushTranscript({ text: " ", isFinal: true, timestamp: T0 + 4_000 });
+    expect(engine.snapshot(T0 + 5_000).silenceMs).toBe(4_000);
+    expect(engine.finish(T0 + 5_000).pauseCount).toBe(1);
+  });
+
+  it("treats loud audio as activity and averages voiced energy", () => {
+    const engine = createSpeechMetricsEngine({ pauseThresholdMs: 2_000 });
+    engine.start(T0);
+    engine.pushAudioLevel(0.1, T0 + 1_500);
+    engine.pushAudioLevel(0.001, T0 + 3_000);
+    const metrics = engine.finish(T0 + 3_000);
+    expect(metrics.pauseCount).toBe(0);
+    expect(metrics.energyLevel).toBe(rmsToEnergy(0.1));
+  });
+});
@@ -0,0 +1,184 @@
+import { RecordingMetrics } from "../types";
+
+// Pure speech metrics engine. SmartMirror feeds it timestamped transcript
+// events from SpeechRecognition and RMS samples from Web Audio (see
+// audioLevel.ts); it never touches the DOM, so every number it reports can be
+// reproduced from a list of events.
+
+export interface TranscriptEvent {
+  text: string;
+  isFinal: boolean;
+  timestamp: number;
+}
+
+export interface SpeechMetricsOptions {
+  // Phrases counted as fillers, matched on word boundaries (case-insensitive)
+  fillerWords?: string[];
+  // Window used for the live "rolling" WPM
+  rollingWindowMs?: number;
+  // Silence longer than this counts as a pause
+  pauseThresholdMs?: number;
+  // RMS below this is treated as silence
+  silenceRms?: number;
+}
+
+export interface Pause {
+  start: number;
+  end: number;
+}
+
+export interface LiveSpeechMetrics {
+  rollingWpm: number;
+  sessionWpm: number;
+  fillerWords: number;
+  fillerBreakdown: Record<string, number>;
+  pauses: number;
+  // Current level, 0-100
+  energyLevel: number;
+  silenceMs: number;
+}
+
+export const DEFAULT_FILLER_WORDS = ['um', 'uh', 'erm', 'like', 'you know', 'basically', 'actually', 'literally', 'i mean', 'sort of', 'kind of'];
+
+const DEFAULTS = {
+  rollingWindowMs: 15000,
+  pauseThresholdMs: 2000,
+  silenceRms: 0.01
+};
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const countWords = (text: string): number => {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+};
+
+// Maps RMS to 0-100 on a dBFS scale: -50 dB (near silence) -> 0, -10 dB (loud) -> 100
+export const rmsToEnergy = (rms: number): number => {
+  if (rms <= 0) return 0;
+  const db = 20 * Math.log10(rms);
+  return Math.round(Math.min(100, Math.max(0, ((db + 50) / 40) * 100)));
+};
+
+export const countFillers = (text: string, fillerWords: string[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  const lower = text.toLowerCase();
+  for (const filler of fillerWords) {
+    const matches = lower.match(new RegExp(`\\b${escapeRegExp(filler.toLowerCase())}\\b`, 'g'));
+    if (matches) counts[filler] = matches.length;
+  }
+  return counts;
+};
+
+export const createSpeechMetricsEngine = (options: SpeechMetricsOptions = {}) => {
+  const fillerWords = options.fillerWords ?? DEFAULT_FILLER_WORDS;
+  const rollingWindowMs = options.rollingWindowMs ?? DEFAULTS.rollingWindowMs;
+  const pauseThresholdMs = options.pauseThresholdMs ?? DEFAULTS.pauseThresholdMs;
+  const silenceRms = options.silenceRms ?? DEFAULTS.silenceRms;
+
+  let startedAt = 0;
+  let lastActivity = 0;
+  let finalWords: { count: number; timestamp: number }[] = [];
+  let interimWords = 0;
+  let fillerBreakdown: Record<string, number> = {};
+  let pauses: Pause[] = [];
+  let currentLevel = 0;
+  let voicedRmsSum = 0;
+  let voicedSamples = 0;
+
+  // Any sign of speech (transcript or loud audio) closes an open pause
+  const markActivity = (timestamp: number) => {
+    if (timestamp - lastActivity > pauseThresholdMs) {
+      pauses.push({ start: lastActivity, end: timestamp });
+    }
+    lastActivity = Math.max(lastActivity, timestamp);
+  };
+
+  const totalWords = () => finalWords.reduce((sum, w) => sum + w.count, 0) + interimWords;
+
+  const sessionWpmAt = (now: number) => {
+    const minutes = (now - startedAt) / 60000;
+    return minutes > 0 ? Math.round(totalWords() / minutes) : 0;
+  };
+
+  return {
+    start: (timestamp: number) => {
+      startedAt = timestamp;
+      lastActivity = timestamp;
+      finalWords = [];
+      interimWords = 0;
+      fillerBreakdown = {};
+      pauses = [];
+      currentLevel = 0;
+      voicedRmsSum = 0;
+      voicedSamples = 0;
+    },
+
+    pushTranscript: (event: TranscriptEvent) => {
+      // Recognition reports empty results while nothing is said; that's not speech
+      if (event.text.trim()) markActivity(event.timestamp);
+      if (!event.isFinal) {
+        // Interim text is replaced wholesale by the next result, so only track its size
+        interimWords = countWords(event.text);
+        return;
+      }
+      interimWords = 0;
+      const count = countWords(event.text);
+      if (count === 0) return;
+      finalWords.push({ count, timestamp: event.timestamp });
+      for (const [filler, n] of Object.entries(countFillers(event.text, fillerWords))) {
+        fillerBreakdown[filler] = (fillerBreakdown[filler] || 0) + n;
+      }
+    },
+
+    pushAudioLevel: (rms: number, timestamp: number) => {
+      currentLevel = rmsToEnergy(rms);
+      if (rms >= silenceRms) {
+        markActivity(timestamp);
+        voicedRmsSum += rms;
+        voicedSamples++;
+      }
+    },
+
+    snapshot: (now: number): LiveSpeechMetrics => {
+      const windowStart = Math.max(startedAt, now - rollingWindowMs);
+      const windowMinutes = (now - windowStart) / 60000;
+      const windowWords = finalWords
+        .filter(w => w.timestamp >= windowStart)
+        .reduce((sum, w) => sum + w.count, 0) + interimWords;
+
+      return {
+        rollingWpm: windowMinutes > 0 ? Math.round(windowWords / windowMinutes) : 0,
+        sessionWpm: sessionWpmAt(now),
+        fillerWords: Object.values(fillerBreakdown).reduce((a, b) => a + b, 0),
+        fillerBreakdown: { ...fillerBreakdown },
+        pauses: pauses.length + (now - lastActivity > pauseThresholdMs ? 1 : 0),
+        energyLevel: currentLevel,
+        silenceMs: Math.max(0, now - lastActivity)
+      };
+    },
+
+    // Session summary. eyeContact is not an audio metric and is left at 0 for
+    // the caller to fill in.
+    finish: (now: number): RecordingMetrics => {
+      // A trailing silence is a pause too
+      const allPauses = now - lastActivity > pauseThresholdMs
+        ? [...pauses, { start: lastActivity, end: now }]
+        : pauses;
+      const longest = allPauses.reduce((max, p) => Math.max(max, p.end - p.start), 0);
+
+      return {
+        wpm: sessionWpmAt(now),
+        fillerWords: Object.values(fillerBreakdown).reduce((a, b) => a + b, 0),
+        fillerBreakdown: { ...fillerBreakdown },
+        energyLevel: voicedSamples > 0 ? rmsToEnergy(voicedRmsSum / voicedSamples) : 0,
+        eyeContact: 0,
+        duration: Math.round((now - startedAt) / 1000),
+        pauseCount: allPauses.length,
+        longestPause: Math.round(longest / 1000)
+      };
+    }
+  };
+};
+
+export type SpeechMetricsEngine = ReturnType<typeof createSpeechMetricsEngine>;
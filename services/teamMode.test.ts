@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { Presenter, SegmentTiming, SpeakerTurn, TranscriptLine } from "../types";
+import { summarizeTeam } from "./teamMode";
+
+const team: Presenter[] = [
+  { name: "Ada", segments: [0] },
+  { name: "Bo", segments: [1] },
+  { name: "Cy", segments: [] }
+];
+
+const timings: SegmentTiming[] = [
+  { action: "Show the live dashboard", plannedStart: 0, plannedEnd: 30, actualStart: 0, actualEnd: 30 },
+  { action: "Explain pricing tiers", plannedStart: 30, plannedEnd: 60, actualStart: 30, actualEnd: 60 }
+];
+
+const handOffAt = (at: number, to = 1): SpeakerTurn[] => [
+  { presenter: 0, start: 0, end: at, source: 'start' },
+  { presenter: to, start: at, end: 60, source: 'manual' }
+];
+
+const line = (start: number, end: number, text: string): TranscriptLine => ({ start, end, text });
+
+describe("summarizeTeam", () => {
+  it("counts a segment as covered only when its content came up", () => {
+    const transcript = [
+      line(2, 29, "this is our live dashboard for ops teams"),
+      line(31, 40, "we built it over a weekend")
+    ];
+    const { stats } = summarizeTeam(team, handOffAt(30), transcript, timings);
+    expect(stats[0]).toMatchObject({ speakingTime: 30, wordCount: 8 });
+    expect(stats[0].segments).toEqual([{ index: 0, action: "Show the live dashboard", covered: true, spokenBy: 0 }]);
+    expect(stats[1].segments[0]).toMatchObject({ covered: false, spokenBy: 1 });
+  });
+
+  it("accepts a key phrase in place of the planned action", () => {
+    const transcript = [line(31, 40, "and it scales to millions of users")];
+    const { stats } = summarizeTeam(team, handOffAt(30), transcript, timings, ["scales to millions"]);
+    expect(stats[1].segments[0].covered).toBe(true);
+  });
+
+  it("falls back to floor time without a transcript", () => {
+    const { stats } = summarizeTeam(team, handOffAt(30), [], timings);
+    expect(stats.slice(0, 2).map(s => s.segments[0].covered)).toEqual([true, true]);
+  });
+
+  it("gives a segment to whoever held the floor longest", () => {
+    const { stats } = summarizeTeam(team, handOffAt(10), [], timings);
+    expect(stats[0].segments[0]).toMatchObject({ covered: false, spokenBy: 1 });
+  });
+});
+
+describe("hand-off review", () => {
+  it("calls a planned, quick hand-off clean", () => {
+    const transcript = [line(20, 29, "over to Bo"), line(30.5, 35, "thanks Ada")];
+    const [handoff] = summarizeTeam(team, handOffAt(30), transcript, timings).handoffs;
+    expect(handoff).toMatchObject({ at: 30, from: 0, to: 1, source: 'manual', planned: true, smooth: true, note: "Clean hand-off" });
+    expect(handoff.gap).toBeCloseTo(1.5);
+  });
+
+  it("flags dead air at the hand-off", () => {
+    const transcript = [line(2, 10, "over to Bo"), line(31, 35, "thanks Ada")];
+    const [handoff] = summarizeTeam(team, handOffAt(30), transcript, timings).handoffs;
+    expect(handoff.smooth).toBe(false);
+    expect(handoff.note).toContain("21.0s of silence");
+  });
+
+  it("flags a presenter taking over someone else's segment", () => {
+    const [handoff] = summarizeTeam(team, handOffAt(15, 2), [], timings).handoffs;
+    expect(handoff.planned).toBe(false);
+    expect(handoff.note).toBe(`Cy took over during Ada's "Show the live dashboard"`);
+  });
+});
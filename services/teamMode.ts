@@ -0,0 +1,310 @@
+import { Handoff, HackathonData, Presenter, PresenterSegment, PresenterStats, SegmentTiming, SpeakerTurn, TeamTake, TranscriptLine, TurnSource } from "../types";
+import { DEFAULT_FILLER_WORDS, countFillers, countWords } from "./speechMetrics";
+import { mentions } from "./transcriptReview";
+
+// Team mode: two to four presenters split strategy.structure between them.
+// During a take the speaker tracker records who holds the floor, from manual
+// taps or a change of voice; afterwards summarizeTeam turns those turns and
+// the transcript into per-presenter stats and a review of every hand-off.
+// Pure: SmartMirror owns the clock, the microphone and the segment tracker.
+
+export const MAX_PRESENTERS = 4;
+
+// Silence at a hand-off beyond this is dead air
+const SMOOTH_GAP_SECONDS = 2.5;
+
+// Team mode needs at least two named presenters
+export const activeTeam = (data: HackathonData | null): Presenter[] | null => {
+  const team = data?.team?.filter(p => p.name.trim()) ?? [];
+  return team.length >= 2 ? team : null;
+};
+
+// Presenter who owns a structure row, or null when it's unassigned
+export const presenterFor = (team: Presenter[], segment: number): number | null => {
+  const index = team.findIndex(p => p.segments.includes(segment));
+  return index === -1 ? null : index;
+};
+
+// Rows belong to at most one presenter; null unassigns
+export const assignSegment = (team: Presenter[], segment: number, presenter: number | null): Presenter[] =>
+  team.map((p, i) => ({
+    ...p,
+    segments: i === presenter
+      ? [...new Set([...p.segments, segment])].sort((a, b) => a - b)
+      : p.segments.filter(s => s !== segment)
+  }));
+
+// First row at or after `from` the presenter owns: where a hand-off to them moves the plan
+export const nextSegmentFor = (team: Presenter[], presenter: number, from: number): number | null => {
+  const next = team[presenter]?.segments.filter(s => s >= from).sort((a, b) => a - b)[0];
+  return next ?? null;
+};
+
+// Who the plan hands over to after the current presenter, from the segment in progress on
+export const plannedNextPresenter = (team: Presenter[], current: number, segment: number, segmentCount: number): number | null => {
+  for (let i = segment; i < segmentCount; i++) {
+    const owner = presenterFor(team, i);
+    if (owner !== null && owner !== current) return owner;
+  }
+  return null;
+};
+
+// --- Voice-change detection ---
+
+export interface SpeakerTrackerOptions {
+  // Silence that ends a phrase; a new voice is only looked for at the start of one
+  phraseGapMs: number;
+  // Voiced samples (about 100ms each) of a phrase before deciding whose voice it is
+  phraseSamples: number;
+  // Voiced samples a presenter needs before their voice counts as known
+  profileSamples: number;
+  // Pitch distance, in octaves, that counts as a different voice
+  changeOctaves: number;
+  // No automatic hand-off this soon after the previous one
+  cooldownMs: number;
+}
+
+export const DEFAULT_SPEAKER_OPTIONS: SpeakerTrackerOptions = {
+  phraseGapMs: 600,
+  phraseSamples: 12,
+  profileSamples: 30,
+  changeOctaves: 0.25,
+  cooldownMs: 5_000
+};
+
+// Recent voiced samples kept per presenter
+const PROFILE_LIMIT = 300;
+
+const octaves = (a: number, b: number) => Math.abs(Math.log2(a / b));
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Pitch is crude but cheap: it separates most voices, not all. Each
+// presenter's voice is learned while they hold the floor, so early in a take
+// only manual taps and "an unknown voice is whoever the plan hands over to"
+// work; once everyone has spoken, hand-backs are detected too.
+export const createSpeakerTracker = (team: Presenter[], segmentCount: number, options: Partial<SpeakerTrackerOptions> = {}) => {
+  const opts = { ...DEFAULT_SPEAKER_OPTIONS, ...options };
+  let startedAt = 0;
+  let current = 0;
+  let turns: SpeakerTurn[] = [];
+  let lastHandoffAt = -Infinity;
+  let profiles: number[][] = team.map(() => []);
+  let phrase: { startedAt: number; pitches: number[]; judged: boolean } | null = null;
+  let lastVoicedAt = -Infinity;
+  let autoDetect = true;
+
+  const seconds = (now: number) => Math.max(0, (now - startedAt) / 1000);
+  const known = (presenter: number) => profiles[presenter].length >= opts.profileSamples;
+
+  const learn = (presenter: number, pitches: number[]) => {
+    profiles[presenter] = [...profiles[presenter], ...pitches].slice(-PROFILE_LIMIT);
+  };
+
+  const switchTo = (to: number, at: number, source: TurnSource): boolean => {
+    if (to === current || to < 0 || to >= team.length) return false;
+    const t = Math.max(seconds(at), turns[turns.length - 1].start);
+    turns[turns.length - 1].end = t;
+    turns.push({ presenter: to, start: t, end: t, source });
+    current = to;
+    lastHandoffAt = at;
+    return true;
+  };
+
+  const detect = (voice: number, segment: number): number | null => {
+    if (!known(current) || octaves(voice, median(profiles[current])) < opts.changeOctaves) return null;
+    let closest: number | null = null;
+    let distance = Infinity;
+    team.forEach((_, i) => {
+      if (i === current || !known(i)) return;
+      const d = octaves(voice, median(profiles[i]));
+      if (d < distance) {
+        closest = i;
+        distance = d;
+      }
+    });
+    if (closest !== null && distance < opts.changeOctaves) return closest;
+    const next = plannedNextPresenter(team, current, segment, segmentCount);
+    return next !== null && !known(next) ? next : null;
+  };
+
+  return {
+    start: (now: number, first: number) => {
+      startedAt = now;
+      current = first;
+      turns = [{ presenter: first, start: 0, end: 0, source: 'start' }];
+      lastHandoffAt = -Infinity;
+      profiles = team.map(() => []);
+      phrase = null;
+      lastVoicedAt = -Infinity;
+    },
+
+    setAutoDetect: (enabled: boolean) => {
+      autoDetect = enabled;
+    },
+
+    handOff: (to: number, now: number): boolean => {
+      const switched = switchTo(to, now, 'manual');
+      // Whatever is being said now belongs to the new presenter's first phrase
+      if (switched) phrase = null;
+      return switched;
+    },
+
+    // pitch is null for silence; segment is the one in progress. Returns the
+    // presenter a detected voice change handed over to.
+    pushPitch: (pitch: number | null, now: number, segment: number): number | null => {
+      if (pitch === null) {
+        if (phrase && now - lastVoicedAt > opts.phraseGapMs) phrase = null;
+        return null;
+      }
+      lastVoicedAt = now;
+      if (!phrase) phrase = { startedAt: now, pitches: [], judged: false };
+      if (phrase.judged) {
+        learn(current, [pitch]);
+        return null;
+      }
+      phrase.pitches.push(pitch);
+      if (phrase.pitches.length < opts.phraseSamples) return null;
+
+      phrase.judged = true;
+      let switched: number | null = null;
+      if (autoDetect && now - lastHandoffAt >= opts.cooldownMs) {
+        const to = detect(median(phrase.pitches), segment);
+        // The new voice started with the phrase, not when we were sure of it
+        if (to !== null && switchTo(to, phrase.startedAt, 'voice')) switched = to;
+      }
+      learn(current, phrase.pitches);
+      return switched;
+    },
+
+    current: () => current,
+
+    // Closes the last turn; back-to-back taps leave empty turns, which are dropped
+    finish: (now: number): SpeakerTurn[] => {
+      turns[turns.length - 1].end = Math.max(seconds(now), turns[turns.length - 1].start);
+      const kept: SpeakerTurn[] = [];
+      for (const turn of turns) {
+        if (turn.end <= turn.start && turn !== turns[turns.length - 1]) continue;
+        const last = kept[kept.length - 1];
+        if (last && last.presenter === turn.presenter) last.end = turn.end;
+        else kept.push({ ...turn });
+      }
+      return kept;
+    }
+  };
+};
+
+export type SpeakerTracker = ReturnType<typeof createSpeakerTracker>;
+
+// --- After the take ---
+
+const turnAt = (turns: SpeakerTurn[], at: number): SpeakerTurn | undefined =>
+  turns.find(t => at >= t.start && at < t.end) ?? (at >= turns[turns.length - 1]?.start ? turns[turns.length - 1] : turns[0]);
+
+// Each line goes to whoever held the floor at its midpoint
+export const labelTranscript = (transcript: TranscriptLine[], turns: SpeakerTurn[]): TranscriptLine[] =>
+  turns.length === 0 ? transcript : transcript.map(line => ({ ...line, speaker: turnAt(turns, (line.start + line.end) / 2)?.presenter }));
+
+const overlap = (turn: SpeakerTurn, start: number, end: number) => Math.max(0, Math.min(turn.end, end) - Math.max(turn.start, start));
+
+// Presenter with the most floor time inside a window
+const mainSpeaker = (turns: SpeakerTurn[], start: number, end: number): number | null => {
+  const time = new Map<number, number>();
+  turns.forEach(t => time.set(t.presenter, (time.get(t.presenter) ?? 0) + overlap(t, start, end)));
+  let best: number | null = null;
+  time.forEach((seconds, presenter) => {
+    if (seconds > 0 && (best === null || seconds > time.get(best)!)) best = presenter;
+  });
+  return best;
+};
+
+const segmentAt = (timings: SegmentTiming[], at: number): number =>
+  timings.findIndex(s => s.actualStart !== null && s.actualEnd !== null && at >= s.actualStart && at < s.actualEnd);
+
+const reviewHandoff = (
+  team: Presenter[],
+  turns: SpeakerTurn[],
+  index: number,
+  transcript: TranscriptLine[],
+  timings: SegmentTiming[]
+): Handoff => {
+  const { start: at, presenter: to, source } = turns[index];
+  const from = turns[index - 1].presenter;
+  const before = transcript.filter(l => l.start < at);
+  const after = transcript.filter(l => l.start >= at);
+  const gap = before.length > 0 && after.length > 0
+    ? Math.max(0, Math.min(...after.map(l => l.start)) - Math.max(...before.map(l => l.end)))
+    : 0;
+
+  const segment = segmentAt(timings, at);
+  const owner = segment === -1 ? null : presenterFor(team, segment);
+  const planned = segment === -1
+    ? team[to].segments.length > 0
+    : owner === to || presenterFor(team, segment + 1) === to;
+  const smooth = planned && gap <= SMOOTH_GAP_SECONDS;
+
+  const notes: string[] = [];
+  if (!planned) {
+    notes.push(segment === -1 || owner === null
+      ? `${team[to].name} has no part in the plan here`
+      : `${team[to].name} took over during ${team[owner].name}'s "${timings[segment].action}"`);
+  }
+  if (gap > SMOOTH_GAP_SECONDS) notes.push(`${gap.toFixed(1)}s of silence at the hand-off`);
+  return { at, from, to, source, gap, planned, smooth, note: notes.join('; ') || 'Clean hand-off' };
+};
+
+// A segment's content came up when the presenter's lines inside it mention its
+// planned action or one of the strategy's key phrases. Without a transcript
+// there is nothing to check, so holding the floor has to do.
+const deliveredContent = (lines: TranscriptLine[], timing: SegmentTiming, keyPhrases: string[], hasTranscript: boolean): boolean => {
+  if (!hasTranscript) return true;
+  const said = lines
+    .filter(l => timing.actualStart !== null && timing.actualEnd !== null && l.end > timing.actualStart && l.start < timing.actualEnd)
+    .map(l => l.text)
+    .join(' ');
+  return said.trim() !== '' && [timing.action, ...keyPhrases].some(topic => mentions(said, topic));
+};
+
+// timings are the take's SegmentTiming rows, when it had a plan
+export const summarizeTeam = (
+  team: Presenter[],
+  turns: SpeakerTurn[],
+  transcript: TranscriptLine[],
+  timings: SegmentTiming[] = [],
+  keyPhrases: string[] = [],
+  fillerWords: string[] = DEFAULT_FILLER_WORDS
+): TeamTake => {
+  const labelled = labelTranscript(transcript, turns);
+
+  const stats = team.map((presenter, p): PresenterStats => {
+    const speakingTime = turns.filter(t => t.presenter === p).reduce((sum, t) => sum + t.end - t.start, 0);
+    const lines = labelled.filter(l => l.speaker === p);
+    const wordCount = lines.reduce((sum, l) => sum + countWords(l.text), 0);
+    const fillers = lines.reduce((sum, l) => sum + Object.values(countFillers(l.text, fillerWords)).reduce((a, b) => a + b, 0), 0);
+    const segments = presenter.segments.filter(i => i < timings.length).map((i): PresenterSegment => {
+      const timing = timings[i];
+      const spokenBy = timing.actualStart !== null && timing.actualEnd !== null ? mainSpeaker(turns, timing.actualStart, timing.actualEnd) : null;
+      const covered = spokenBy === p && deliveredContent(lines, timing, keyPhrases, transcript.length > 0);
+      return { index: i, action: timing.action, covered, spokenBy };
+    });
+    return {
+      name: presenter.name,
+      speakingTime,
+      wordCount,
+      wpm: speakingTime > 0 ? Math.round(wordCount / (speakingTime / 60)) : 0,
+      fillerWords: fillers,
+      segments
+    };
+  });
+
+  return {
+    presenters: team.map(p => p.name),
+    turns,
+    handoffs: turns.slice(1).map((_, i) => reviewHandoff(team, turns, i + 1, labelled, timings)),
+    stats
+  };
+};
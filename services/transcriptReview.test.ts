@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { HackathonData, Judge, TranscriptLine } from "../types";
+import { mentions, reviewTranscript } from "./transcriptReview";
+
+const judge = (name: string, redFlags: string[]): Judge => ({
+  name,
+  role: "Judge",
+  company: "",
+  values: [],
+  focusAreas: [],
+  redFlags,
+  recommendedTalkingPoints: []
+});
+
+const hackathon = (keyPhrases: string[], judges: Judge[] = []): HackathonData => ({
+  title: "HackX",
+  url: "",
+  judges,
+  criteria: [],
+  strategy: { structure: [], keyPhrases, featuresToEmphasize: [], generatedScript: "" }
+});
+
+const lines = (...texts: string[]): TranscriptLine[] => texts.map((text, i) => ({ start: i * 10, end: i * 10 + 10, text }));
+
+describe("mentions", () => {
+  it("matches a topic said in the presenter's own words", () => {
+    expect(mentions("and here is the dashboard, live", "Show the live dashboard")).toBe(true);
+    expect(mentions("the dashboard comes later", "Show the live dashboard")).toBe(false);
+  });
+
+  it("ignores keywords scattered across a long line", () => {
+    expect(mentions("live from Berlin, we spent the whole weekend on this and finally the dashboard", "Show the live dashboard")).toBe(false);
+  });
+});
+
+describe("reviewTranscript", () => {
+  it("marks fillers and counts them", () => {
+    const review = reviewTranscript(lines("Um so we basically built it"), hackathon([]));
+    expect(review.fillerCount).toBe(2);
+    expect(review.lines[0].spans).toEqual([
+      { text: "Um", kind: 'filler', label: undefined },
+      { text: " so we " },
+      { text: "basically", kind: 'filler', label: undefined },
+      { text: " built it" }
+    ]);
+  });
+
+  it("finds key phrases reworded and tracks their first use", () => {
+    const review = reviewTranscript(
+      lines("Hello everyone", "we give you insights in real time", "again, real-time insights"),
+      hackathon(["Real-time insights", "Zero setup"])
+    );
+    expect(review.keyPhrases).toEqual([
+      { phrase: "Real-time insights", hits: 2, firstAt: 10 },
+      { phrase: "Zero setup", hits: 0, firstAt: null }
+    ]);
+    expect(review.lines[1].spans).toContainEqual({ text: "insights in real time", kind: 'key-phrase', label: "Real-time insights" });
+  });
+
+  it("needs every word of a key phrase", () => {
+    const review = reviewTranscript(lines("it shows insights"), hackathon(["Real-time insights"]));
+    expect(review.keyPhrases[0].hits).toBe(0);
+  });
+
+  it("flags red flags and lets them win over overlapping marks", () => {
+    const review = reviewTranscript(
+      lines("honestly the code is like spaghetti"),
+      hackathon(["Clean code"], [judge("Ada", ["Spaghetti code"])])
+    );
+    expect(review.redFlags).toEqual([{ judgeName: "Ada", flag: "Spaghetti code", at: 0, excerpt: "code is like spaghetti" }]);
+    expect(review.lines[0].spans).toEqual([
+      { text: "honestly the " },
+      { text: "code is like spaghetti", kind: 'red-flag', label: "Ada: Spaghetti code" }
+    ]);
+    expect(review.fillerCount).toBe(1);
+  });
+
+  it("doesn't flag a presenter for delivering what a negated flag asks for", () => {
+    const review = reviewTranscript(lines("our problem statement is clear"), hackathon([], [judge("Ada", ["No clear problem statement"])]));
+    expect(review.redFlags).toEqual([]);
+    expect(review.lines[0].spans).toEqual([{ text: "our problem statement is clear" }]);
+  });
+
+  it("skips red flags that are a single short keyword", () => {
+    const review = reviewTranscript(lines("the demo crashed"), hackathon([], [judge("Ada", ["Demo"])]));
+    expect(review.redFlags).toEqual([]);
+  });
+});
@@ -0,0 +1,161 @@
+import { HackathonData, TranscriptLine } from "../types";
+import { DEFAULT_FILLER_WORDS } from "./speechMetrics";
+import { keywords, positiveCounterpart, stem } from "./judgeReactions";
+
+// Post-take transcript review: marks filler words, strategy key phrases and
+// judge red flags in each line, and lists which key phrases never came up.
+// Matching uses the same keywords as the hot seat, so "real-time insights"
+// is found in "we give you insights in real time".
+
+export type TranscriptMarkKind = 'filler' | 'key-phrase' | 'red-flag';
+
+export interface TranscriptSpan {
+  text: string;
+  kind?: TranscriptMarkKind;
+  // Key phrase or red flag that matched
+  label?: string;
+}
+
+export interface ReviewedLine {
+  line: TranscriptLine;
+  spans: TranscriptSpan[];
+}
+
+export interface KeyPhraseUsage {
+  phrase: string;
+  hits: number;
+  // Seconds into the take of the first hit
+  firstAt: number | null;
+}
+
+export interface RedFlagHit {
+  judgeName: string;
+  flag: string;
+  at: number;
+  excerpt: string;
+}
+
+export interface TranscriptReview {
+  lines: ReviewedLine[];
+  keyPhrases: KeyPhraseUsage[];
+  redFlags: RedFlagHit[];
+  fillerCount: number;
+}
+
+interface Token {
+  key: string;
+  start: number;
+  end: number;
+}
+
+interface Mark {
+  start: number;
+  end: number;
+  kind: TranscriptMarkKind;
+  label?: string;
+}
+
+// Wins when marks overlap
+const PRIORITY: Record<TranscriptMarkKind, number> = { 'red-flag': 3, 'key-phrase': 2, filler: 1 };
+
+// Key phrases are ours, so every word has to be there, nearly in order.
+// Red flags describe behaviour, so a looser match is worth calling out.
+const KEY_PHRASE_MATCH = { ratio: 1, slack: 1 };
+const RED_FLAG_MATCH = { ratio: 0.6, slack: 2 };
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const tokenize = (text: string): Token[] =>
+  [...text.matchAll(/[a-z0-9]+/gi)].map(m => ({ key: stem(m[0].toLowerCase()), start: m.index!, end: m.index! + m[0].length }));
+
+// Run of tokens starting on a keyword that holds at least `ratio` of the keys
+// within `slack` extra words per key, so scattered words across a long line
+// don't count. Extends to any further keys in reach so the mark covers them.
+const findPhrase = (tokens: Token[], keys: string[], ratio: number, slack: number): { start: number; end: number } | null => {
+  const wanted = new Set(keys);
+  if (wanted.size === 0) return null;
+  const needed = Math.max(1, Math.ceil(wanted.size * ratio));
+  const reach = wanted.size * (slack + 1);
+  for (let i = 0; i < tokens.length; i++) {
+    if (!wanted.has(tokens[i].key)) continue;
+    const found = new Set<string>();
+    let end = -1;
+    for (let j = i; j < Math.min(tokens.length, i + reach) && found.size < wanted.size; j++) {
+      if (!wanted.has(tokens[j].key)) continue;
+      found.add(tokens[j].key);
+      end = j;
+    }
+    if (found.size >= needed) return { start: tokens[i].start, end: tokens[end].end };
+  }
+  return null;
+};
+
+const toSpans = (text: string, marks: Mark[]): TranscriptSpan[] => {
+  const kept: Mark[] = [];
+  for (const mark of [...marks].sort((a, b) => PRIORITY[b.kind] - PRIORITY[a.kind] || a.start - b.start)) {
+    if (!kept.some(k => mark.start < k.end && k.start < mark.end)) kept.push(mark);
+  }
+  kept.sort((a, b) => a.start - b.start);
+
+  const spans: TranscriptSpan[] = [];
+  let cursor = 0;
+  for (const mark of kept) {
+    if (mark.start > cursor) spans.push({ text: text.slice(cursor, mark.start) });
+    spans.push({ text: text.slice(mark.start, mark.end), kind: mark.kind, label: mark.label });
+    cursor = mark.end;
+  }
+  if (cursor < text.length) spans.push({ text: text.slice(cursor) });
+  return spans;
+};
+
+// Whether `text` touches on `topic`, with the loose red-flag matching: plan rows
+// like "Show the live dashboard" are said in the presenter's own words
+export const mentions = (text: string, topic: string): boolean =>
+  findPhrase(tokenize(text), keywords(topic), RED_FLAG_MATCH.ratio, RED_FLAG_MATCH.slack) !== null;
+
+export const reviewTranscript = (
+  transcript: TranscriptLine[],
+  hackathon: HackathonData,
+  fillerWords: string[] = DEFAULT_FILLER_WORDS
+): TranscriptReview => {
+  const fillerPattern = new RegExp(`\\b(${fillerWords.map(escapeRegExp).join('|')})\\b`, 'gi');
+  const phrases = hackathon.strategy.keyPhrases.filter(p => p.trim()).map(phrase => ({ phrase, keys: keywords(phrase) }));
+  // Same filter as the hot seat: one short keyword would match almost anything.
+  // A flag about something missing ("No clear problem statement") matches the
+  // presenter delivering it, so those can't be marked in the transcript.
+  const flags = hackathon.judges.flatMap(j => j.redFlags.map(flag => ({ judgeName: j.name, flag, keys: keywords(flag) })))
+    .filter(f => f.keys.length > 1 || (f.keys.length === 1 && f.keys[0].length >= 5))
+    .filter(f => positiveCounterpart(f.flag) === null);
+
+  const usage = new Map<string, KeyPhraseUsage>(phrases.map(p => [p.phrase, { phrase: p.phrase, hits: 0, firstAt: null }]));
+  const redFlags: RedFlagHit[] = [];
+  let fillerCount = 0;
+
+  const lines = transcript.map((line): ReviewedLine => {
+    const tokens = tokenize(line.text);
+    const marks: Mark[] = [];
+
+    for (const m of line.text.matchAll(fillerPattern)) {
+      marks.push({ start: m.index!, end: m.index! + m[0].length, kind: 'filler' });
+      fillerCount++;
+    }
+    for (const p of phrases) {
+      const hit = findPhrase(tokens, p.keys, KEY_PHRASE_MATCH.ratio, KEY_PHRASE_MATCH.slack);
+      if (!hit) continue;
+      marks.push({ ...hit, kind: 'key-phrase', label: p.phrase });
+      const u = usage.get(p.phrase)!;
+      u.hits++;
+      if (u.firstAt === null) u.firstAt = line.start;
+    }
+    for (const f of flags) {
+      const hit = findPhrase(tokens, f.keys, RED_FLAG_MATCH.ratio, RED_FLAG_MATCH.slack);
+      if (!hit) continue;
+      marks.push({ ...hit, kind: 'red-flag', label: `${f.judgeName}: ${f.flag}` });
+      redFlags.push({ judgeName: f.judgeName, flag: f.flag, at: line.start, excerpt: line.text.slice(hit.start, hit.end) });
+    }
+
+    return { line, spans: toSpans(line.text, marks) };
+  });
+
+  return { lines, keyPhrases: [...usage.values()], redFlags, fillerCount };
+};
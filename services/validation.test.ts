@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { formatRepairs, needsReask, validateAnalysisResult, validateHackathonData, validateRecordingMetrics, validateStoredAnalysisResult, validateTranscript } from "./validation";
+
+const strategy = {
+  structure: [{ time: "0:00-0:30", action: "Hook" }],
+  keyPhrases: ["real users"],
+  featuresToEmphasize: ["Live sync"],
+  generatedScript: "Hi, we built a thing."
+};
+
+const judge = {
+  name: "Ada",
+  role: "CTO",
+  company: "Acme",
+  values: ["Scale"],
+  focusAreas: ["Architecture"],
+  redFlags: ["Vapourware"],
+  recommendedTalkingPoints: ["Show the stack"]
+};
+
+const analysis = {
+  overallScore: 72,
+  strengths: ["Clear hook"],
+  improvements: ["Slow down"],
+  moments: [],
+  rubricScores: [{ judgeName: "Ada", criterion: "Impact", score: 7, justification: "Solid" }],
+  judgeSpecificFeedback: [{ judgeName: "Ada", feedback: "Good" }],
+  qaQuestions: [{ question: "How does it scale?", judgeName: "Ada" }]
+};
+
+describe("validateHackathonData", () => {
+  it("accepts a complete profile without repairs", () => {
+    const { value, repairs } = validateHackathonData({ title: "HackX", url: "", judges: [judge], criteria: [], strategy });
+    expect(repairs).toEqual([]);
+    expect(value.judges[0].name).toBe("Ada");
+  });
+
+  it("fills missing judge details without asking again", () => {
+    const { name, values, focusAreas, redFlags } = judge;
+    const { value, repairs } = validateHackathonData({ title: "HackX", judges: [{ name, values, focusAreas, redFlags }], criteria: [], strategy });
+    expect(value.judges[0]).toMatchObject({ role: "Judge", company: "", recommendedTalkingPoints: [] });
+    expect(repairs.every(r => r.kind === 'filled')).toBe(true);
+    expect(needsReask(repairs)).toBe(false);
+  });
+
+  it("re-asks when the script is missing", () => {
+    const { value, repairs } = validateHackathonData({ title: "HackX", judges: [judge], criteria: [], strategy: { ...strategy, generatedScript: "" } });
+    expect(value.strategy.generatedScript).toMatch(/incomplete/);
+    expect(needsReask(repairs)).toBe(true);
+    expect(formatRepairs(repairs)).toContain("strategy.generatedScript");
+  });
+
+  it("falls back to a default panel when no judges come back", () => {
+    const { value, repairs } = validateHackathonData({ title: "HackX", judges: [], criteria: [], strategy });
+    expect(value.judges.length).toBeGreaterThan(0);
+    expect(needsReask(repairs)).toBe(true);
+  });
+});
+
+describe("validateAnalysisResult", () => {
+  it("doesn't re-send the video for missing rubric scores or questions", () => {
+    const { rubricScores, qaQuestions, ...rest } = analysis;
+    const { value, repairs } = validateAnalysisResult(rest);
+    expect(value.rubricScores).toEqual([]);
+    expect(value.qaQuestions).toEqual([]);
+    expect(needsReask(repairs)).toBe(false);
+  });
+
+  it("drops blank questions", () => {
+    const { value, repairs } = validateAnalysisResult({ ...analysis, qaQuestions: [{ judgeName: "Ada" }, { question: "Why now?" }] });
+    expect(value.qaQuestions.map(q => q.question)).toEqual(["Why now?"]);
+    expect(needsReask(repairs)).toBe(false);
+  });
+
+  it("re-asks when the verdict itself is missing", () => {
+    const { strengths, improvements, ...rest } = analysis;
+    expect(needsReask(validateAnalysisResult(rest).repairs)).toBe(true);
+  });
+
+  it("ignores an overtime penalty from the model", () => {
+    const { value, repairs } = validateAnalysisResult({ ...analysis, overtime: "none" });
+    expect(value.overtime).toBeUndefined();
+    expect(repairs).toEqual([]);
+  });
+
+  it("keeps the overtime penalty on saved verdicts", () => {
+    const overtime = { limit: 180, duration: 200, points: 10 };
+    expect(validateStoredAnalysisResult({ ...analysis, overtime }).value.overtime).toEqual(overtime);
+  });
+
+  it("coerces without re-asking", () => {
+    const { value, repairs } = validateAnalysisResult({ ...analysis, overallScore: "140", strengths: "Clear hook" });
+    expect(value.overallScore).toBe(100);
+    expect(value.strengths).toEqual(["Clear hook"]);
+    expect(needsReask(repairs)).toBe(false);
+  });
+});
+
+describe("stored takes", () => {
+  it("repairs hand-edited metrics", () => {
+    const { value } = validateRecordingMetrics({ wpm: "140", fillerWords: 3, fillerBreakdown: { um: 2, like: "x" }, energyLevel: 180, eyeContact: 60, duration: 95 });
+    expect(value).toMatchObject({ wpm: 140, fillerBreakdown: { um: 2, like: 0 }, energyLevel: 100, pauseCount: 0, longestPause: 0 });
+    expect(value.segments).toBeUndefined();
+  });
+
+  it("keeps null for segments that were never reached", () => {
+    const { value } = validateRecordingMetrics({ wpm: 120, fillerWords: 0, energyLevel: 50, eyeContact: 50, duration: 60, segments: [{ action: "Demo", plannedStart: 0, plannedEnd: 30, actualStart: null }] });
+    expect(value.segments?.[0]).toMatchObject({ actualStart: null, actualEnd: null });
+  });
+
+  it("drops transcript lines without text", () => {
+    const { value } = validateTranscript([{ start: 0, end: 2, text: "Hi" }, { start: 2, end: 3 }, "noise"]);
+    expect(value).toEqual([{ start: 0, end: 2, text: "Hi" }]);
+  });
+});
@@ -0,0 +1,497 @@
+import { HackathonData, AnalysisResult, Judge, QaQuestion, QaGrade, DemoMoment, RubricCriterion, CriterionScore, JudgeProvenance, CitedSource, ScriptVersion, ScriptRewrite, Presenter, DemoFormat, OvertimePenalty, RecordingMetrics, TranscriptLine, AttentionSummary, GazeSegment, ScriptCoverage, SegmentTiming, CaptureLayout, FrameRegion, TeamTake, SpeakerTurn, Handoff, PresenterStats, PresenterSegment } from "../types";
+import { DEFAULT_FORMAT } from "./demoFormat";
+
+// Runtime validation for model output and imported files. Each validator is typed against the
+// interface in types.ts (an `obj<Judge>` must list every Judge field), so a
+// change to types.ts without a matching validator fails the type-check.
+//
+// Validators never throw: they coerce what they can, fall back to defaults for
+// the rest and record every change as a Repair.
+
+export interface Repair {
+  path: string;
+  // 'coerced' = value kept but converted/clamped, 'filled' = harmless missing
+  // value given a default, 'defaulted' = required value was missing or unusable
+  kind: 'coerced' | 'filled' | 'defaulted';
+  message: string;
+}
+
+export interface ValidationResult<T> {
+  value: T;
+  repairs: Repair[];
+}
+
+type Validator<T> = (input: unknown, path: string, repairs: Repair[]) => T;
+
+const describe = (input: unknown) => Array.isArray(input) ? 'array' : input === null ? 'null' : typeof input;
+
+// --- Primitives ---
+
+const str = (fallback = ''): Validator<string> => (input, path, repairs) => {
+  if (typeof input === 'string') return input;
+  if (typeof input === 'number' || typeof input === 'boolean') {
+    repairs.push({ path, kind: 'coerced', message: `converted ${typeof input} to string` });
+    return String(input);
+  }
+  repairs.push({ path, kind: 'defaulted', message: `expected string, got ${describe(input)}` });
+  return fallback;
+};
+
+const nonEmptyStr = (fallback: string): Validator<string> => (input, path, repairs) => {
+  const value = str(fallback)(input, path, repairs);
+  if (value.trim()) return value;
+  if (typeof input === 'string') repairs.push({ path, kind: 'defaulted', message: 'empty string' });
+  return fallback;
+};
+
+const num = (opts: { min?: number; max?: number; fallback: number; round?: boolean }): Validator<number> => (input, path, repairs) => {
+  let value = typeof input === 'number' ? input : typeof input === 'string' ? parseFloat(input) : NaN;
+  if (!Number.isFinite(value)) {
+    repairs.push({ path, kind: 'defaulted', message: `expected number, got ${describe(input)}` });
+    return opts.fallback;
+  }
+  if (typeof input === 'string') repairs.push({ path, kind: 'coerced', message: 'parsed number from string' });
+  if (opts.round && !Number.isInteger(value)) value = Math.round(value);
+  if (opts.min !== undefined && value < opts.min) {
+    repairs.push({ path, kind: 'coerced', message: `clamped ${value} to ${opts.min}` });
+    value = opts.min;
+  }
+  if (opts.max !== undefined && value > opts.max) {
+    repairs.push({ path, kind: 'coerced', message: `clamped ${value} to ${opts.max}` });
+    value = opts.max;
+  }
+  return value;
+};
+
+const bool = (fallback: boolean): Validator<boolean> => (input, path, repairs) => {
+  if (typeof input === 'boolean') return input;
+  if (input === 'true' || input === 'false') {
+    repairs.push({ path, kind: 'coerced', message: 'parsed boolean from string' });
+    return input === 'true';
+  }
+  repairs.push({ path, kind: 'defaulted', message: `expected boolean, got ${describe(input)}` });
+  return fallback;
+};
+
+// For fields we can live without: a missing value is filled quietly instead of
+// counting towards a re-ask.
+const fillable = <T,>(validator: Validator<T>, fallback: T): Validator<T> => (input, path, repairs) => {
+  if (input !== undefined && input !== null) return validator(input, path, repairs);
+  repairs.push({ path, kind: 'filled', message: 'missing, used default' });
+  return fallback;
+};
+
+const oneOf = <T extends string,>(values: readonly T[], fallback: T): Validator<T> => (input, path, repairs) => {
+  if (typeof input === 'string') {
+    const match = values.find(v => v === input.trim().toLowerCase());
+    if (match) {
+      if (match !== input) repairs.push({ path, kind: 'coerced', message: `normalized "${input}" to "${match}"` });
+      return match;
+    }
+  }
+  repairs.push({ path, kind: 'coerced', message: `unknown value ${JSON.stringify(input)}, used "${fallback}"` });
+  return fallback;
+};
+
+const optional = <T,>(validator: Validator<T>): Validator<T | undefined> => (input, path, repairs) =>
+  input === undefined || input === null ? undefined : validator(input, path, repairs);
+
+// For fields where null is a meaningful value ("never reached", "no camera")
+const nullable = <T,>(validator: Validator<T>): Validator<T | null> => (input, path, repairs) =>
+  input === undefined || input === null ? null : validator(input, path, repairs);
+
+// --- Composites ---
+
+const arr = <T,>(item: Validator<T>, opts: { minLength?: number; fallback?: () => T[] } = {}): Validator<T[]> => (input, path, repairs) => {
+  let items: unknown[];
+  if (Array.isArray(input)) {
+    items = input;
+  } else if (typeof input === 'string' && input.trim()) {
+    // Models sometimes return a single string where a list was asked for
+    repairs.push({ path, kind: 'coerced', message: 'wrapped single string in array' });
+    items = [input];
+  } else {
+    repairs.push({ path, kind: 'defaulted', message: `expected array, got ${describe(input)}` });
+    items = [];
+  }
+
+  const value = items.map((entry, i) => item(entry, `${path}[${i}]`, repairs));
+  if (opts.minLength && value.length < opts.minLength && opts.fallback) {
+    repairs.push({ path, kind: 'defaulted', message: `expected at least ${opts.minLength} item(s), got ${value.length}` });
+    return opts.fallback();
+  }
+  return value;
+};
+
+const obj = <T,>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> => (input, path, repairs) => {
+  let source: Record<string, unknown> = {};
+  if (input && typeof input === 'object' && !Array.isArray(input)) {
+    source = input as Record<string, unknown>;
+  } else {
+    repairs.push({ path, kind: 'defaulted', message: `expected object, got ${describe(input)}` });
+  }
+
+  const value = {} as T;
+  for (const key of Object.keys(shape) as (keyof T & string)[]) {
+    const result = shape[key](source[key], path ? `${path}.${key}` : key, repairs);
+    if (result !== undefined) value[key] = result;
+  }
+  return value;
+};
+
+const record = <T,>(item: Validator<T>): Validator<Record<string, T>> => (input, path, repairs) => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    repairs.push({ path, kind: 'defaulted', message: `expected object, got ${describe(input)}` });
+    return {};
+  }
+  return Object.fromEntries(Object.entries(input).map(([key, entry]) => [key, item(entry, `${path}.${key}`, repairs)]));
+};
+
+const run = <T,>(validator: Validator<T>, input: unknown): ValidationResult<T> => {
+  const repairs: Repair[] = [];
+  const value = validator(input, '', repairs);
+  return { value, repairs };
+};
+
+// --- Domain Schemas ---
+
+// Used when the model ignores the instruction to always return a panel
+const defaultJudges = (): Judge[] => [
+  {
+    name: "The Technical Judge",
+    role: "Senior Engineer",
+    company: "Tech Corp",
+    values: ["Clean Code", "Scalability"],
+    focusAreas: ["Architecture", "Stack choice"],
+    redFlags: ["Spaghetti code", "Security flaws"],
+    recommendedTalkingPoints: ["Mention your tech stack", "Explain how it scales"]
+  },
+  {
+    name: "The Product Judge",
+    role: "Product Manager",
+    company: "Innovation Inc",
+    values: ["User Experience", "Problem/Solution Fit"],
+    focusAreas: ["UI/UX", "User Journey"],
+    redFlags: ["Confusing UI", "No clear problem statement"],
+    recommendedTalkingPoints: ["Show the user flow", "Explain the 'Why'"]
+  }
+];
+
+const stringList = arr(str());
+
+const confidence = oneOf(['high', 'medium', 'low'] as const, 'low');
+
+// Unknown origin is treated as invented: better to under-trust a real judge
+// than to coach towards a made-up one
+const provenanceValidator = obj<JudgeProvenance>({
+  origin: oneOf(['listed', 'researched', 'archetype', 'team'] as const, 'archetype'),
+  sources: fillable(arr(obj<CitedSource>({
+    title: fillable(str(), ''),
+    uri: fillable(str(), ''),
+    verified: fillable(bool(false), false),
+  })), []),
+  confidence: obj<JudgeProvenance['confidence']>({
+    identity: confidence,
+    values: confidence,
+    focusAreas: confidence,
+    redFlags: confidence,
+  }),
+});
+
+const judgeValidator = obj<Judge>({
+  name: nonEmptyStr("Unnamed Judge"),
+  role: fillable(str("Judge"), "Judge"),
+  company: fillable(str(), ''),
+  values: stringList,
+  focusAreas: stringList,
+  redFlags: stringList,
+  recommendedTalkingPoints: fillable(stringList, []),
+  imageUrl: optional(str()),
+  provenance: optional(provenanceValidator),
+});
+
+const criterionFields = obj<RubricCriterion>({
+  name: nonEmptyStr("Criterion"),
+  weight: num({ min: 0, fallback: 1 }),
+  description: fillable(str(), ''),
+  scale: num({ min: 1, fallback: 10 }),
+});
+
+// Older profiles (and lazy models) give criteria as plain names
+const criterionValidator: Validator<RubricCriterion> = (input, path, repairs) => {
+  if (typeof input === 'string') {
+    repairs.push({ path, kind: 'coerced', message: 'expanded criterion name to rubric entry' });
+    return { name: input, weight: 1, description: '', scale: 10 };
+  }
+  return criterionFields(input, path, repairs);
+};
+
+const strategyValidator = obj<HackathonData['strategy']>({
+  structure: arr(obj<HackathonData['strategy']['structure'][number]>({
+    time: str(),
+    action: str(),
+  })),
+  keyPhrases: stringList,
+  featuresToEmphasize: stringList,
+  generatedScript: nonEmptyStr("Script generation incomplete. Please try analyzing again."),
+});
+
+const scriptVersionValidator = obj<ScriptVersion>({
+  id: nonEmptyStr('0'),
+  createdAt: num({ min: 0, fallback: 0 }),
+  source: oneOf(['generated', 'edited', 'rewrite', 'feedback'] as const, 'edited'),
+  note: fillable(str(), ''),
+  script: str(),
+});
+
+const formatValidator = obj<DemoFormat>({
+  preset: fillable(str(), 'custom'),
+  demoSeconds: num({ min: 10, fallback: DEFAULT_FORMAT.demoSeconds, round: true }),
+  qaSeconds: fillable(num({ min: 0, fallback: 0, round: true }), 0),
+  audience: oneOf(['panel', 'stage', 'booth'] as const, DEFAULT_FORMAT.audience),
+  delivery: oneOf(['live', 'recorded'] as const, DEFAULT_FORMAT.delivery),
+});
+
+const hackathonValidator = obj<HackathonData>({
+  title: nonEmptyStr("Untitled Hackathon"),
+  url: fillable(str(), ''),
+  judges: arr(judgeValidator, { minLength: 1, fallback: defaultJudges }),
+  criteria: arr(criterionValidator),
+  projectDescription: optional(str()),
+  strategy: strategyValidator,
+  scriptHistory: optional(arr(scriptVersionValidator)),
+  team: optional(arr(obj<Presenter>({
+    name: nonEmptyStr("Presenter"),
+    segments: fillable(arr(num({ min: 0, fallback: 0, round: true })), []),
+  }))),
+  format: optional(formatValidator),
+});
+
+const momentFields = obj<DemoMoment>({
+  start: num({ min: 0, fallback: 0 }),
+  end: num({ min: 0, fallback: 0 }),
+  category: oneOf(['delivery', 'content', 'demo', 'technical', 'visual'] as const, 'content'),
+  severity: oneOf(['minor', 'major', 'critical'] as const, 'minor'),
+  judgeName: optional(str()),
+  note: fillable(str(), ''),
+});
+
+const momentValidator: Validator<DemoMoment> = (input, path, repairs) => {
+  const moment = momentFields(input, path, repairs);
+  if (moment.end < moment.start) {
+    repairs.push({ path: `${path}.end`, kind: 'coerced', message: 'end before start, swapped' });
+    return { ...moment, start: moment.end, end: moment.start };
+  }
+  return moment;
+};
+
+const qaQuestionFields = obj<QaQuestion>({
+  question: fillable(str(), ''),
+  judgeName: optional(str()),
+  answer: optional(str()),
+  feedback: optional(str()),
+  score: optional(num({ min: 0, max: 10, fallback: 0, round: true })),
+});
+
+// Questions are nice to have: a short or missing list is not worth re-sending
+// the video for, and blank questions are dropped rather than asked
+const qaQuestionList: Validator<QaQuestion[]> = (input, path, repairs) => {
+  const questions = fillable(arr(qaQuestionFields), [])(input, path, repairs);
+  const asked = questions.filter(q => q.question.trim());
+  if (asked.length < questions.length) {
+    repairs.push({ path, kind: 'filled', message: `dropped ${questions.length - asked.length} blank question(s)` });
+  }
+  return asked;
+};
+
+const analysisValidator = obj<AnalysisResult>({
+  overallScore: num({ min: 0, max: 100, fallback: 0, round: true }),
+  strengths: stringList,
+  improvements: stringList,
+  // A clean take may genuinely have nothing to anchor
+  moments: fillable(arr(momentValidator), []),
+  // Without scores the model's own overallScore stands (rubric.ts)
+  rubricScores: fillable(arr(obj<CriterionScore>({
+    judgeName: nonEmptyStr("Judge"),
+    criterion: str(),
+    // Clamped to the criterion's scale in rubric.ts, which knows the rubric
+    score: num({ min: 0, fallback: 0 }),
+    justification: fillable(str(), ''),
+  })), []),
+  judgeSpecificFeedback: arr(obj<AnalysisResult['judgeSpecificFeedback'][number]>({
+    judgeName: nonEmptyStr("Judge"),
+    feedback: str(),
+  })),
+  qaQuestions: qaQuestionList,
+  presenterFeedback: optional(arr(obj<NonNullable<AnalysisResult['presenterFeedback']>[number]>({
+    presenterName: nonEmptyStr("Presenter"),
+    feedback: str(),
+  }))),
+  overtime: optional(obj<OvertimePenalty>({
+    limit: num({ min: 0, fallback: 0 }),
+    duration: num({ min: 0, fallback: 0 }),
+    points: num({ min: 0, max: 100, fallback: 0, round: true }),
+  })),
+});
+
+// --- Stored Takes (prep package import) ---
+
+const seconds = num({ min: 0, fallback: 0 });
+const percent = num({ min: 0, max: 100, fallback: 0, round: true });
+const count = num({ min: 0, fallback: 0, round: true });
+const presenterIndex = num({ min: 0, fallback: 0, round: true });
+const turnSource = oneOf(['start', 'manual', 'voice'] as const, 'manual');
+
+const attentionValidator = obj<AttentionSummary>({
+  eyeContact: percent,
+  timeline: fillable(arr(obj<GazeSegment>({
+    state: oneOf(['camera', 'script', 'away', 'slouching', 'off-frame'] as const, 'away'),
+    start: seconds,
+    end: seconds,
+  })), []),
+  scriptGlances: fillable(count, 0),
+  slouchMoments: fillable(count, 0),
+  offFrameMoments: fillable(count, 0),
+});
+
+const scriptCoverageValidator = obj<ScriptCoverage>({
+  coverage: percent,
+  sentencesCovered: count,
+  totalSentences: count,
+  skipped: fillable(stringList, []),
+});
+
+const segmentTimingValidator = obj<SegmentTiming>({
+  action: str(),
+  plannedStart: seconds,
+  plannedEnd: seconds,
+  actualStart: nullable(seconds),
+  actualEnd: nullable(seconds),
+});
+
+const frameRegion = obj<FrameRegion>({
+  x: num({ min: 0, max: 1, fallback: 0 }),
+  y: num({ min: 0, max: 1, fallback: 0 }),
+  width: num({ min: 0, max: 1, fallback: 1 }),
+  height: num({ min: 0, max: 1, fallback: 1 }),
+});
+
+const captureLayoutValidator = obj<CaptureLayout>({
+  screen: frameRegion,
+  camera: nullable(frameRegion),
+  cameraCorner: nullable(oneOf(['top-left', 'top-right', 'bottom-left', 'bottom-right'] as const, 'bottom-right')),
+});
+
+const teamTakeValidator = obj<TeamTake>({
+  presenters: stringList,
+  turns: fillable(arr(obj<SpeakerTurn>({
+    presenter: presenterIndex,
+    start: seconds,
+    end: seconds,
+    source: turnSource,
+  })), []),
+  handoffs: fillable(arr(obj<Handoff>({
+    at: seconds,
+    from: presenterIndex,
+    to: presenterIndex,
+    source: turnSource,
+    gap: seconds,
+    planned: fillable(bool(false), false),
+    smooth: fillable(bool(false), false),
+    note: fillable(str(), ''),
+  })), []),
+  stats: fillable(arr(obj<PresenterStats>({
+    name: nonEmptyStr("Presenter"),
+    speakingTime: seconds,
+    wordCount: count,
+    wpm: count,
+    fillerWords: count,
+    segments: fillable(arr(obj<PresenterSegment>({
+      index: count,
+      action: str(),
+      covered: fillable(bool(false), false),
+      spokenBy: nullable(presenterIndex),
+    })), []),
+  })), []),
+});
+
+const metricsValidator = obj<RecordingMetrics>({
+  wpm: count,
+  fillerWords: count,
+  fillerBreakdown: fillable(record(count), {}),
+  energyLevel: percent,
+  eyeContact: percent,
+  duration: seconds,
+  pauseCount: fillable(count, 0),
+  longestPause: fillable(seconds, 0),
+  attention: optional(attentionValidator),
+  scriptCoverage: optional(scriptCoverageValidator),
+  segments: optional(arr(segmentTimingValidator)),
+  capture: optional(captureLayoutValidator),
+  team: optional(teamTakeValidator),
+});
+
+const transcriptLineFields = obj<TranscriptLine>({
+  start: seconds,
+  end: seconds,
+  text: str(),
+  speaker: optional(presenterIndex),
+});
+
+// Lines without words carry nothing worth keeping
+const transcriptValidator: Validator<TranscriptLine[]> = (input, path, repairs) => {
+  const lines = arr(transcriptLineFields)(input, path, repairs);
+  const spoken = lines.filter(l => l.text.trim());
+  if (spoken.length < lines.length) {
+    repairs.push({ path, kind: 'filled', message: `dropped ${lines.length - spoken.length} empty line(s)` });
+  }
+  return spoken;
+};
+
+// The overtime penalty comes from the measured take length (demoFormat.ts),
+// never from the model; whatever it sends there is dropped unvalidated so it
+// can't trigger a re-ask either
+const modelAnalysisValidator: Validator<AnalysisResult> = (input, path, repairs) => {
+  if (input && typeof input === 'object' && !Array.isArray(input) && 'overtime' in input) {
+    const { overtime: _, ...rest } = input as Record<string, unknown>;
+    return analysisValidator(rest, path, repairs);
+  }
+  return analysisValidator(input, path, repairs);
+};
+
+const scriptRewriteValidator = obj<ScriptRewrite>({
+  // No sensible default: an empty script has to be re-asked, and the caller keeps the old one
+  script: nonEmptyStr(''),
+  summary: fillable(str(), ''),
+});
+
+const qaGradeValidator = obj<QaGrade>({
+  score: num({ min: 0, max: 10, fallback: 0, round: true }),
+  feedback: nonEmptyStr("No feedback returned."),
+});
+
+export const validateHackathonData = (input: unknown): ValidationResult<HackathonData> => run(hackathonValidator, input);
+
+export const validateStrategy = (input: unknown): ValidationResult<HackathonData['strategy']> => run(strategyValidator, input);
+
+export const validateAnalysisResult = (input: unknown): ValidationResult<AnalysisResult> => run(modelAnalysisValidator, input);
+
+// Saved and imported verdicts keep the penalty applied when they were judged
+export const validateStoredAnalysisResult = (input: unknown): ValidationResult<AnalysisResult> => run(analysisValidator, input);
+
+export const validateRecordingMetrics = (input: unknown): ValidationResult<RecordingMetrics> => run(metricsValidator, input);
+
+export const validateTranscript = (input: unknown): ValidationResult<TranscriptLine[]> => run(transcriptValidator, input);
+
+export const validateScriptRewrite = (input: unknown): ValidationResult<ScriptRewrite> => run(scriptRewriteValidator, input);
+
+export const validateQaGrade = (input: unknown): ValidationResult<QaGrade> => run(qaGradeValidator, input);
+
+// Only missing/unusable required fields are worth another model call (for a
+// video analysis that means sending the video again); clamps, coercions and
+// 'filled' nice-to-haves are fixed locally.
+export const needsReask = (repairs: Repair[]): boolean => repairs.some(r => r.kind === 'defaulted');
+
+// Turns repairs into a short correction note appended to the re-ask prompt.
+export const formatRepairs = (repairs: Repair[]): string =>
+  repairs.map(r => `- ${r.path || '(root)'}: ${r.message}`).join('\n');
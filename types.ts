@@ -1,3 +1,29 @@
+export type Confidence = 'high' | 'medium' | 'low';
+
+// listed = named on the event page or in text/docs the team provided,
+// researched = found through web search, archetype = invented because no real
+// judges were found, team = entered or corrected by hand
+export type JudgeOrigin = 'listed' | 'researched' | 'archetype' | 'team';
+
+export interface CitedSource {
+  title: string;
+  uri: string;
+  // True when the page was among the sources the search tool actually
+  // returned (or is the event page itself), not just a URL the model wrote
+  verified: boolean;
+}
+
+export interface JudgeProvenance {
+  origin: JudgeOrigin;
+  sources: CitedSource[];
+  confidence: {
+    identity: Confidence; // name, role, company
+    values: Confidence;
+    focusAreas: Confidence;
+    redFlags: Confidence;
+  };
+}
+
 export interface Judge {
   name: string;
   role: string;
@@ -7,35 +33,333 @@ export interface Judge {
   redFlags: string[];
   recommendedTalkingPoints: string[];
   imageUrl?: string;
+  // Missing on profiles analyzed before provenance was tracked
+  provenance?: JudgeProvenance;
+}
+
+export interface RubricCriterion {
+  name: string;
+  // Relative weight; shares are computed against the sum of all weights
+  weight: number;
+  description: string;
+  // Maximum points a judge can give on this criterion
+  scale: number;
+}
+
+// A document attached to the hackathon analysis, e.g. a PDF judging guide.
+// Plain-text files are merged into the text fields instead.
+export interface SourceFile {
+  name: string;
+  mimeType: string;
+  data: string; // base64, no data: prefix
+}
+
+// Everything we know about the event and our project before analysis. Any of
+// the event fields may be empty; at least one should be set.
+export interface HackathonSource {
+  url: string;
+  eventText: string;
+  files: SourceFile[];
+  projectDescription: string;
+  format: DemoFormat;
+}
+
+// panel = judges at a table, stage = an audience in a hall, booth = judges
+// walking up to a science-fair style table
+export type AudienceType = 'panel' | 'stage' | 'booth';
+
+// live = presented in the room, recorded = a submission video watched later
+export type DeliveryMode = 'live' | 'recorded';
+
+// How the demo is judged: time limits and setting (services/demoFormat.ts)
+export interface DemoFormat {
+  // Preset it came from, or 'custom'
+  preset: string;
+  demoSeconds: number;
+  // 0 when there is no Q&A
+  qaSeconds: number;
+  audience: AudienceType;
+  delivery: DeliveryMode;
+}
+
+// A web page the model cited while researching the event
+export interface GroundingSource {
+  title: string;
+  uri: string;
 }
 
 export interface HackathonData {
   title: string;
   url: string;
   judges: Judge[];
-  criteria: string[];
+  criteria: RubricCriterion[];
+  // What the team is building, from their own description or README
+  projectDescription?: string;
   strategy: {
     structure: { time: string; action: string }[];
     keyPhrases: string[];
     featuresToEmphasize: string[];
     generatedScript: string;
   };
+  // Earlier revisions of strategy.generatedScript, oldest first (services/scriptWorkshop.ts)
+  scriptHistory?: ScriptVersion[];
+  // Who presents what when the demo is split between teammates (services/teamMode.ts)
+  team?: Presenter[];
+  // Missing on profiles analyzed before formats existed: the 3-minute default
+  format?: DemoFormat;
+}
+
+export interface Presenter {
+  name: string;
+  // Indexes into strategy.structure this presenter delivers
+  segments: number[];
+}
+
+// generated = written by analysis or regeneration, edited = typed by the team,
+// rewrite = model rewrite from an instruction, feedback = folded in from a verdict
+export type ScriptVersionSource = 'generated' | 'edited' | 'rewrite' | 'feedback';
+
+export interface ScriptVersion {
+  id: string;
+  createdAt: number;
+  source: ScriptVersionSource;
+  // The instruction for rewrites, or what changed
+  note: string;
+  script: string;
+}
+
+// A targeted script rewrite; wpm lets "cut it to 20 seconds" become a word count
+export interface ScriptRewriteRequest {
+  script: string;
+  instruction: string;
+  wpm: number;
+}
+
+export interface ScriptRewrite {
+  script: string;
+  // One or two sentences on what was changed
+  summary: string;
+}
+
+export type GazeState = 'camera' | 'script' | 'away' | 'slouching' | 'off-frame';
+
+export interface GazeSegment {
+  state: GazeState;
+  start: number; // seconds from recording start
+  end: number;
+}
+
+export interface AttentionSummary {
+  eyeContact: number;
+  timeline: GazeSegment[];
+  scriptGlances: number;
+  slouchMoments: number;
+  offFrameMoments: number;
+}
+
+export interface ScriptCoverage {
+  // Percent of script words actually spoken
+  coverage: number;
+  sentencesCovered: number;
+  totalSentences: number;
+  skipped: string[];
+}
+
+// Planned vs. actual time for one strategy.structure row, in seconds
+export interface SegmentTiming {
+  action: string;
+  plannedStart: number;
+  plannedEnd: number;
+  // null when the segment was never reached
+  actualStart: number | null;
+  actualEnd: number | null;
+}
+
+// One final speech-recognition result, in seconds from the start of the take
+export interface TranscriptLine {
+  start: number;
+  end: number;
+  text: string;
+  // Index into the take's presenters, for team takes
+  speaker?: number;
+}
+
+// What we know about a take besides the video itself
+export interface TakeContext {
+  layout?: CaptureLayout;
+  transcript?: TranscriptLine[];
+  team?: TeamTake;
+  // Length of the take in seconds, checked against the format's time limit
+  duration?: number;
+}
+
+// 'start' is whoever opened the take; 'voice' = detected from a change of voice
+export type TurnSource = 'start' | 'manual' | 'voice';
+
+// One presenter holding the floor, in seconds from the start of the take
+export interface SpeakerTurn {
+  presenter: number;
+  start: number;
+  end: number;
+  source: TurnSource;
+}
+
+export interface Handoff {
+  at: number;
+  from: number;
+  to: number;
+  source: TurnSource;
+  // Silence between the last words before and the first words after, seconds
+  gap: number;
+  // The new presenter owns the segment in progress, or the one about to start
+  planned: boolean;
+  smooth: boolean;
+  note: string;
+}
+
+export interface PresenterSegment {
+  index: number;
+  action: string;
+  // Reached during the take, delivered mostly by its assigned presenter, and
+  // its action or a key phrase came up in what they said
+  covered: boolean;
+  // Presenter who did most of the talking in it; null if never reached
+  spokenBy: number | null;
+}
+
+export interface PresenterStats {
+  name: string;
+  speakingTime: number;
+  wordCount: number;
+  wpm: number;
+  fillerWords: number;
+  segments: PresenterSegment[];
+}
+
+export interface TeamTake {
+  presenters: string[];
+  turns: SpeakerTurn[];
+  handoffs: Handoff[];
+  stats: PresenterStats[];
+}
+
+// Position within the recorded frame, as fractions (0-1) of its width and height
+export interface FrameRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type PipCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+// Screen-share takes: where the product and the presenter's camera sit in the frame
+export interface CaptureLayout {
+  screen: FrameRegion;
+  camera: FrameRegion | null;
+  cameraCorner: PipCorner | null;
 }
 
 export interface RecordingMetrics {
   wpm: number;
   fillerWords: number;
+  fillerBreakdown: Record<string, number>;
   energyLevel: number;
   eyeContact: number;
   duration: number;
+  pauseCount: number;
+  longestPause: number;
+  // Only present when on-device face detection was available
+  attention?: AttentionSummary;
+  // Only present when the take had a script to follow
+  scriptCoverage?: ScriptCoverage;
+  segments?: SegmentTiming[];
+  // Only present for screen-share takes (components/DemoStudio.tsx)
+  capture?: CaptureLayout;
+  // Only present for takes recorded with a team of two or more
+  team?: TeamTake;
+}
+
+// What the live coach model is told about the take so far (services/liveCoach.ts)
+export interface CoachingContext {
+  // Roughly the last minute of speech
+  recentTranscript: string;
+  wpm: number;
+  // Planned action for the segment the presenter is in
+  segment: string | null;
+  focusAreas: string[];
+  // Tips already given this take, newest last
+  previousTips: string[];
+}
+
+export interface QaQuestion {
+  question: string;
+  // Judge expected to ask it, matches Judge.name
+  judgeName?: string;
+  answer?: string;
+  feedback?: string;
+  // 0-10, set once the answer has been graded
+  score?: number;
+}
+
+export interface QaGrade {
+  score: number;
+  feedback: string;
+}
+
+export type MomentCategory = 'delivery' | 'content' | 'demo' | 'technical' | 'visual';
+export type MomentSeverity = 'minor' | 'major' | 'critical';
+
+// A stretch of the recording the verdict refers to, in seconds from the start
+export interface DemoMoment {
+  start: number;
+  end: number;
+  category: MomentCategory;
+  severity: MomentSeverity;
+  // Judge most affected, matches Judge.name
+  judgeName?: string;
+  note: string;
+}
+
+export interface CriterionScore {
+  judgeName: string;
+  // Matches RubricCriterion.name
+  criterion: string;
+  score: number;
+  justification: string;
 }
 
 export interface AnalysisResult {
   overallScore: number;
   strengths: string[];
   improvements: string[];
+  moments: DemoMoment[];
+  rubricScores: CriterionScore[];
   judgeSpecificFeedback: { judgeName: string; feedback: string }[];
-  qaQuestions: { question: string; answer?: string; feedback?: string }[];
+  qaQuestions: QaQuestion[];
+  // Team takes only: delivery, assigned talking points and hand-offs per presenter
+  presenterFeedback?: { presenterName: string; feedback: string }[];
+  // Set when the take ran past the format's limit, already taken off overallScore
+  overtime?: OvertimePenalty;
+}
+
+export interface OvertimePenalty {
+  // Seconds
+  limit: number;
+  duration: number;
+  points: number;
+}
+
+// One recorded practice run, persisted locally by services/sessionStore.ts
+export interface PracticeSession {
+  id: string;
+  createdAt: number;
+  hackathon: HackathonData;
+  videoBlob: Blob;
+  metrics: RecordingMetrics | null;
+  // Missing on sessions recorded before transcripts were kept, or without speech recognition
+  transcript?: TranscriptLine[];
+  result: AnalysisResult | null;
 }
 
 export type AppStep = 'analyze' | 'practice' | 'results';
\ No newline at end of file
@@ -4,6 +4,9 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // AI backend: 'gemini' | 'mock' | 'openai'. Without an explicit choice we
+    // use Gemini when a key is configured and the offline mock otherwise.
+    const aiProvider = env.AI_PROVIDER || (env.GEMINI_API_KEY ? 'gemini' : 'mock');
     return {
       server: {
         port: 3000,
@@ -12,7 +15,14 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(aiProvider),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY),
+        'process.env.OPENAI_MODEL': JSON.stringify(env.OPENAI_MODEL),
+        'process.env.AI_REASK': JSON.stringify(env.AI_REASK),
+        'process.env.AI_TIMEOUT_MS': JSON.stringify(env.AI_TIMEOUT_MS),
+        'process.env.AI_MAX_RETRIES': JSON.stringify(env.AI_MAX_RETRIES)
       },
       resolve: {
         alias: {